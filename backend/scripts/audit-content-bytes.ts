@@ -1,7 +1,8 @@
 /**
  * Content Bytes Quality Audit Script
  *
- * Uses Claude Opus to evaluate content bytes for quality and removes low-quality content.
+ * Uses the audit model chain (LLM_AUDIT_MODELS) to evaluate content bytes for quality
+ * and removes low-quality content.
  *
  * Evaluation Criteria:
  * - Standalone clarity and insightfulness
@@ -18,22 +19,20 @@
  *   MIN_QUALITY=0.6      - Minimum quality score to keep (default: 0.6)
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { PrismaClient } from '@prisma/client';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
 
+import { completeStructured, getModelChain, StructuredOutputError } from '../src/services/llm';
+import { AUDIT_BATCH_SCHEMA, AuditScore } from '../src/services/llm/schemas';
+
 const prisma = new PrismaClient();
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
 
 // Configuration
 const BATCH_SIZE = parseInt(process.env.BATCH_SIZE || '50', 10);
 const MIN_QUALITY_SCORE = parseFloat(process.env.MIN_QUALITY || '0.6');
 const DRY_RUN = process.env.DRY_RUN === 'true';
-const MODEL = 'claude-sonnet-4-6'; // Claude Sonnet 4.6
 
 interface ByteForAudit {
   id: string;
@@ -43,12 +42,6 @@ interface ByteForAudit {
   author: string | null;
 }
 
-interface AuditResult {
-  id: string;
-  score: number;
-  reason: string;
-}
-
 const AUDIT_PROMPT = `You are evaluating content bytes for a wisdom/insight app. Each byte should be a standalone piece of valuable content that users see when opening a new browser tab.
 
 Rate each byte on a scale of 0.0 to 1.0 based on these criteria:
@@ -112,9 +105,9 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Audit a batch of content bytes using Claude with retry logic
+ * Audit a batch of content bytes with retry logic
  */
-async function auditBatch(bytes: ByteForAudit[]): Promise<AuditResult[]> {
+async function auditBatch(bytes: ByteForAudit[]): Promise<AuditScore[]> {
   // Format bytes as a table for efficient processing
   const bytesTable = bytes.map((b, i) =>
     `[${i + 1}] ID: ${b.id}\nType: ${b.type} | Category: ${b.category}${b.author ? ` | Author: ${b.author}` : ''}\nContent: "${b.content}"\n`
@@ -122,38 +115,29 @@ async function auditBatch(bytes: ByteForAudit[]): Promise<AuditResult[]> {
 
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const message = await anthropic.messages.create({
-        model: MODEL,
-        max_tokens: 4096,
-        messages: [
-          {
-            role: 'user',
-            content: `${AUDIT_PROMPT}
+      const { value } = await completeStructured<AuditScore[]>(
+        'audit',
+        `${AUDIT_PROMPT}
 
 Here are ${bytes.length} content bytes to evaluate:
 
 ${bytesTable}`,
-          },
-        ],
-      });
-
-      const responseText = message.content[0].type === 'text' ? message.content[0].text : '';
-
-      // Parse JSON response
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        console.error('Failed to parse audit response:', responseText.slice(0, 200));
-        return [];
-      }
+        AUDIT_BATCH_SCHEMA,
+        {
+          maxTokens: 4096,
+          input: { byteIds: bytes.map((b) => b.id).join(',') },
+          usage: { byteIds: bytes.map((b) => b.id) },
+        }
+      );
 
-      const results: AuditResult[] = JSON.parse(jsonMatch[0]);
-      return results;
+      return value;
     } catch (error: any) {
-      const isRetryable = error?.status === 529 || error?.status === 503 || error?.status === 500;
+      // Every model in the chain failed (overloaded, down); a response that failed its repair won't improve on retry
+      const isRetryable = !(error instanceof StructuredOutputError);
 
       if (isRetryable && attempt < MAX_RETRIES) {
         const delay = INITIAL_RETRY_DELAY_MS * Math.pow(2, attempt - 1);
-        console.log(`  ⏳ API overloaded (attempt ${attempt}/${MAX_RETRIES}), retrying in ${delay / 1000}s...`);
+        console.log(`  ⏳ All audit models failed (attempt ${attempt}/${MAX_RETRIES}), retrying in ${delay / 1000}s...`);
         await sleep(delay);
         continue;
       }
@@ -173,7 +157,7 @@ async function runAudit() {
   console.log('='.repeat(60));
   console.log('CONTENT BYTES QUALITY AUDIT');
   console.log('='.repeat(60));
-  console.log(`Model: ${MODEL}`);
+  console.log(`Models: ${getModelChain('audit').map((m) => `${m.provider}:${m.model}`).join(' → ')}`);
   console.log(`Batch Size: ${BATCH_SIZE}`);
   console.log(`Min Quality Score: ${MIN_QUALITY_SCORE}`);
   console.log(`Dry Run: ${DRY_RUN}`);
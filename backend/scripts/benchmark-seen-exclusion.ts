@@ -0,0 +1,197 @@
+/**
+ * Seen-Exclusion Benchmark - Simulate a heavy user and time feed queries
+ *
+ * This script:
+ * 1. Seeds a benchmark source with BYTE_COUNT bytes (idempotent)
+ * 2. Seeds a heavy user with HISTORY_COUNT read ContentHistory rows
+ *    plus a slice of votes/saves
+ * 3. Times the feed candidate query with the legacy `notIn` id list
+ *    against the database anti-join from `unseenByUser`
+ *
+ * Usage:
+ *   npx ts-node scripts/benchmark-seen-exclusion.ts
+ *   HISTORY_COUNT=100000 npx ts-node scripts/benchmark-seen-exclusion.ts
+ *   npx ts-node scripts/benchmark-seen-exclusion.ts --cleanup
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import { unseenByUser } from '../src/utils/seenFilter';
+
+const prisma = new PrismaClient();
+
+const HISTORY_COUNT = parseInt(process.env.HISTORY_COUNT || '50000');
+const BYTE_COUNT = HISTORY_COUNT + 5000; // Leave unseen bytes for the feed to return
+const ENGAGEMENT_COUNT = Math.floor(HISTORY_COUNT / 10);
+const ITERATIONS = parseInt(process.env.ITERATIONS || '10');
+const BATCH_SIZE = 5000;
+
+const BENCH_EMAIL = 'benchmark-heavy-user@byteletters.local';
+const BENCH_SENDER = 'benchmark@byteletters.local';
+const CATEGORIES = ['wisdom', 'productivity', 'business', 'tech', 'life'];
+
+// Same shape as the personalized feed's candidate query
+const CANDIDATE_QUERY = {
+  include: { edition: { include: { source: true } } },
+  orderBy: [
+    { qualityScore: 'desc' },
+    { engagementScore: 'desc' },
+    { createdAt: 'desc' },
+    { id: 'desc' },
+  ] as Prisma.ContentByteOrderByWithRelationInput[],
+  take: 100,
+};
+
+async function seedBenchmarkData() {
+  const source = await prisma.newsletterSource.upsert({
+    where: { senderEmail: BENCH_SENDER },
+    create: {
+      name: 'Benchmark Source',
+      senderEmail: BENCH_SENDER,
+      senderDomain: 'byteletters.local',
+      isCurated: true,
+    },
+    update: {},
+  });
+
+  const edition = await prisma.edition.upsert({
+    where: { contentHash: 'benchmark-edition' },
+    create: {
+      sourceId: source.id,
+      subject: 'Benchmark Edition',
+      contentHash: 'benchmark-edition',
+      rawContent: '',
+      textContent: '',
+    },
+    update: {},
+  });
+
+  const existingBytes = await prisma.contentByte.count({ where: { editionId: edition.id } });
+  if (existingBytes < BYTE_COUNT) {
+    console.log(`📝 Creating ${BYTE_COUNT - existingBytes} bytes...`);
+    for (let i = existingBytes; i < BYTE_COUNT; i += BATCH_SIZE) {
+      const size = Math.min(BATCH_SIZE, BYTE_COUNT - i);
+      await prisma.contentByte.createMany({
+        data: Array.from({ length: size }, (_, j) => ({
+          editionId: edition.id,
+          content: `Benchmark insight #${i + j}`,
+          category: CATEGORIES[(i + j) % CATEGORIES.length],
+          qualityScore: Math.random(),
+          engagementScore: Math.random() * 100,
+        })),
+      });
+    }
+  }
+
+  const user = await prisma.user.upsert({
+    where: { email: BENCH_EMAIL },
+    create: { email: BENCH_EMAIL, passwordHash: '', name: 'Benchmark Heavy User' },
+    update: {},
+  });
+
+  const existingHistory = await prisma.contentHistory.count({ where: { userId: user.id } });
+  if (existingHistory < HISTORY_COUNT) {
+    console.log(`📝 Creating ${HISTORY_COUNT - existingHistory} history rows...`);
+    const bytes = await prisma.contentByte.findMany({
+      where: { editionId: edition.id },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: HISTORY_COUNT,
+    });
+
+    for (let i = 0; i < bytes.length; i += BATCH_SIZE) {
+      await prisma.contentHistory.createMany({
+        data: bytes.slice(i, i + BATCH_SIZE).map((b) => ({ userId: user.id, byteId: b.id, isRead: true })),
+        skipDuplicates: true,
+      });
+    }
+
+    await prisma.userEngagement.createMany({
+      data: bytes.slice(0, ENGAGEMENT_COUNT).map((b, i) => ({
+        userId: user.id,
+        byteId: b.id,
+        vote: i % 3 === 0 ? -1 : 1,
+        isSaved: i % 5 === 0,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  return user.id;
+}
+
+// Previous approach: load every seen id, then ship them back in `notIn`
+async function legacyQuery(userId: string) {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      contentHistory: { where: { isRead: true }, select: { byteId: true } },
+      engagements: {
+        where: { OR: [{ vote: { not: 0 } }, { isSaved: true }] },
+        select: { byteId: true },
+      },
+    },
+  });
+
+  const seenByteIds = [
+    ...new Set([
+      ...user!.contentHistory.map((h) => h.byteId),
+      ...user!.engagements.map((e) => e.byteId),
+    ]),
+  ];
+
+  return prisma.contentByte.findMany({ where: { id: { notIn: seenByteIds } }, ...CANDIDATE_QUERY });
+}
+
+async function antiJoinQuery(userId: string) {
+  return prisma.contentByte.findMany({ where: unseenByUser(userId), ...CANDIDATE_QUERY });
+}
+
+async function time(label: string, run: () => Promise<unknown[]>) {
+  await run(); // Warm up connection and query plan
+
+  const timings: number[] = [];
+  let rows = 0;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const start = process.hrtime.bigint();
+    rows = (await run()).length;
+    timings.push(Number(process.hrtime.bigint() - start) / 1e6);
+  }
+
+  timings.sort((a, b) => a - b);
+  return {
+    query: label,
+    rows,
+    medianMs: +timings[Math.floor(timings.length / 2)].toFixed(1),
+    p90Ms: +timings[Math.floor(timings.length * 0.9)].toFixed(1),
+  };
+}
+
+async function cleanup() {
+  await prisma.user.deleteMany({ where: { email: BENCH_EMAIL } });
+  await prisma.newsletterSource.deleteMany({ where: { senderEmail: BENCH_SENDER } });
+  console.log('🧹 Removed benchmark user, source and bytes');
+}
+
+async function runBenchmark() {
+  if (process.argv.includes('--cleanup')) {
+    await cleanup();
+    return;
+  }
+
+  console.log(`\n⏱️  Seen-exclusion benchmark (${HISTORY_COUNT} history rows, ${ITERATIONS} runs)\n`);
+
+  const userId = await seedBenchmarkData();
+
+  const results = [
+    await time('notIn id list (legacy)', () => legacyQuery(userId)),
+    await time('anti-join (unseenByUser)', () => antiJoinQuery(userId)),
+  ];
+
+  console.table(results);
+  console.log('Run with --cleanup to remove the benchmark data.\n');
+}
+
+// Run benchmark
+runBenchmark()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -961,8 +961,10 @@ async function saveEditions(config: NewsletterConfig, editions: EditionData[]) {
           contentHash,
           rawContent: edition.htmlContent || edition.content,
           textContent: edition.content,
+          url: edition.url,
           publishedAt: edition.publishedAt,
           receivedAt: new Date(),
+          isSponsored: edition.isSponsored ?? false, // All its bytes get tagged
           processingStatus: 'pending', // Queue for processing
         },
       });
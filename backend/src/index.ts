@@ -10,6 +10,7 @@ dotenv.config();
 import authRoutes from './routes/auth';
 import webhookRoutes from './routes/webhooks';
 import feedRoutes from './routes/feed';
+import meRoutes from './routes/me';
 import discoverRoutes from './routes/discover';
 import testFeedRoutes from './routes/testFeed';
 import internalRoutes from './routes/internal';
@@ -62,6 +63,7 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Global rate limiting and validation (excludes webhooks for email reception)
 app.use('/feed', rateLimits.feed);
 app.use('/discover', rateLimits.feed);
+app.use('/me', rateLimits.general);
 app.use('/test-feed', rateLimits.general);
 app.use(validateRequest);  // Validate all requests for injection attacks
 
@@ -79,6 +81,7 @@ app.use('/auth', authRoutes);
 app.use('/webhooks', webhookRoutes);
 app.use('/feed', feedRoutes);           // Content feed with engagement
 app.use('/discover', discoverRoutes);   // Content discovery
+app.use('/me', meRoutes);               // Learned preference profile, private inbox
 app.use('/newsletters', newslettersRoutes); // Curated newsletter sources
 app.use('/test-feed', testFeedRoutes);  // Test routes (no auth, works with mock db)
 app.use('/internal', internalRoutes);   // Cron/admin endpoints (protected)
@@ -108,8 +111,9 @@ app.listen(PORT, () => {
   📧 Webhook:  POST /webhooks/cloudflare, /webhooks/mailgun
   🔑 Auth:     POST /auth/signup, /auth/login
 
-  📰 Feed:     GET  /feed, /feed/next
-  👍 Engage:   POST /feed/bytes/:id/vote, /view, /save
+  📰 Feed:     GET  /feed, /feed/next, /feed/next/batch
+  👍 Engage:   POST /feed/bytes/:id/vote, /view, /save, /share, /review
+  👤 Me:       GET  /me/preferences
   🔍 Discover: GET  /discover/sources, /trending, /popular
   🎯 Onboard:  GET  /discover/onboarding
 
@@ -123,6 +127,11 @@ app.listen(PORT, () => {
   🔄 Queue:    POST /internal/process-queue
   📊 Stats:    GET  /internal/queue-stats
   🔁 Retry:    POST /internal/reset-failed
+  📈 Scores:   POST /internal/recompute-scores
+  🧮 Counters: POST /internal/reconcile-engagement
+  📜 Jobs:     GET  /internal/jobs
+  🧬 Dedup:    POST /internal/fingerprint-bytes
+  🧪 LLM:      GET  /internal/llm-metrics
   `);
 });
 
@@ -9,6 +9,31 @@ import { Router, Response, NextFunction } from 'express';
 import { prisma } from '../services/db';
 import { authenticateToken } from '../middleware/auth';
 import { AuthenticatedRequest } from '../types';
+import { getDuplicateClusters, mergeDuplicate, dismissDuplicate } from '../services/dedup';
+import { queueReprocess, previewReprocess, ReprocessFilter } from '../services/processingQueue';
+import { EXTRACTION_VERSION } from '../services/extraction';
+import { PUBLIC_BYTES } from '../utils/liveBytes';
+import {
+  labelClassification,
+  listClassifications,
+  trainClassifier,
+  getClassifierMetrics,
+} from '../services/emailClassifier';
+import { getBudgetStatus, getUsageRollups, parseModelChain, getProviderNames } from '../services/llm';
+import {
+  getDeadLetterGroups,
+  getDeadLetter,
+  retryDeadLetter,
+  discardDeadLetter,
+  FAILURE_CAUSES,
+  FailureCause,
+} from '../services/failureTriage';
+import {
+  INGEST_RULE_ACTIONS,
+  INGEST_RULE_MATCH_TYPES,
+  normalizePattern,
+  invalidateIngestRules,
+} from '../services/ingestRules';
 
 const router = Router();
 
@@ -97,13 +122,13 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response) => {
       recentScrapeJobs,
     ] = await Promise.all([
       prisma.user.count(),
-      prisma.newsletterSource.count(),
+      prisma.newsletterSource.count({ where: { ownerId: null } }),
       prisma.newsletterSource.count({ where: { isCurated: true } }),
-      prisma.edition.count(),
-      prisma.contentByte.count(),
-      prisma.contentByte.count({ where: { moderationStatus: 'pending' } }),
-      prisma.contentByte.count({ where: { moderationStatus: 'rejected' } }),
-      prisma.contentByte.count({ where: { downvotes: { gte: 3 } } }),
+      prisma.edition.count({ where: { source: { ownerId: null } } }),
+      prisma.contentByte.count({ where: PUBLIC_BYTES }),
+      prisma.contentByte.count({ where: { moderationStatus: 'pending', ...PUBLIC_BYTES } }),
+      prisma.contentByte.count({ where: { moderationStatus: 'rejected', ...PUBLIC_BYTES } }),
+      prisma.contentByte.count({ where: { downvotes: { gte: 3 }, ...PUBLIC_BYTES } }),
       prisma.forwardedEmail.count({ where: { status: 'pending' } }),
       prisma.scrapeJob.findMany({
         take: 5,
@@ -117,6 +142,7 @@ router.get('/stats', async (req: AuthenticatedRequest, res: Response) => {
     // Get insights by moderation status
     const moderationStats = await prisma.contentByte.groupBy({
       by: ['moderationStatus'],
+      where: PUBLIC_BYTES,
       _count: { id: true },
     });
 
@@ -168,7 +194,8 @@ router.get('/sources', async (req: AuthenticatedRequest, res: Response) => {
     const { curated, page = '1', limit = '20' } = req.query;
     const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
 
-    const where = curated === 'true' ? { isCurated: true } : {};
+    // Private inbox sources belong to their users, not the catalogue
+    const where = curated === 'true' ? { isCurated: true } : { ownerId: null };
 
     const [sources, total] = await Promise.all([
       prisma.newsletterSource.findMany({
@@ -289,8 +316,8 @@ router.get('/sources/:id', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
 
-    const source = await prisma.newsletterSource.findUnique({
-      where: { id },
+    const source = await prisma.newsletterSource.findFirst({
+      where: { id, ownerId: null },
       include: {
         _count: {
           select: {
@@ -324,6 +351,12 @@ router.patch('/sources/:id', async (req: AuthenticatedRequest, res: Response) =>
     // Remove fields that shouldn't be directly updated
     delete updates.id;
     delete updates.createdAt;
+    delete updates.ownerId;
+
+    const existing = await prisma.newsletterSource.findFirst({ where: { id, ownerId: null } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Source not found' });
+    }
 
     const source = await prisma.newsletterSource.update({
       where: { id },
@@ -349,8 +382,8 @@ router.delete('/sources/:id', async (req: AuthenticatedRequest, res: Response) =
     const { id } = req.params;
 
     // Check if source exists
-    const source = await prisma.newsletterSource.findUnique({
-      where: { id },
+    const source = await prisma.newsletterSource.findFirst({
+      where: { id, ownerId: null },
       include: {
         _count: {
           select: { editions: true },
@@ -389,6 +422,8 @@ router.delete('/sources/:id', async (req: AuthenticatedRequest, res: Response) =
 /**
  * GET /admin/insights
  * List insights with filters
+ * Query: attribution=unverified (quotes not found in their edition, or never checked)
+ *        or verified|corrected|downgraded
  */
 router.get('/insights', async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -396,13 +431,15 @@ router.get('/insights', async (req: AuthenticatedRequest, res: Response) => {
       sourceId,
       hidden,
       audited,
+      attribution,
+      archived = 'false',
       page = '1',
       limit = '100',
     } = req.query;
 
     const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
 
-    const where: any = {};
+    const where: any = { ...PUBLIC_BYTES };
 
     // Filter by visibility
     if (hidden === 'true') {
@@ -418,8 +455,25 @@ router.get('/insights', async (req: AuthenticatedRequest, res: Response) => {
       where.isAudited = false;
     }
 
+    // Filter by quote attribution check
+    if (attribution === 'unverified') {
+      where.OR = [
+        { attributionStatus: 'unverified' },
+        { type: 'quote', attributionStatus: null },
+      ];
+    } else if (['verified', 'corrected', 'downgraded'].includes(attribution as string)) {
+      where.attributionStatus = attribution;
+    }
+
+    // Bytes replaced by a re-extraction are hidden unless asked for
+    if (archived === 'true') {
+      where.archivedAt = { not: null };
+    } else if (archived !== 'all') {
+      where.archivedAt = null;
+    }
+
     if (sourceId) {
-      where.edition = { sourceId: sourceId as string };
+      where.edition = { ...PUBLIC_BYTES.edition, sourceId: sourceId as string };
     }
 
     const [insights, total, unauditedCount] = await Promise.all([
@@ -442,7 +496,7 @@ router.get('/insights', async (req: AuthenticatedRequest, res: Response) => {
         },
       }),
       prisma.contentByte.count({ where }),
-      prisma.contentByte.count({ where: { isAudited: false } }),
+      prisma.contentByte.count({ where: { isAudited: false, ...PUBLIC_BYTES } }),
     ]);
 
     res.json({
@@ -455,6 +509,11 @@ router.get('/insights', async (req: AuthenticatedRequest, res: Response) => {
         qualityScore: i.qualityScore,
         isAudited: i.isAudited,
         isHidden: i.isHidden || false,
+        moderationStatus: i.moderationStatus,
+        attributionStatus: i.attributionStatus,
+        attributionEvidence: i.attributionEvidence,
+        extractionVersion: i.extractionVersion,
+        archivedAt: i.archivedAt,
         engagement: {
           upvotes: i.upvotes,
           downvotes: i.downvotes,
@@ -487,11 +546,15 @@ router.post('/insights/:id/visibility', async (req: AuthenticatedRequest, res: R
     const { id } = req.params;
     const { hidden } = req.body;
 
-    await prisma.contentByte.update({
-      where: { id },
+    const result = await prisma.contentByte.updateMany({
+      where: { id, ...PUBLIC_BYTES },
       data: { isHidden: hidden === true },
     });
 
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Insight not found' });
+    }
+
     res.json({ success: true, hidden: hidden === true });
   } catch (error) {
     console.error('[Admin] Update visibility error:', error);
@@ -506,7 +569,7 @@ router.post('/insights/:id/visibility', async (req: AuthenticatedRequest, res: R
 router.post('/insights/trigger-audit', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const unauditedCount = await prisma.contentByte.count({
-      where: { isAudited: false },
+      where: { isAudited: false, ...PUBLIC_BYTES },
     });
 
     res.json({
@@ -540,6 +603,11 @@ router.post('/insights/:id/moderate', async (req: AuthenticatedRequest, res: Res
       flag: 'flagged',
     };
 
+    const existing = await prisma.contentByte.findFirst({ where: { id, ...PUBLIC_BYTES }, select: { id: true } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Insight not found' });
+    }
+
     const insight = await prisma.contentByte.update({
       where: { id },
       data: {
@@ -587,7 +655,7 @@ router.post('/insights/bulk-moderate', async (req: AuthenticatedRequest, res: Re
     };
 
     const result = await prisma.contentByte.updateMany({
-      where: { id: { in: ids } },
+      where: { id: { in: ids }, ...PUBLIC_BYTES },
       data: {
         moderationStatus: statusMap[action],
         moderatedBy: adminId,
@@ -606,13 +674,305 @@ router.post('/insights/bulk-moderate', async (req: AuthenticatedRequest, res: Re
   }
 });
 
+// =============================================================================
+// NEAR-DUPLICATES
+// =============================================================================
+
+/**
+ * GET /admin/duplicates
+ * Clusters of near-duplicate insights, grouped by canonical insight
+ * Query: status=flagged|merged|all (default flagged), limit (default 50)
+ */
+router.get('/duplicates', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { status = 'flagged', limit = '50' } = req.query;
+
+    if (!['flagged', 'merged', 'all'].includes(status as string)) {
+      return res.status(400).json({ error: 'Invalid status. Use: flagged, merged, or all' });
+    }
+
+    const clusters = await getDuplicateClusters({
+      status: status as 'flagged' | 'merged' | 'all',
+      limit: Math.min(parseInt(limit as string) || 50, 200),
+    });
+
+    const toInsight = (b: any) => ({
+      id: b.id,
+      content: b.content,
+      author: b.author,
+      qualityScore: b.qualityScore,
+      engagement: { upvotes: b.upvotes, saves: b.saveCount },
+      source: b.edition.source,
+      editionSubject: b.edition.subject,
+      createdAt: b.createdAt,
+    });
+
+    res.json({
+      clusters: clusters.map((c: any) => ({
+        canonical: toInsight(c),
+        duplicates: c.duplicates.map((d: any) => ({
+          ...toInsight(d),
+          status: d.duplicateStatus,
+          similarity: d.duplicateSimilarity,
+        })),
+      })),
+    });
+  } catch (error) {
+    console.error('[Admin] Duplicate clusters error:', error);
+    res.status(500).json({ error: 'Failed to fetch duplicate clusters' });
+  }
+});
+
+/**
+ * POST /admin/duplicates/:id/resolve
+ * Merge a flagged insight into its canonical insight, or mark it distinct
+ */
+router.post('/duplicates/:id/resolve', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { action } = req.body;
+
+    if (!['merge', 'dismiss'].includes(action)) {
+      return res.status(400).json({ error: 'Invalid action. Use: merge or dismiss' });
+    }
+
+    const resolved = action === 'merge' ? await mergeDuplicate(id) : await dismissDuplicate(id);
+
+    if (!resolved) {
+      return res.status(404).json({ error: 'No flagged duplicate with that ID' });
+    }
+
+    res.json({ success: true, action });
+  } catch (error) {
+    console.error('[Admin] Resolve duplicate error:', error);
+    res.status(500).json({ error: 'Failed to resolve duplicate' });
+  }
+});
+
+// =============================================================================
+// EDITION REPROCESSING
+// =============================================================================
+
+const MAX_PREVIEW_EDITIONS = 10; // Dry runs call the model synchronously
+const MAX_QUEUED_EDITIONS = 1000;
+
+/**
+ * POST /admin/editions/reprocess
+ * Re-extract editions by source, publish date range or extraction version.
+ * Body: { sourceId?, from?, to?, beforeVersion?, limit?, dryRun? }
+ * dryRun extracts up to 10 editions now and reports which insights would be
+ * kept, archived or added; otherwise matching editions are queued.
+ */
+router.post('/editions/reprocess', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { sourceId, from, to, beforeVersion, limit, dryRun = false } = req.body;
+
+    const filter: ReprocessFilter = {
+      sourceId: sourceId || undefined,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      beforeVersion: beforeVersion !== undefined ? parseInt(beforeVersion) : undefined,
+    };
+
+    if ((filter.from && isNaN(filter.from.getTime())) || (filter.to && isNaN(filter.to.getTime()))) {
+      return res.status(400).json({ error: 'Invalid date. Use ISO dates for from and to' });
+    }
+    if (filter.beforeVersion !== undefined && (isNaN(filter.beforeVersion) || filter.beforeVersion < 1)) {
+      return res.status(400).json({ error: 'beforeVersion must be a positive integer' });
+    }
+
+    const maxEditions = dryRun ? MAX_PREVIEW_EDITIONS : MAX_QUEUED_EDITIONS;
+    filter.limit = Math.min(parseInt(limit) || (dryRun ? 5 : 100), maxEditions);
+
+    if (dryRun) {
+      const editions = await previewReprocess(filter);
+
+      return res.json({
+        dryRun: true,
+        extractionVersion: EXTRACTION_VERSION,
+        editions,
+        totals: {
+          editions: editions.length,
+          kept: editions.reduce((sum, e) => sum + e.kept.length, 0),
+          archived: editions.reduce((sum, e) => sum + e.archived.length, 0),
+          added: editions.reduce((sum, e) => sum + e.added.length, 0),
+          failed: editions.filter((e) => e.error).length,
+        },
+      });
+    }
+
+    const queued = await queueReprocess(filter);
+    console.log(`[Admin] Queued ${queued} editions for re-extraction (v${EXTRACTION_VERSION})`);
+
+    res.json({
+      dryRun: false,
+      extractionVersion: EXTRACTION_VERSION,
+      queued,
+      message: 'Editions queued. They are re-extracted on the next processing runs.',
+    });
+  } catch (error) {
+    console.error('[Admin] Reprocess editions error:', error);
+    res.status(500).json({ error: 'Failed to reprocess editions' });
+  }
+});
+
+// =============================================================================
+// DEAD LETTERS (failed editions)
+// =============================================================================
+
+/**
+ * GET /admin/dead-letters
+ * Failed editions grouped by error signature, with a few samples per group
+ * Query: cause (parse_error, rate_limit, content_too_short, ...), sourceId
+ */
+router.get('/dead-letters', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { cause, sourceId } = req.query;
+
+    if (cause && !FAILURE_CAUSES.includes(cause as FailureCause)) {
+      return res.status(400).json({ error: `Invalid cause. Use one of: ${FAILURE_CAUSES.join(', ')}` });
+    }
+
+    const groups = await getDeadLetterGroups({
+      cause: cause as FailureCause | undefined,
+      sourceId: sourceId as string | undefined,
+    });
+
+    res.json({
+      groups,
+      total: groups.reduce((sum, g) => sum + g.count, 0),
+    });
+  } catch (error) {
+    console.error('[Admin] Dead letters error:', error);
+    res.status(500).json({ error: 'Failed to fetch dead letters' });
+  }
+});
+
+/**
+ * GET /admin/dead-letters/:id
+ * A failed edition's text, error and the raw model answer that broke
+ */
+router.get('/dead-letters/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const edition = await getDeadLetter(req.params.id);
+
+    if (!edition) {
+      return res.status(404).json({ error: 'No failed edition with that ID' });
+    }
+
+    res.json({ edition });
+  } catch (error) {
+    console.error('[Admin] Dead letter error:', error);
+    res.status(500).json({ error: 'Failed to fetch dead letter' });
+  }
+});
+
+/**
+ * POST /admin/dead-letters/:id/retry
+ * Queue a failed edition again. Body (both optional):
+ * - models: provider:model chain to use instead of the configured one
+ * - textContent: corrected edition text, extracted as is instead of the cleaned text
+ */
+router.post('/dead-letters/:id/retry', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { models, textContent } = req.body;
+
+    if (models !== undefined && models !== null) {
+      const chain = typeof models === 'string' ? parseModelChain(models) : [];
+      const providers = getProviderNames();
+      const unknown = chain.filter((m) => !providers.includes(m.provider));
+
+      if (chain.length === 0 || unknown.length > 0) {
+        return res.status(400).json({
+          error: `Invalid models. Use provider:model[,provider:model]; providers: ${providers.join(', ')}`,
+        });
+      }
+    }
+
+    if (textContent !== undefined && (typeof textContent !== 'string' || !textContent.trim())) {
+      return res.status(400).json({ error: 'textContent must be non-empty text' });
+    }
+
+    const retried = await retryDeadLetter(req.params.id, { models, textContent });
+
+    if (!retried) {
+      return res.status(404).json({ error: 'No failed edition with that ID' });
+    }
+
+    console.log(`[Admin] Retrying edition ${req.params.id}${models ? ` on ${models}` : ''}${textContent !== undefined ? ' with edited text' : ''}`);
+    res.json({ success: true, status: 'pending' });
+  } catch (error) {
+    console.error('[Admin] Retry dead letter error:', error);
+    res.status(500).json({ error: 'Failed to retry edition' });
+  }
+});
+
+/**
+ * POST /admin/dead-letters/:id/discard
+ * Give up on a failed edition; it's kept but leaves the dead-letter list
+ */
+router.post('/dead-letters/:id/discard', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const discarded = await discardDeadLetter(req.params.id);
+
+    if (!discarded) {
+      return res.status(404).json({ error: 'No failed edition with that ID' });
+    }
+
+    res.json({ success: true, status: 'discarded' });
+  } catch (error) {
+    console.error('[Admin] Discard dead letter error:', error);
+    res.status(500).json({ error: 'Failed to discard edition' });
+  }
+});
+
+// =============================================================================
+// AI USAGE
+// =============================================================================
+
+/**
+ * GET /admin/ai-usage
+ * Model calls, tokens and estimated cost per day or week, by task and by
+ * source, plus today's spend against the daily budget.
+ * Query: period=day|week (default day), days (default 30, max 365)
+ */
+router.get('/ai-usage', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { period = 'day', days = '30' } = req.query;
+
+    if (period !== 'day' && period !== 'week') {
+      return res.status(400).json({ error: 'Invalid period. Use: day or week' });
+    }
+
+    const lookbackDays = Math.min(Math.max(parseInt(days as string) || 30, 1), 365);
+    const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000);
+
+    const [rollups, budget] = await Promise.all([
+      getUsageRollups(period, since),
+      getBudgetStatus(),
+    ]);
+
+    res.json({
+      period,
+      since,
+      budget,
+      byTask: rollups.byTask,
+      bySource: rollups.bySource,
+    });
+  } catch (error) {
+    console.error('[Admin] AI usage error:', error);
+    res.status(500).json({ error: 'Failed to fetch AI usage' });
+  }
+});
+
 // =============================================================================
 // FORWARDED EMAILS REVIEW
 // =============================================================================
 
 /**
  * GET /admin/forwarded
- * List forwarded emails pending review
+ * List forwarded emails pending review, with the classifier's decision
+ * Query: status=pending|approved|rejected|filtered|all (filtered = classifier rejected it)
  */
 router.get('/forwarded', async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -627,6 +987,11 @@ router.get('/forwarded', async (req: AuthenticatedRequest, res: Response) => {
         skip,
         take: parseInt(limit as string),
         orderBy: { receivedAt: 'desc' },
+        include: {
+          classification: {
+            select: { id: true, accepted: true, probability: true, category: true, reason: true, label: true },
+          },
+        },
       }),
       prisma.forwardedEmail.count({ where }),
     ]);
@@ -649,16 +1014,22 @@ router.get('/forwarded', async (req: AuthenticatedRequest, res: Response) => {
 /**
  * POST /admin/forwarded/:id/review
  * Review a forwarded email
+ * Body: { action, notes?, createSource?, classification?: 'correct' | 'wrong' }
+ * classification is feedback on the classifier's accept/reject decision;
+ * it's separate from approving, since a real newsletter can still be declined.
  */
 router.post('/forwarded/:id/review', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { action, notes, createSource } = req.body;
+    const { action, notes, createSource, classification } = req.body;
     const adminId = req.userId!;
 
     if (!['approve', 'reject'].includes(action)) {
       return res.status(400).json({ error: 'Invalid action' });
     }
+    if (classification !== undefined && !['correct', 'wrong'].includes(classification)) {
+      return res.status(400).json({ error: 'Invalid classification. Use: correct or wrong' });
+    }
 
     let createdSourceId: string | null = null;
 
@@ -692,6 +1063,11 @@ router.post('/forwarded/:id/review', async (req: AuthenticatedRequest, res: Resp
       },
     });
 
+    const email = await prisma.forwardedEmail.findUnique({ where: { id }, select: { classificationId: true } });
+    if (classification && email?.classificationId) {
+      await labelClassification(email.classificationId, classification === 'correct', adminId);
+    }
+
     res.json({ success: true, createdSourceId });
   } catch (error) {
     console.error('[Admin] Review forwarded error:', error);
@@ -699,6 +1075,262 @@ router.post('/forwarded/:id/review', async (req: AuthenticatedRequest, res: Resp
   }
 });
 
+// =============================================================================
+// EMAIL CLASSIFIER
+// =============================================================================
+
+/**
+ * GET /admin/email-classifier/decisions
+ * Recent accept/reject decisions on generic-inbox mail
+ * Query: accepted=true|false, labeled=true|false, limit (default 50, max 200)
+ */
+router.get('/email-classifier/decisions', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { accepted, labeled, limit = '50' } = req.query;
+
+    const decisions = await listClassifications({
+      accepted: accepted === undefined ? undefined : accepted === 'true',
+      labeled: labeled === undefined ? undefined : labeled === 'true',
+      limit: Math.min(parseInt(limit as string) || 50, 200),
+    });
+
+    res.json({ decisions });
+  } catch (error) {
+    console.error('[Admin] Classifier decisions error:', error);
+    res.status(500).json({ error: 'Failed to fetch classifier decisions' });
+  }
+});
+
+/**
+ * POST /admin/email-classifier/decisions/:id/label
+ * Mark a decision right or wrong. Body: { correct: boolean }
+ */
+router.post('/email-classifier/decisions/:id/label', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { correct } = req.body;
+
+    if (typeof correct !== 'boolean') {
+      return res.status(400).json({ error: 'correct must be true or false' });
+    }
+
+    const labeled = await labelClassification(req.params.id, correct, req.userId!);
+
+    if (!labeled) {
+      return res.status(404).json({ error: 'Decision not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Admin] Label decision error:', error);
+    res.status(500).json({ error: 'Failed to label decision' });
+  }
+});
+
+/**
+ * POST /admin/email-classifier/train
+ * Fit the classifier to all labeled decisions and start using it
+ */
+router.post('/email-classifier/train', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const trained = await trainClassifier();
+
+    if (!trained) {
+      return res.status(400).json({ error: 'Not enough labeled decisions to train on yet' });
+    }
+
+    res.json({ success: true, ...trained });
+  } catch (error) {
+    console.error('[Admin] Train classifier error:', error);
+    res.status(500).json({ error: 'Failed to train classifier' });
+  }
+});
+
+/**
+ * GET /admin/email-classifier/metrics
+ * Precision and recall on the labeled set: as decided, for the active model
+ * and for the rules alone
+ */
+router.get('/email-classifier/metrics', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const metrics = await getClassifierMetrics();
+    res.json(metrics);
+  } catch (error) {
+    console.error('[Admin] Classifier metrics error:', error);
+    res.status(500).json({ error: 'Failed to fetch classifier metrics' });
+  }
+});
+
+// =============================================================================
+// INGEST RULES
+// =============================================================================
+
+/**
+ * GET /admin/ingest-rules
+ * Sender and domain rules checked before the email classifier
+ * Query: action=accept|reject|review, matchType=sender|domain
+ */
+router.get('/ingest-rules', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { action, matchType } = req.query;
+
+    const rules = await prisma.ingestRule.findMany({
+      where: {
+        ...(action && { action: action as string }),
+        ...(matchType && { matchType: matchType as string }),
+      },
+      orderBy: [{ matchType: 'asc' }, { pattern: 'asc' }],
+    });
+
+    res.json({ rules });
+  } catch (error) {
+    console.error('[Admin] Ingest rules error:', error);
+    res.status(500).json({ error: 'Failed to fetch ingest rules' });
+  }
+});
+
+/**
+ * POST /admin/ingest-rules
+ * Create a rule. Body: { matchType, pattern, action, note? }
+ * Domain rules also match subdomains.
+ */
+router.post('/ingest-rules', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { matchType, pattern, action, note } = req.body;
+
+    if (!INGEST_RULE_MATCH_TYPES.includes(matchType)) {
+      return res.status(400).json({ error: `matchType must be one of: ${INGEST_RULE_MATCH_TYPES.join(', ')}` });
+    }
+    if (!INGEST_RULE_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of: ${INGEST_RULE_ACTIONS.join(', ')}` });
+    }
+
+    const normalized = typeof pattern === 'string' ? normalizePattern(matchType, pattern) : null;
+    if (!normalized) {
+      return res.status(400).json({
+        error: matchType === 'sender' ? 'pattern must be an email address' : 'pattern must be a domain',
+      });
+    }
+
+    const existing = await prisma.ingestRule.findUnique({
+      where: { matchType_pattern: { matchType, pattern: normalized } },
+    });
+    if (existing) {
+      return res.status(409).json({ error: 'A rule for this pattern already exists', rule: existing });
+    }
+
+    const rule = await prisma.ingestRule.create({
+      data: {
+        matchType,
+        pattern: normalized,
+        action,
+        note: note || null,
+        createdBy: req.userId,
+      },
+    });
+    invalidateIngestRules();
+
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error('[Admin] Create ingest rule error:', error);
+    res.status(500).json({ error: 'Failed to create ingest rule' });
+  }
+});
+
+/**
+ * PATCH /admin/ingest-rules/:id
+ * Change a rule. Body: { action?, note?, isActive? }
+ */
+router.patch('/ingest-rules/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { action, note, isActive } = req.body;
+
+    if (action !== undefined && !INGEST_RULE_ACTIONS.includes(action)) {
+      return res.status(400).json({ error: `action must be one of: ${INGEST_RULE_ACTIONS.join(', ')}` });
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return res.status(400).json({ error: 'isActive must be true or false' });
+    }
+
+    const existing = await prisma.ingestRule.findUnique({ where: { id: req.params.id } });
+    if (!existing) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    const rule = await prisma.ingestRule.update({
+      where: { id: req.params.id },
+      data: {
+        ...(action !== undefined && { action }),
+        ...(note !== undefined && { note: note || null }),
+        ...(isActive !== undefined && { isActive }),
+      },
+    });
+    invalidateIngestRules();
+
+    res.json(rule);
+  } catch (error) {
+    console.error('[Admin] Update ingest rule error:', error);
+    res.status(500).json({ error: 'Failed to update ingest rule' });
+  }
+});
+
+/**
+ * DELETE /admin/ingest-rules/:id
+ * Delete a rule; the decisions it made keep their record without it
+ */
+router.delete('/ingest-rules/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await prisma.ingestRule.deleteMany({ where: { id: req.params.id } });
+
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+    invalidateIngestRules();
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('[Admin] Delete ingest rule error:', error);
+    res.status(500).json({ error: 'Failed to delete ingest rule' });
+  }
+});
+
+/**
+ * GET /admin/ingest-rules/:id/matches
+ * Generic-inbox emails the rule caught, newest first
+ * Query: limit (default 50, max 200)
+ */
+router.get('/ingest-rules/:id/matches', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { limit = '50' } = req.query;
+
+    const rule = await prisma.ingestRule.findUnique({ where: { id: req.params.id } });
+    if (!rule) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+
+    // Private inbox matches only count towards hitCount
+    const matches = await prisma.emailClassification.findMany({
+      where: { ingestRuleId: rule.id, userId: null },
+      select: {
+        id: true,
+        senderEmail: true,
+        subject: true,
+        accepted: true,
+        probability: true,
+        reason: true,
+        createdAt: true,
+        forwardedEmail: { select: { id: true, status: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(parseInt(limit as string) || 50, 200),
+    });
+
+    res.json({ rule, matches });
+  } catch (error) {
+    console.error('[Admin] Ingest rule matches error:', error);
+    res.status(500).json({ error: 'Failed to fetch ingest rule matches' });
+  }
+});
+
 // =============================================================================
 // SCRAPING MANAGEMENT
 // =============================================================================
@@ -4,6 +4,10 @@ import prisma from '../services/db';
 import { generateToken, authenticateToken } from '../middleware/auth';
 import { SignupInput, LoginInput, AuthenticatedRequest } from '../types';
 import { rateLimits } from '../middleware/security';
+import { backfillReviewSchedules } from '../services/spacedRepetition';
+
+// Reviews can take at most half of the new tab stream
+const MAX_REVIEW_RATIO = 0.5;
 
 /**
  * Auto-subscribe a new user to all curated newsletters
@@ -131,7 +135,10 @@ router.post('/google', async (req: Request, res: Response) => {
         birthDate: user.birthDate,
         lifeExpectancy: user.lifeExpectancy,
         inboxEmail: user.inboxEmail,
+        privateInboxEnabled: user.privateInboxEnabled,
         enableRecommendations: user.enableRecommendations,
+        enableSpacedRepetition: user.enableSpacedRepetition,
+        reviewRatio: user.reviewRatio,
         onboardingCompleted: user.onboardingCompleted,
       },
       isNewUser: !user.onboardingCompleted,
@@ -208,7 +215,10 @@ router.post('/signup', async (req: Request, res: Response) => {
         birthDate: user.birthDate,
         lifeExpectancy: user.lifeExpectancy,
         inboxEmail: user.inboxEmail,
+        privateInboxEnabled: user.privateInboxEnabled,
         enableRecommendations: user.enableRecommendations,
+        enableSpacedRepetition: user.enableSpacedRepetition,
+        reviewRatio: user.reviewRatio,
       },
     });
   } catch (error) {
@@ -266,7 +276,10 @@ router.post('/login', async (req: Request, res: Response) => {
         birthDate: user.birthDate,
         lifeExpectancy: user.lifeExpectancy,
         inboxEmail: user.inboxEmail,
+        privateInboxEnabled: user.privateInboxEnabled,
         enableRecommendations: user.enableRecommendations,
+        enableSpacedRepetition: user.enableSpacedRepetition,
+        reviewRatio: user.reviewRatio,
       },
     });
   } catch (error) {
@@ -366,7 +379,10 @@ router.get('/me', authenticateToken, async (req: AuthenticatedRequest, res: Resp
         birthDate: true,
         lifeExpectancy: true,
         inboxEmail: true,
+        privateInboxEnabled: true,
         enableRecommendations: true,
+        enableSpacedRepetition: true,
+        reviewRatio: true,
         onboardingCompleted: true,
         createdAt: true,
       },
@@ -390,13 +406,29 @@ router.get('/me', authenticateToken, async (req: AuthenticatedRequest, res: Resp
  */
 router.put('/profile', authenticateToken, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const { name, birthDate, lifeExpectancy, enableRecommendations } = req.body;
+    const {
+      name,
+      birthDate,
+      lifeExpectancy,
+      enableRecommendations,
+      enableSpacedRepetition,
+      reviewRatio,
+    } = req.body;
 
     const updateData: Record<string, unknown> = {};
     if (name !== undefined) updateData.name = name;
     if (birthDate !== undefined) updateData.birthDate = new Date(birthDate);
     if (lifeExpectancy !== undefined) updateData.lifeExpectancy = parseInt(lifeExpectancy);
     if (enableRecommendations !== undefined) updateData.enableRecommendations = enableRecommendations;
+    if (enableSpacedRepetition !== undefined) updateData.enableSpacedRepetition = !!enableSpacedRepetition;
+    if (reviewRatio !== undefined) {
+      const ratio = Number(reviewRatio);
+      if (isNaN(ratio) || ratio < 0 || ratio > MAX_REVIEW_RATIO) {
+        res.status(400).json({ error: `reviewRatio must be between 0 and ${MAX_REVIEW_RATIO}` });
+        return;
+      }
+      updateData.reviewRatio = ratio;
+    }
 
     // Mark onboarding complete if name and birthDate are set
     if (name && birthDate) {
@@ -413,11 +445,19 @@ router.put('/profile', authenticateToken, async (req: AuthenticatedRequest, res:
         birthDate: true,
         lifeExpectancy: true,
         inboxEmail: true,
+        privateInboxEnabled: true,
         enableRecommendations: true,
+        enableSpacedRepetition: true,
+        reviewRatio: true,
         onboardingCompleted: true,
       },
     });
 
+    // Bytes saved or upvoted before opting in join the review schedule too
+    if (enableSpacedRepetition) {
+      await backfillReviewSchedules(user.id);
+    }
+
     res.json({ user });
   } catch (error) {
     console.error('Update profile error:', error);
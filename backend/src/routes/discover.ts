@@ -1,6 +1,9 @@
 import { Router, Response } from 'express';
 import { prisma } from '../services/db';
 import { authenticateToken } from '../middleware/auth';
+import { feedRanker, getRankingProfile } from '../services/feedRanker';
+import { buildMuteFilter, getActiveMuteRules, getMuteFilter } from '../services/muteRules';
+import { LIVE_BYTES, PUBLIC_BYTES } from '../utils/liveBytes';
 import { AuthenticatedRequest, NewsletterSourceResponse, ContentByteResponse } from '../types';
 
 const router = Router();
@@ -49,6 +52,7 @@ router.get('/sources', async (req: AuthenticatedRequest, res: Response) => {
       where: {
         ...(category && { category }),
         ...(cursor && { id: { lt: cursor } }),
+        ownerId: null, // Private inbox sources belong to one user
         // Only show sources with some content
         editions: { some: { isProcessed: true } },
       },
@@ -88,14 +92,20 @@ router.get('/sources/:id', async (req: AuthenticatedRequest, res: Response) => {
     const userId = req.userId!;
     const sourceId = req.params.id;
 
-    const source = await prisma.newsletterSource.findUnique({
-      where: { id: sourceId },
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { enableRecommendations: true },
+    });
+
+    const source = await prisma.newsletterSource.findFirst({
+      where: { id: sourceId, ownerId: null },
       include: {
         editions: {
           orderBy: { publishedAt: 'desc' },
           take: 5,
           include: {
             bytes: {
+              where: { ...LIVE_BYTES, ...(user?.enableRecommendations === false && { isSponsored: false }) },
               orderBy: { engagementScore: 'desc' },
               take: 3,
             },
@@ -151,9 +161,9 @@ router.post('/sources/:id/subscribe', async (req: AuthenticatedRequest, res: Res
     const sourceId = req.params.id;
     const { discoveryMethod } = req.body;
 
-    // Check source exists
-    const source = await prisma.newsletterSource.findUnique({
-      where: { id: sourceId },
+    // Check source exists (private inbox sources can't be followed)
+    const source = await prisma.newsletterSource.findFirst({
+      where: { id: sourceId, ownerId: null },
     });
 
     if (!source) {
@@ -239,19 +249,25 @@ router.get('/trending', async (req: AuthenticatedRequest, res: Response) => {
     };
     const cutoff = new Date(Date.now() - (timeMap[timeframe] || timeMap['24h']));
 
+    const profile = getRankingProfile('trending');
+
     // Get trending bytes
-    const bytes = await prisma.contentByte.findMany({
+    const candidates = await prisma.contentByte.findMany({
       where: {
         createdAt: { gte: cutoff },
         ...(category && { category }),
+        ...(await getMuteFilter(userId)),
+        ...LIVE_BYTES,
+        ...PUBLIC_BYTES,
       },
       include: {
         edition: { include: { source: true } },
         engagements: { where: { userId }, take: 1 },
       },
-      orderBy: { trendingScore: 'desc' },
-      take: limit,
+      orderBy: profile.candidateOrderBy,
+      take: limit * profile.candidateMultiplier,
     });
+    const bytes = feedRanker.rank(candidates, profile, limit).map((r) => r.byte);
 
     res.json({
       bytes: bytes.map((byte) => formatByteResponse(byte, userId)),
@@ -276,20 +292,26 @@ router.get('/popular', async (req: AuthenticatedRequest, res: Response) => {
     const category = req.query.category as string | undefined;
     const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
 
+    const profile = getRankingProfile('popular');
+
     // Get popular bytes
-    const bytes = await prisma.contentByte.findMany({
+    const candidates = await prisma.contentByte.findMany({
       where: {
         ...(category && { category }),
         // Only show content with minimum engagement
         engagementScore: { gte: 5 },
+        ...(await getMuteFilter(userId)),
+        ...LIVE_BYTES,
+        ...PUBLIC_BYTES,
       },
       include: {
         edition: { include: { source: true } },
         engagements: { where: { userId }, take: 1 },
       },
-      orderBy: { engagementScore: 'desc' },
-      take: limit,
+      orderBy: profile.candidateOrderBy,
+      take: limit * profile.candidateMultiplier,
     });
+    const bytes = feedRanker.rank(candidates, profile, limit).map((r) => r.byte);
 
     res.json({
       bytes: bytes.map((byte) => formatByteResponse(byte, userId)),
@@ -309,6 +331,7 @@ router.get('/categories', async (req: AuthenticatedRequest, res: Response) => {
     // Group by category
     const categories = await prisma.contentByte.groupBy({
       by: ['category'],
+      where: PUBLIC_BYTES,
       _count: { id: true },
       _avg: { engagementScore: true },
       orderBy: { _count: { id: 'desc' } },
@@ -355,50 +378,58 @@ router.get('/onboarding', async (req: AuthenticatedRequest, res: Response) => {
     }
 
     const isNewUser = user.subscriptions.length === 0 && user.contentHistory.length === 0;
+    const profile = getRankingProfile('onboarding');
+    const muteFilter = buildMuteFilter(await getActiveMuteRules(userId), { hideSponsored: !user.enableRecommendations });
 
     // For new users, get the best content from verified sources
-    const bytes = await prisma.contentByte.findMany({
+    const candidates = await prisma.contentByte.findMany({
       where: {
         // Prioritize verified and high-engagement content
         edition: {
           source: {
             isVerified: true,
+            ownerId: null,
           },
         },
         // Minimum quality threshold
         engagementScore: { gte: 10 },
         qualityScore: { gte: 0.7 },
+        ...muteFilter,
+        ...LIVE_BYTES,
       },
       include: {
         edition: { include: { source: true } },
       },
-      orderBy: [
-        { engagementScore: 'desc' },
-        { qualityScore: 'desc' },
-      ],
-      take: limit,
+      orderBy: profile.candidateOrderBy,
+      take: limit * profile.candidateMultiplier,
     });
 
     // If not enough verified content, supplement with popular
-    if (bytes.length < limit) {
+    if (candidates.length < limit) {
       const additionalBytes = await prisma.contentByte.findMany({
         where: {
-          id: { notIn: bytes.map((b) => b.id) },
+          id: { notIn: candidates.map((b) => b.id) },
           engagementScore: { gte: 5 },
+          ...muteFilter,
+          ...LIVE_BYTES,
+          ...PUBLIC_BYTES,
         },
         include: {
           edition: { include: { source: true } },
         },
-        orderBy: { engagementScore: 'desc' },
-        take: limit - bytes.length,
+        orderBy: profile.candidateOrderBy,
+        take: limit - candidates.length,
       });
-      bytes.push(...additionalBytes);
+      candidates.push(...additionalBytes);
     }
 
+    const bytes = feedRanker.rank(candidates, profile, limit).map((r) => r.byte);
+
     // Get suggested sources to follow
     const suggestedSources = await prisma.newsletterSource.findMany({
       where: {
         isVerified: true,
+        ownerId: null,
         subscriberCount: { gte: 10 },
       },
       orderBy: { avgEngagementScore: 'desc' },
@@ -449,16 +480,13 @@ router.get('/sponsored', async (req: AuthenticatedRequest, res: Response) => {
       return res.json({ bytes: [], message: 'Recommendations not enabled' });
     }
 
-    // Get sponsored content user hasn't seen
-    const seenByteIds = await prisma.contentHistory.findMany({
-      where: { userId },
-      select: { byteId: true },
-    });
-
+    // Get sponsored content user hasn't been shown
     const bytes = await prisma.contentByte.findMany({
       where: {
         isSponsored: true,
-        id: { notIn: seenByteIds.map((s) => s.byteId) },
+        history: { none: { userId } },
+        ...LIVE_BYTES,
+        ...PUBLIC_BYTES,
       },
       include: {
         edition: { include: { source: true } },
@@ -1,17 +1,90 @@
 import { Router, Response } from 'express';
+import crypto from 'crypto';
 import { prisma } from '../services/db';
 import { authenticateToken } from '../middleware/auth';
+import {
+  feedRanker,
+  getRankingProfile,
+  createSeededRandom,
+  RankedCandidate,
+} from '../services/feedRanker';
+import { explainRecommendation, ExplainContext } from '../services/feedExplainer';
+import {
+  FeedCursor,
+  encodeFeedCursor,
+  decodeFeedCursor,
+  hasNextRankedPage,
+  keysetCursor,
+  keysetWhere,
+} from '../utils/feedCursor';
+import { unseenByUser } from '../utils/seenFilter';
+import { passageContext } from '../utils/passageLocator';
+import { LIVE_BYTES, PUBLIC_BYTES } from '../utils/liveBytes';
+import {
+  learnPreference,
+  getAffinityWeights,
+  readSignalStrength,
+  PREFERENCE_SIGNALS,
+  QUICK_SKIP_MS,
+} from '../services/preferenceModel';
+import {
+  getMuteFilter,
+  getActiveMuteRules,
+  MUTE_RULE_TYPES,
+  MAX_MUTE_RULES,
+} from '../services/muteRules';
+import {
+  syncReviewSchedule,
+  recordReview,
+  countReviewSlots,
+  takeDueReviews,
+  interleaveReviews,
+} from '../services/spacedRepetition';
+import {
+  applyVote,
+  setSaved,
+  recordShare,
+  recordView,
+  MAX_IDEMPOTENCY_KEY_LENGTH,
+} from '../services/engagement';
 import {
   AuthenticatedRequest,
   ContentByteResponse,
+  ByteContextResponse,
   FeedResponse,
   FeedType,
   VoteInput,
   ViewInput,
+  SaveInput,
+  ReviewInput,
+  MuteRuleInput,
+  MuteRuleResponse,
 } from '../types';
 
 const router = Router();
 
+const FEED_TYPES: FeedType[] = ['personalized', 'popular', 'trending', 'subscribed', 'new'];
+
+// A page of ranked bytes plus the cursor for the page after it
+// Items keep their score breakdown so responses can explain them
+interface FeedPage {
+  items: RankedCandidate<any>[];
+  nextCursor: FeedCursor | null;
+}
+
+type CursorFor<T extends FeedType> = Extract<FeedCursor, { type: T }>;
+
+interface NextByteContext {
+  userSourceIds: string[];
+  reservedSince: Date;
+  enableSpacedRepetition: boolean;
+  reviewRatio: number;
+}
+
+const MAX_BATCH_COUNT = 10;
+// Bytes handed to a client stay out of /feed/next for this long unless read
+const RESERVATION_TTL_MS = 30 * 60 * 1000;
+
 // All routes require authentication
 router.use(authenticateToken);
 
@@ -25,78 +98,67 @@ router.use(authenticateToken);
  * Query params:
  *   - type: personalized | popular | trending | subscribed | new (default: personalized)
  *   - limit: number (default: 10, max: 50)
- *   - cursor: string (for pagination)
+ *   - cursor: string (opaque, from a previous response's nextCursor)
+ *   - explain: true to attach a `reason` to each byte
  */
 router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.userId!;
-    const feedType = (req.query.type as FeedType) || 'personalized';
+    const requestedType = req.query.type as FeedType;
+    const feedType: FeedType = FEED_TYPES.includes(requestedType) ? requestedType : 'personalized';
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
-    const cursor = req.query.cursor as string | undefined;
+    const rawCursor = req.query.cursor as string | undefined;
+
+    // Cursors are only valid for the feed type that issued them
+    let cursor: FeedCursor | null = null;
+    if (rawCursor) {
+      cursor = decodeFeedCursor(rawCursor, feedType);
+      if (!cursor) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+    }
 
-    // Get user for personalization with history and engagements
+    // Seen bytes and mutes are excluded inside each query
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      include: {
-        preferences: true,
-        contentHistory: {
-          where: { isRead: true }, // Only exclude bytes that were actually read
-          select: { byteId: true },
-        },
-        engagements: {
-          where: {
-            OR: [
-              { vote: { not: 0 } }, // User voted (liked or disliked)
-              { isSaved: true },     // User saved/bookmarked
-            ],
-          },
-          select: { byteId: true },
-        },
-      },
     });
 
     if (!user) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Exclude bytes that user has read OR interacted with (voted/saved)
-    const readByteIds = user.contentHistory.map((h) => h.byteId);
-    const interactedByteIds = user.engagements.map((e) => e.byteId);
-    const seenByteIds = [...new Set([...readByteIds, ...interactedByteIds])];
-
     // Build query based on feed type
-    let bytes;
+    let page: FeedPage;
     switch (feedType) {
       case 'popular':
-        bytes = await getPopularFeed(userId, seenByteIds, limit, cursor);
+        page = await getPopularFeed(userId, limit, cursor as CursorFor<'popular'>);
         break;
       case 'trending':
-        bytes = await getTrendingFeed(userId, seenByteIds, limit, cursor);
+        page = await getTrendingFeed(userId, limit, cursor as CursorFor<'trending'>);
         break;
       case 'subscribed':
-        bytes = await getSubscribedFeed(userId, seenByteIds, limit, cursor);
+        page = await getSubscribedFeed(userId, limit, cursor as CursorFor<'subscribed'>);
         break;
       case 'new':
-        bytes = await getNewFeed(userId, seenByteIds, limit, cursor);
+        page = await getNewFeed(userId, limit, cursor as CursorFor<'new'>);
         break;
       case 'personalized':
       default:
-        bytes = await getPersonalizedFeed(
+        page = await getPersonalizedFeed(
           userId,
-          seenByteIds,
-          user.preferences,
           user.enableRecommendations,
           limit,
-          cursor
+          cursor as CursorFor<'personalized'>
         );
         break;
     }
 
     // Format response
+    const explainContext = wantsExplanation(req) ? await loadExplainContext(userId) : null;
     const response: FeedResponse = {
-      bytes: bytes.map((byte) => formatByteResponse(byte, userId)),
-      nextCursor: bytes.length === limit ? bytes[bytes.length - 1].id : null,
-      hasMore: bytes.length === limit,
+      bytes: formatFeedItems(page.items, userId, explainContext),
+      nextCursor: encodeFeedCursor(page.nextCursor),
+      hasMore: page.nextCursor !== null,
     };
 
     res.json(response);
@@ -110,45 +172,20 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
  * GET /feed/next
  * Get single next byte for new tab experience
  * v3.0: Only shows bytes from user's subscribed curated sources
+ * Query params:
+ *   - explain: true to attach a `reason` to the byte
  */
 router.get('/next', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.userId!;
 
-    // Get user with history, subscriptions, and engagements
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      include: {
-        contentHistory: {
-          where: { isRead: true }, // Only exclude bytes that were actually read
-          select: { byteId: true },
-        },
-        subscriptions: {
-          where: { isActive: true },
-          select: { sourceId: true },
-        },
-        engagements: {
-          where: {
-            OR: [
-              { vote: { not: 0 } }, // User voted (liked or disliked)
-              { isSaved: true },     // User saved/bookmarked
-            ],
-          },
-          select: { byteId: true },
-        },
-      },
-    });
+    const context = await loadNextByteContext(userId);
 
-    if (!user) {
+    if (!context) {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    // Exclude bytes that user has read OR interacted with (voted/saved)
-    const readByteIds = user.contentHistory.map((h) => h.byteId);
-    const interactedByteIds = user.engagements.map((e) => e.byteId);
-    const seenByteIds = [...new Set([...readByteIds, ...interactedByteIds])];
-    const userSourceIds = user.subscriptions.map((s) => s.sourceId);
-    const hasUserSubscriptions = userSourceIds.length > 0;
+    const hasUserSubscriptions = context.userSourceIds.length > 0;
 
     // v3.0: Users must subscribe to sources to see content
     if (!hasUserSubscriptions) {
@@ -160,10 +197,10 @@ router.get('/next', async (req: AuthenticatedRequest, res: Response) => {
       });
     }
 
-    // Get one byte from subscribed sources (curated content only)
-    const bytes = await getCuratedFeed(userId, seenByteIds, userSourceIds, 1);
+    // Get one byte from subscribed sources (curated content only), or a due review
+    const items = await pickNewTabBytes(userId, context, 1);
 
-    if (bytes.length === 0) {
+    if (items.length === 0) {
       // No more unread content from subscribed sources
       return res.json({
         byte: null,
@@ -173,22 +210,13 @@ router.get('/next', async (req: AuthenticatedRequest, res: Response) => {
       });
     }
 
-    // Record that we're showing this byte (isRead stays false until user actually reads it)
-    await prisma.contentHistory.upsert({
-      where: {
-        userId_byteId: { userId, byteId: bytes[0].id },
-      },
-      create: { userId, byteId: bytes[0].id, isRead: false },
-      update: { shownAt: new Date() },
-    });
-
-    // Check if this byte is from user's own subscriptions
-    const byteSourceId = bytes[0].edition?.sourceId;
-    const isFromUserSubscription = byteSourceId ? userSourceIds.includes(byteSourceId) : false;
+    const explainContext = wantsExplanation(req)
+      ? await loadExplainContext(userId, context.userSourceIds)
+      : null;
 
     res.json({
-      byte: formatByteResponse(bytes[0], userId),
-      queueSize: await getQueueSize(userId, seenByteIds, userSourceIds),
+      byte: formatFeedItems(items, userId, explainContext)[0],
+      queueSize: await getQueueSize(userId, context.userSourceIds, context.reservedSince),
       hasUserSubscriptions,
     });
   } catch (error) {
@@ -197,6 +225,62 @@ router.get('/next', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+/**
+ * GET /feed/next/batch
+ * Reserve several distinct bytes for the new tab prefetch queue in one round trip
+ * Query params:
+ *   - count: number (default: 3, max: 10)
+ *   - explain: true to attach a `reason` to each byte
+ */
+router.get('/next/batch', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const count = Math.max(1, Math.min(parseInt(req.query.count as string) || 3, MAX_BATCH_COUNT));
+
+    const context = await loadNextByteContext(userId);
+
+    if (!context) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const hasUserSubscriptions = context.userSourceIds.length > 0;
+
+    if (!hasUserSubscriptions) {
+      return res.json({
+        bytes: [],
+        queueSize: 0,
+        hasUserSubscriptions: false,
+        message: 'Subscribe to newsletters in Sources to see content',
+      });
+    }
+
+    const items = await pickNewTabBytes(userId, context, count);
+
+    if (items.length === 0) {
+      return res.json({
+        bytes: [],
+        queueSize: 0,
+        hasUserSubscriptions,
+        message: 'All caught up! Check back later for new insights.',
+      });
+    }
+
+    const explainContext = wantsExplanation(req)
+      ? await loadExplainContext(userId, context.userSourceIds)
+      : null;
+
+    res.json({
+      bytes: formatFeedItems(items, userId, explainContext),
+      // Bytes in this batch were just reserved, so they're already excluded
+      queueSize: await getQueueSize(userId, context.userSourceIds, context.reservedSince),
+      hasUserSubscriptions,
+    });
+  } catch (error) {
+    console.error('Feed next batch error:', error);
+    res.status(500).json({ error: 'Failed to fetch next bytes' });
+  }
+});
+
 // =============================================================================
 // ENGAGEMENT ENDPOINTS
 // =============================================================================
@@ -205,6 +289,7 @@ router.get('/next', async (req: AuthenticatedRequest, res: Response) => {
  * POST /feed/bytes/:id/vote
  * Upvote or downvote a content byte
  * Body: { vote: 1 | -1 | 0 }
+ * Headers: Idempotency-Key (optional; retries with the same key apply once)
  */
 router.post('/bytes/:id/vote', async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -217,57 +302,33 @@ router.post('/bytes/:id/vote', async (req: AuthenticatedRequest, res: Response)
       return res.status(400).json({ error: 'Vote must be -1, 0, or 1' });
     }
 
-    // Check byte exists
-    const byte = await prisma.contentByte.findUnique({
-      where: { id: byteId },
-    });
-
-    if (!byte) {
-      return res.status(404).json({ error: 'Content byte not found' });
+    const idempotencyKey = readIdempotencyKey(req);
+    if (idempotencyKey === null) {
+      return res.status(400).json({ error: 'Invalid Idempotency-Key' });
     }
 
-    // Get existing engagement
-    const existingEngagement = await prisma.userEngagement.findUnique({
-      where: { userId_byteId: { userId, byteId } },
-    });
-
-    const previousVote = existingEngagement?.vote || 0;
+    const mutation = await applyVote(userId, byteId, vote, idempotencyKey);
 
-    // Update or create engagement
-    await prisma.userEngagement.upsert({
-      where: { userId_byteId: { userId, byteId } },
-      create: { userId, byteId, vote },
-      update: { vote },
-    });
+    if (!mutation) {
+      return res.status(404).json({ error: 'Content byte not found' });
+    }
 
-    // Update aggregate counts on ContentByte
-    const upvoteDelta =
-      (vote === 1 ? 1 : 0) - (previousVote === 1 ? 1 : 0);
-    const downvoteDelta =
-      (vote === -1 ? 1 : 0) - (previousVote === -1 ? 1 : 0);
+    const { result, replayed } = mutation;
 
-    await prisma.contentByte.update({
-      where: { id: byteId },
-      data: {
-        upvotes: { increment: upvoteDelta },
-        downvotes: { increment: downvoteDelta },
-      },
-    });
+    if (!replayed) {
+      // Learn from the change in vote (downvote → upvote counts twice)
+      await learnPreference(userId, byteId, (result.vote - result.previousVote) * PREFERENCE_SIGNALS.vote);
 
-    // Update user preferences based on vote
-    if (vote !== 0) {
-      await updateUserPreferences(userId, byte.category, vote);
+      // Upvoted bytes join the review schedule; dropping the upvote may leave it
+      await syncReviewSchedule(userId, byteId);
     }
 
-    // Recalculate engagement score
-    await recalculateEngagementScore(byteId);
-
     res.json({
       success: true,
-      vote,
+      vote: result.vote,
       engagement: {
-        upvotes: byte.upvotes + upvoteDelta,
-        downvotes: byte.downvotes + downvoteDelta,
+        upvotes: result.upvotes,
+        downvotes: result.downvotes,
       },
     });
   } catch (error) {
@@ -280,6 +341,7 @@ router.post('/bytes/:id/vote', async (req: AuthenticatedRequest, res: Response)
  * POST /feed/bytes/:id/view
  * Track that user viewed a byte (with optional dwell time)
  * Body: { dwellTimeMs: number, isRead?: boolean }
+ * Headers: Idempotency-Key (optional)
  * isRead = true means user actually read the byte (tab active 5+ seconds)
  */
 router.post('/bytes/:id/view', async (req: AuthenticatedRequest, res: Response) => {
@@ -288,38 +350,27 @@ router.post('/bytes/:id/view', async (req: AuthenticatedRequest, res: Response)
     const byteId = req.params.id;
     const { dwellTimeMs, isRead } = req.body as ViewInput;
 
-    // Update engagement with view
-    await prisma.userEngagement.upsert({
-      where: { userId_byteId: { userId, byteId } },
-      create: {
-        userId,
-        byteId,
-        viewCount: 1,
-        totalDwellTimeMs: dwellTimeMs || 0,
-      },
-      update: {
-        viewCount: { increment: 1 },
-        totalDwellTimeMs: { increment: dwellTimeMs || 0 },
-      },
-    });
+    const idempotencyKey = readIdempotencyKey(req);
+    if (idempotencyKey === null) {
+      return res.status(400).json({ error: 'Invalid Idempotency-Key' });
+    }
 
-    // Update aggregate view count
-    await prisma.contentByte.update({
-      where: { id: byteId },
-      data: { viewCount: { increment: 1 } },
-    });
+    const mutation = await recordView(userId, byteId, { dwellTimeMs, isRead }, idempotencyKey);
 
-    // Record in history - only mark as read if explicitly confirmed
-    await prisma.contentHistory.upsert({
-      where: { userId_byteId: { userId, byteId } },
-      create: { userId, byteId, dwellTimeMs, isRead: isRead || false },
-      update: {
-        shownAt: new Date(),
-        dwellTimeMs,
-        // Only upgrade to read, never downgrade
-        ...(isRead ? { isRead: true } : {}),
-      },
-    });
+    if (!mutation) {
+      return res.status(404).json({ error: 'Content byte not found' });
+    }
+
+    const { result, replayed } = mutation;
+
+    // Learn once per byte: when it first counts as read, or from a quick skip
+    if (!replayed && !result.wasRead) {
+      if (isRead) {
+        await learnPreference(userId, byteId, readSignalStrength(result.totalDwellTimeMs));
+      } else if ((dwellTimeMs || 0) < QUICK_SKIP_MS) {
+        await learnPreference(userId, byteId, PREFERENCE_SIGNALS.quickSkip);
+      }
+    }
 
     res.json({ success: true });
   } catch (error) {
@@ -328,42 +379,171 @@ router.post('/bytes/:id/view', async (req: AuthenticatedRequest, res: Response)
   }
 });
 
+/**
+ * POST /feed/bytes/:id/share
+ * Track that user shared a byte (counted once per user)
+ * Headers: Idempotency-Key (optional)
+ */
+router.post('/bytes/:id/share', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const byteId = req.params.id;
+
+    const idempotencyKey = readIdempotencyKey(req);
+    if (idempotencyKey === null) {
+      return res.status(400).json({ error: 'Invalid Idempotency-Key' });
+    }
+
+    const mutation = await recordShare(userId, byteId, idempotencyKey);
+
+    if (!mutation) {
+      return res.status(404).json({ error: 'Content byte not found' });
+    }
+
+    if (!mutation.replayed && mutation.result.firstShare) {
+      await learnPreference(userId, byteId, PREFERENCE_SIGNALS.share);
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Share error:', error);
+    res.status(500).json({ error: 'Failed to record share' });
+  }
+});
+
 /**
  * POST /feed/bytes/:id/save
  * Save or unsave a content byte
+ * Body: { saved?: boolean } (omit to toggle)
+ * Headers: Idempotency-Key (optional)
  */
 router.post('/bytes/:id/save', async (req: AuthenticatedRequest, res: Response) => {
   try {
     const userId = req.userId!;
     const byteId = req.params.id;
+    const { saved } = (req.body || {}) as SaveInput;
 
-    // Get current save state
-    const existing = await prisma.userEngagement.findUnique({
-      where: { userId_byteId: { userId, byteId } },
-    });
+    if (saved !== undefined && typeof saved !== 'boolean') {
+      return res.status(400).json({ error: 'saved must be a boolean' });
+    }
 
-    const newSaveState = !existing?.isSaved;
+    const idempotencyKey = readIdempotencyKey(req);
+    if (idempotencyKey === null) {
+      return res.status(400).json({ error: 'Invalid Idempotency-Key' });
+    }
 
-    // Update engagement
-    await prisma.userEngagement.upsert({
-      where: { userId_byteId: { userId, byteId } },
-      create: { userId, byteId, isSaved: true },
-      update: { isSaved: newSaveState },
-    });
+    const mutation = await setSaved(userId, byteId, saved, idempotencyKey);
 
-    // Update aggregate count
-    await prisma.contentByte.update({
-      where: { id: byteId },
-      data: { saveCount: { increment: newSaveState ? 1 : -1 } },
-    });
+    if (!mutation) {
+      return res.status(404).json({ error: 'Content byte not found' });
+    }
+
+    const { result, replayed } = mutation;
+
+    if (!replayed && result.isSaved !== result.wasSaved) {
+      await syncReviewSchedule(userId, byteId);
+      await learnPreference(userId, byteId, result.isSaved ? PREFERENCE_SIGNALS.save : -PREFERENCE_SIGNALS.save);
+    }
 
-    res.json({ success: true, isSaved: newSaveState });
+    res.json({ success: true, isSaved: result.isSaved });
   } catch (error) {
     console.error('Save error:', error);
     res.status(500).json({ error: 'Failed to save byte' });
   }
 });
 
+/**
+ * POST /feed/bytes/:id/review
+ * Answer a spaced-repetition review
+ * Body: { outcome: 'remembered' | 'again' }
+ */
+router.post('/bytes/:id/review', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const byteId = req.params.id;
+    const { outcome } = req.body as ReviewInput;
+
+    if (outcome !== 'remembered' && outcome !== 'again') {
+      return res.status(400).json({ error: "Outcome must be 'remembered' or 'again'" });
+    }
+
+    const schedule = await recordReview(userId, byteId, outcome);
+
+    if (!schedule) {
+      return res.status(404).json({ error: 'Byte is not scheduled for review' });
+    }
+
+    res.json({
+      success: true,
+      nextReviewAt: schedule.dueAt,
+      intervalDays: schedule.intervalDays,
+    });
+  } catch (error) {
+    console.error('Review error:', error);
+    res.status(500).json({ error: 'Failed to record review' });
+  }
+});
+
+/**
+ * GET /feed/bytes/:id/context
+ * The passage a byte came from, with the paragraphs around it and a link
+ * to the edition's web version
+ */
+router.get('/bytes/:id/context', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const byte = await prisma.contentByte.findUnique({
+      where: { id: req.params.id },
+      select: {
+        id: true,
+        passageStart: true,
+        passageEnd: true,
+        edition: {
+          select: {
+            id: true,
+            subject: true,
+            publishedAt: true,
+            url: true,
+            textContent: true,
+            cleanedContent: true,
+            source: { select: { name: true, website: true, ownerId: true } },
+          },
+        },
+      },
+    });
+
+    // Another user's private inbox byte is as good as missing
+    const ownerId = byte?.edition.source.ownerId;
+    if (!byte || (ownerId && ownerId !== req.userId)) {
+      return res.status(404).json({ error: 'Byte not found' });
+    }
+
+    const { edition } = byte;
+    const hasPassage = byte.passageStart !== null && byte.passageEnd !== null;
+
+    const response: ByteContextResponse = {
+      byteId: byte.id,
+      passage: hasPassage
+        ? passageContext(edition.cleanedContent ?? edition.textContent, { start: byte.passageStart, end: byte.passageEnd })
+        : null,
+      edition: {
+        id: edition.id,
+        subject: edition.subject,
+        publishedAt: edition.publishedAt,
+        url: edition.url || null,
+      },
+      source: {
+        name: edition.source.name,
+        website: edition.source.website || null,
+      },
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Byte context error:', error);
+    res.status(500).json({ error: 'Failed to fetch byte context' });
+  }
+});
+
 /**
  * GET /feed/saved
  * Get user's saved bytes
@@ -411,32 +591,137 @@ router.get('/saved', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+// =============================================================================
+// MUTE RULES
+// =============================================================================
+
+/**
+ * GET /feed/mutes
+ * List the user's active mute rules
+ */
+router.get('/mutes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const rules = await getActiveMuteRules(req.userId!);
+    res.json({ rules: rules.map(formatMuteRule) });
+  } catch (error) {
+    console.error('Mutes error:', error);
+    res.status(500).json({ error: 'Failed to fetch mute rules' });
+  }
+});
+
+/**
+ * POST /feed/mutes
+ * Mute a source, author, category or keyword
+ * Body: { type, value, label?, expiresInDays? }
+ */
+router.post('/mutes', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const userId = req.userId!;
+    const { type, value, label, expiresInDays } = req.body as MuteRuleInput;
+
+    if (!MUTE_RULE_TYPES.includes(type)) {
+      return res.status(400).json({ error: `Type must be one of: ${MUTE_RULE_TYPES.join(', ')}` });
+    }
+
+    const trimmed = typeof value === 'string' ? value.trim() : '';
+    if (!trimmed || trimmed.length > 200) {
+      return res.status(400).json({ error: 'Value must be 1-200 characters' });
+    }
+
+    if (expiresInDays !== undefined && !(Number(expiresInDays) > 0)) {
+      return res.status(400).json({ error: 'expiresInDays must be a positive number' });
+    }
+
+    // Categories are stored lowercase, so match them that way
+    const ruleValue = type === 'category' ? trimmed.toLowerCase() : trimmed;
+    let ruleLabel = typeof label === 'string' ? label.trim().slice(0, 200) || null : null;
+
+    if (type === 'source') {
+      const source = await prisma.newsletterSource.findUnique({
+        where: { id: ruleValue },
+        select: { name: true },
+      });
+      if (!source) {
+        return res.status(404).json({ error: 'Source not found' });
+      }
+      ruleLabel = source.name;
+    }
+
+    const ruleCount = await prisma.muteRule.count({ where: { userId } });
+    if (ruleCount >= MAX_MUTE_RULES) {
+      return res.status(400).json({ error: `You can have at most ${MAX_MUTE_RULES} mute rules` });
+    }
+
+    const expiresAt = expiresInDays !== undefined
+      ? new Date(Date.now() + Number(expiresInDays) * 24 * 60 * 60 * 1000)
+      : null;
+
+    // Muting again refreshes the expiry instead of duplicating the rule
+    const rule = await prisma.muteRule.upsert({
+      where: { userId_type_value: { userId, type, value: ruleValue } },
+      create: { userId, type, value: ruleValue, label: ruleLabel, expiresAt },
+      update: { label: ruleLabel, expiresAt },
+    });
+
+    res.status(201).json({ rule: formatMuteRule(rule) });
+  } catch (error) {
+    console.error('Create mute error:', error);
+    res.status(500).json({ error: 'Failed to create mute rule' });
+  }
+});
+
+/**
+ * DELETE /feed/mutes/:id
+ * Remove a mute rule
+ */
+router.delete('/mutes/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const result = await prisma.muteRule.deleteMany({
+      where: { id: req.params.id, userId: req.userId! },
+    });
+
+    if (result.count === 0) {
+      return res.status(404).json({ error: 'Mute rule not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete mute error:', error);
+    res.status(500).json({ error: 'Failed to delete mute rule' });
+  }
+});
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
 /**
- * v3.0: Get bytes only from user's subscribed curated sources
+ * v3.0: Get bytes only from user's subscribed curated sources, plus the
+ * user's own private inbox sources
  * This is the primary feed function for the new curated content model
  */
 async function getCuratedFeed(
   userId: string,
-  excludeIds: string[],
   sourceIds: string[],
-  limit: number
+  limit: number,
+  reservedSince: Date
 ) {
-  if (sourceIds.length === 0) {
+  if (sourceIds.length === 0 || limit <= 0) {
     return [];
   }
 
+  const profile = getRankingProfile('curated');
+
   // Get bytes from subscribed sources that have been approved (or pending moderation)
   // Exclude rejected insights
   const bytes = await prisma.contentByte.findMany({
     where: {
-      id: { notIn: excludeIds },
+      ...unseenByUser(userId, { shownSince: reservedSince }),
+      ...(await getMuteFilter(userId)),
+      ...LIVE_BYTES,
       edition: {
         sourceId: { in: sourceIds },
-        source: { isCurated: true }, // Only from curated sources
+        source: newTabSource(userId), // Only from curated sources and the user's private inbox
       },
       moderationStatus: { not: 'rejected' }, // Don't show rejected content
     },
@@ -444,105 +729,88 @@ async function getCuratedFeed(
       edition: { include: { source: true } },
       engagements: { where: { userId }, take: 1 },
     },
-    orderBy: [
-      { qualityScore: 'desc' },
-      { engagementScore: 'desc' },
-      { createdAt: 'desc' },
-    ],
-    take: limit * 3, // Get more for diversity filtering
+    orderBy: profile.candidateOrderBy,
+    take: limit * profile.candidateMultiplier,
   });
 
-  // Apply diversity filtering - don't show too many from same source
-  const MAX_PER_SOURCE = 2;
-  const sourceCount = new Map<string, number>();
-  const diverseResults: typeof bytes = [];
-
-  for (const byte of bytes) {
-    if (diverseResults.length >= limit) break;
-
-    const sourceId = byte.edition?.source?.id || 'unknown';
-    const currentCount = sourceCount.get(sourceId) || 0;
-
-    if (currentCount >= MAX_PER_SOURCE) continue;
-
-    diverseResults.push(byte);
-    sourceCount.set(sourceId, currentCount + 1);
-  }
-
-  // If we need more, add remaining bytes
-  if (diverseResults.length < limit) {
-    for (const byte of bytes) {
-      if (diverseResults.length >= limit) break;
-      if (!diverseResults.includes(byte)) {
-        diverseResults.push(byte);
-      }
-    }
-  }
-
-  return diverseResults;
+  return feedRanker.rank(bytes, profile, limit);
 }
 
 async function getPopularFeed(
   userId: string,
-  excludeIds: string[],
   limit: number,
-  cursor?: string
-) {
-  // Get more bytes to sort by combined score
+  cursor?: CursorFor<'popular'>
+): Promise<FeedPage> {
+  const profile = getRankingProfile('popular');
+  const pageIndex = cursor ? cursor.page + 1 : 0;
+
+  // Deeper pages rank a deeper candidate pool
   const bytes = await prisma.contentByte.findMany({
     where: {
-      id: { notIn: excludeIds },
+      ...unseenByUser(userId),
+      ...(await getMuteFilter(userId)),
+      ...LIVE_BYTES,
+      ...PUBLIC_BYTES,
       moderationStatus: { not: 'rejected' }, // Don't show rejected content
     },
     include: {
       edition: { include: { source: true } },
       engagements: { where: { userId }, take: 1 },
     },
-    orderBy: [
-      { qualityScore: 'desc' },
-      { engagementScore: 'desc' },
-    ],
-    take: limit * 2,
+    orderBy: profile.candidateOrderBy,
+    take: (pageIndex + 1) * limit * profile.candidateMultiplier,
   });
 
-  // Sort by combined quality + engagement score
-  // This ensures high-quality new content surfaces even without engagement
-  const sorted = bytes.sort((a, b) => {
-    const scoreA = (a.qualityScore || 0.5) * 0.4 + Math.min(a.engagementScore / 100, 1) * 0.6;
-    const scoreB = (b.qualityScore || 0.5) * 0.4 + Math.min(b.engagementScore / 100, 1) * 0.6;
-    return scoreB - scoreA;
+  const ranked = feedRanker.rankPage(bytes, profile, limit, {
+    after: cursor && { score: cursor.score, id: cursor.id },
+    heldBack: cursor?.heldBack,
   });
 
-  return sorted.slice(0, limit);
+  return {
+    items: ranked.items,
+    nextCursor: ranked.items.length === limit && ranked.nextKey && hasNextRankedPage(pageIndex)
+      ? { type: 'popular', ...ranked.nextKey, page: pageIndex, heldBack: ranked.heldBack }
+      : null,
+  };
 }
 
 async function getTrendingFeed(
   userId: string,
-  excludeIds: string[],
   limit: number,
-  cursor?: string
-) {
-  return prisma.contentByte.findMany({
+  cursor?: CursorFor<'trending'>
+): Promise<FeedPage> {
+  const profile = getRankingProfile('trending');
+
+  const bytes = await prisma.contentByte.findMany({
     where: {
-      id: { notIn: excludeIds },
+      ...unseenByUser(userId),
+      ...(await getMuteFilter(userId)),
+      ...LIVE_BYTES,
+      ...PUBLIC_BYTES,
       createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) }, // Last 24h
-      ...(cursor && { trendingScore: { lt: parseFloat(cursor) } }),
+      ...(cursor ? keysetWhere(cursor) : {}),
     },
     include: {
       edition: { include: { source: true } },
       engagements: { where: { userId }, take: 1 },
     },
-    orderBy: { trendingScore: 'desc' },
-    take: limit,
+    orderBy: profile.candidateOrderBy,
+    take: limit * profile.candidateMultiplier,
   });
+
+  const ranked = feedRanker.rank(bytes, profile, limit);
+
+  return {
+    items: ranked,
+    nextCursor: ranked.length === limit ? keysetCursor('trending', ranked[ranked.length - 1].byte) : null,
+  };
 }
 
 async function getSubscribedFeed(
   userId: string,
-  excludeIds: string[],
   limit: number,
-  cursor?: string
-) {
+  cursor?: CursorFor<'subscribed'>
+): Promise<FeedPage> {
   // Get user's subscribed sources
   const subscriptions = await prisma.userSubscription.findMany({
     where: { userId, isActive: true },
@@ -552,64 +820,78 @@ async function getSubscribedFeed(
   const sourceIds = subscriptions.map((s) => s.sourceId);
 
   if (sourceIds.length === 0) {
-    return [];
+    return { items: [], nextCursor: null };
   }
 
-  return prisma.contentByte.findMany({
+  const bytes = await prisma.contentByte.findMany({
     where: {
-      id: { notIn: excludeIds },
-      edition: { sourceId: { in: sourceIds } },
-      ...(cursor && { createdAt: { lt: new Date(cursor) } }),
+      ...unseenByUser(userId),
+      ...(await getMuteFilter(userId)),
+      ...LIVE_BYTES,
+      edition: { sourceId: { in: sourceIds }, source: { OR: [{ ownerId: null }, { ownerId: userId }] } },
+      ...(cursor ? keysetWhere(cursor) : {}),
     },
     include: {
       edition: { include: { source: true } },
       engagements: { where: { userId }, take: 1 },
     },
-    orderBy: { createdAt: 'desc' },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
     take: limit,
   });
+
+  return {
+    items: bytes.map(unranked),
+    nextCursor: bytes.length === limit ? keysetCursor('subscribed', bytes[bytes.length - 1]) : null,
+  };
 }
 
 async function getNewFeed(
   userId: string,
-  excludeIds: string[],
   limit: number,
-  cursor?: string
-) {
-  return prisma.contentByte.findMany({
+  cursor?: CursorFor<'new'>
+): Promise<FeedPage> {
+  const bytes = await prisma.contentByte.findMany({
     where: {
-      id: { notIn: excludeIds },
-      ...(cursor && { createdAt: { lt: new Date(cursor) } }),
+      ...unseenByUser(userId),
+      ...(await getMuteFilter(userId)),
+      ...LIVE_BYTES,
+      ...PUBLIC_BYTES,
+      ...(cursor ? keysetWhere(cursor) : {}),
     },
     include: {
       edition: { include: { source: true } },
       engagements: { where: { userId }, take: 1 },
     },
-    orderBy: { createdAt: 'desc' },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
     take: limit,
   });
+
+  return {
+    items: bytes.map(unranked),
+    nextCursor: bytes.length === limit ? keysetCursor('new', bytes[bytes.length - 1]) : null,
+  };
 }
 
 async function getPersonalizedFeed(
   userId: string,
-  excludeIds: string[],
-  preferences: { category: string; weight: number }[],
   enableRecommendations: boolean,
   limit: number,
-  cursor?: string
-) {
-  // Build category weights map
-  const categoryWeights = new Map(
-    preferences.map((p) => [p.category, p.weight])
-  );
+  cursor?: CursorFor<'personalized'>
+): Promise<FeedPage> {
+  const profile = getRankingProfile('personalized');
+  const pageIndex = cursor ? cursor.page + 1 : 0;
 
-  // Check if user is new (no preferences = cold start)
-  const isNewUser = preferences.length === 0;
+  // Seed and reference time carry over between pages so scores never reshuffle
+  const seed = cursor?.seed || crypto.randomBytes(4).toString('hex');
+  const asOf = cursor?.asOf ?? Date.now();
 
-  // Get bytes with a mix strategy - fetch more for diversity filtering
+  // Fetch more candidates than needed to allow for diversity filtering
   const bytes = await prisma.contentByte.findMany({
     where: {
-      id: { notIn: excludeIds },
+      ...unseenByUser(userId),
+      ...(await getMuteFilter(userId)),
+      ...LIVE_BYTES,
+      ...PUBLIC_BYTES,
       // Only show sponsored if user enabled recommendations
       ...(enableRecommendations ? {} : { isSponsored: false }),
     },
@@ -617,149 +899,174 @@ async function getPersonalizedFeed(
       edition: { include: { source: true } },
       engagements: { where: { userId }, take: 1 },
     },
-    orderBy: [
-      { qualityScore: 'desc' },  // Prioritize high-quality content
-      { engagementScore: 'desc' },
-      { createdAt: 'desc' },
-    ],
-    take: limit * 5, // Get more to allow for diversity filtering
+    orderBy: profile.candidateOrderBy,
+    take: (pageIndex + 1) * limit * profile.candidateMultiplier,
   });
 
-  // Score and sort by personalization with randomness
-  // For NEW users: rely heavily on qualityScore + engagementScore
-  // For existing users: add category preferences
-  const scoredBytes = bytes.map((byte) => {
-    // Quality score from AI (0-1) - most important for new users
-    const qualityBoost = (byte.qualityScore || 0.5) * (isNewUser ? 0.4 : 0.2);
-
-    // Engagement score from community (normalized)
-    const maxEngagement = 100; // Normalize engagement
-    const normalizedEngagement = Math.min(byte.engagementScore / maxEngagement, 1);
-    const engagementBoost = normalizedEngagement * (isNewUser ? 0.3 : 0.2);
-
-    // Category preference (only for users with preferences) - reduced weight to prevent feedback loop
-    const categoryWeight = isNewUser ? 0 : (categoryWeights.get(byte.category) || 0.5) * 0.2;
-
-    // Recency boost (newer content gets slight boost)
-    const ageInDays = (Date.now() - byte.createdAt.getTime()) / (24 * 60 * 60 * 1000);
-    const recencyBoost = Math.max(0, (1 - ageInDays / 30)) * 0.1; // Decay over 30 days
-
-    // Randomness factor to break ties and prevent staleness (15-20% weight)
-    const randomBoost = Math.random() * 0.2;
+  // Learned weights: categories feed categoryAffinity, the rest feed affinity
+  const weights = await getAffinityWeights(userId);
+  const preferences = weights
+    .filter((w) => w.dimension === 'category')
+    .map((w) => ({ category: w.key, weight: w.weight }));
+
+  // New users (no preferences) fall back to the profile's cold-start weights
+  const ranked = feedRanker.rankPage(bytes, profile, limit, {
+    preferences,
+    affinities: weights.filter((w) => w.dimension !== 'category'),
+    random: createSeededRandom(seed),
+    now: asOf,
+    after: cursor && { score: cursor.score, id: cursor.id },
+    heldBack: cursor?.heldBack,
+  });
 
-    const personalScore = qualityBoost + engagementBoost + categoryWeight + recencyBoost + randomBoost;
+  return {
+    items: ranked.items,
+    nextCursor: ranked.items.length === limit && ranked.nextKey && hasNextRankedPage(pageIndex)
+      ? { type: 'personalized', ...ranked.nextKey, page: pageIndex, heldBack: ranked.heldBack, seed, asOf }
+      : null,
+  };
+}
 
-    return {
-      byte,
-      score: personalScore,
-      sourceId: byte.edition?.source?.id || 'unknown',
-      author: byte.author || byte.edition?.source?.name || 'unknown'
-    };
+/**
+ * Load what /feed/next needs to pick bytes: the user's active subscriptions,
+ * review settings and the reservation window. Returns null if the user
+ * doesn't exist.
+ */
+async function loadNextByteContext(userId: string): Promise<NextByteContext | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      subscriptions: {
+        where: { isActive: true },
+        select: { sourceId: true },
+      },
+    },
   });
 
-  // Sort by personalized score
-  scoredBytes.sort((a, b) => b.score - a.score);
-
-  // Apply diversity filtering - limit any single source/author to max 2 per batch
-  const MAX_PER_SOURCE = 2;
-  const MAX_PER_AUTHOR = 2;
-  const sourceCount = new Map<string, number>();
-  const authorCount = new Map<string, number>();
-  const diverseResults: typeof scoredBytes = [];
+  if (!user) {
+    return null;
+  }
 
-  for (const item of scoredBytes) {
-    if (diverseResults.length >= limit) break;
+  return {
+    userSourceIds: user.subscriptions.map((s) => s.sourceId) as string[],
+    // Bytes handed out since then may still sit in a tab's prefetch queue
+    reservedSince: new Date(Date.now() - RESERVATION_TTL_MS),
+    enableSpacedRepetition: user.enableSpacedRepetition ?? false,
+    reviewRatio: user.reviewRatio ?? 0,
+  };
+}
 
-    const currentSourceCount = sourceCount.get(item.sourceId) || 0;
-    const currentAuthorCount = authorCount.get(item.author) || 0;
+/**
+ * Pick `count` bytes for the new tab and reserve them: fresh curated bytes,
+ * with due reviews mixed in for users who opted into spaced repetition
+ */
+async function pickNewTabBytes(userId: string, context: NextByteContext, count: number) {
+  const { userSourceIds, reservedSince, enableSpacedRepetition, reviewRatio } = context;
 
-    // Skip if this source or author has already appeared too many times
-    if (currentSourceCount >= MAX_PER_SOURCE || currentAuthorCount >= MAX_PER_AUTHOR) {
-      continue;
-    }
+  const reviewSlots = enableSpacedRepetition ? countReviewSlots(count, reviewRatio) : 0;
+  const reviews = await takeDueReviews(userId, reviewSlots, reservedSince);
+  const fresh = await getCuratedFeed(userId, userSourceIds, count - reviews.length, reservedSince);
 
-    // Add to results and update counts
-    diverseResults.push(item);
-    sourceCount.set(item.sourceId, currentSourceCount + 1);
-    authorCount.set(item.author, currentAuthorCount + 1);
+  // Out of fresh content: fill the rest with whatever reviews are due
+  if (enableSpacedRepetition && reviews.length + fresh.length < count) {
+    reviews.push(...(await takeDueReviews(userId, count - reviews.length - fresh.length, reservedSince)));
   }
 
-  // If we couldn't fill the limit due to diversity constraints, add remaining items
-  if (diverseResults.length < limit) {
-    for (const item of scoredBytes) {
-      if (diverseResults.length >= limit) break;
-      if (!diverseResults.includes(item)) {
-        diverseResults.push(item);
-      }
-    }
+  if (fresh.length > 0) {
+    await reserveBytes(userId, fresh.map((r) => r.byte.id));
   }
 
-  return diverseResults.map((s) => s.byte);
+  return interleaveReviews(fresh, reviews.map(unranked));
+}
+
+/**
+ * Record bytes as shown (isRead stays false until user actually reads them)
+ */
+async function reserveBytes(userId: string, byteIds: string[]) {
+  const shownAt = new Date();
+
+  await prisma.$transaction(
+    byteIds.map((byteId) =>
+      prisma.contentHistory.upsert({
+        where: { userId_byteId: { userId, byteId } },
+        create: { userId, byteId, isRead: false, shownAt },
+        update: { shownAt },
+      })
+    )
+  );
 }
 
-async function getQueueSize(userId: string, seenByteIds: string[], sourceIds?: string[]): Promise<number> {
-  const where: any = {
-    id: { notIn: seenByteIds },
+async function getQueueSize(userId: string, sourceIds?: string[], reservedSince?: Date): Promise<number> {
+  const where = {
+    ...unseenByUser(userId, { shownSince: reservedSince }),
+    ...(await getMuteFilter(userId)),
+    ...LIVE_BYTES,
     moderationStatus: { not: 'rejected' },
+    // v3.0: Only count bytes from subscribed sources
+    ...(sourceIds && sourceIds.length > 0
+      ? { edition: { sourceId: { in: sourceIds }, source: newTabSource(userId) } }
+      : PUBLIC_BYTES),
   };
 
-  // v3.0: Only count bytes from subscribed sources
-  if (sourceIds && sourceIds.length > 0) {
-    where.edition = {
-      sourceId: { in: sourceIds },
-      source: { isCurated: true },
-    };
-  }
-
   return prisma.contentByte.count({ where });
 }
 
-async function updateUserPreferences(
-  userId: string,
-  category: string,
-  vote: number
-) {
-  // Get existing preference
-  const existing = await prisma.userPreference.findUnique({
-    where: { userId_category: { userId, category } },
-  });
-
-  // Calculate new weight
-  const currentWeight = existing?.weight || 0.5;
-  const adjustment = vote > 0 ? 0.05 : -0.03; // Upvote increases, downvote decreases
-  const newWeight = Math.max(0, Math.min(1, currentWeight + adjustment));
+/**
+ * Sources the new tab draws from: curated ones and the user's private inbox
+ */
+function newTabSource(userId: string) {
+  return { OR: [{ isCurated: true }, { ownerId: userId }] };
+}
 
-  // Upsert preference
-  await prisma.userPreference.upsert({
-    where: { userId_category: { userId, category } },
-    create: { userId, category, weight: newWeight },
-    update: { weight: newWeight },
-  });
+/**
+ * Idempotency-Key header: undefined when absent, null when malformed
+ */
+function readIdempotencyKey(req: AuthenticatedRequest): string | undefined | null {
+  const key = req.get('Idempotency-Key')?.trim();
+  if (!key) return undefined;
+  return key.length <= MAX_IDEMPOTENCY_KEY_LENGTH ? key : null;
 }
 
-async function recalculateEngagementScore(byteId: string) {
-  const byte = await prisma.contentByte.findUnique({
-    where: { id: byteId },
-  });
+/**
+ * Wrap a byte that wasn't scored (chronological feeds, due reviews)
+ */
+function unranked(byte: any): RankedCandidate<any> {
+  return { byte, score: 0, breakdown: {}, signals: {} };
+}
 
-  if (!byte) return;
+function wantsExplanation(req: AuthenticatedRequest): boolean {
+  return req.query.explain === 'true' || req.query.explain === '1';
+}
 
-  // Engagement score formula
-  const engagementScore =
-    byte.upvotes * 1.0 -
-    byte.downvotes * 0.5 +
-    byte.viewCount * 0.01 +
-    byte.saveCount * 2.0 +
-    byte.shareCount * 3.0;
+/**
+ * What the explainer needs beyond the ranked item itself
+ * /feed/next already has the subscriptions loaded and passes them in
+ */
+async function loadExplainContext(userId: string, sourceIds?: string[]): Promise<ExplainContext> {
+  const subscribedSourceIds = sourceIds ?? (
+    await prisma.userSubscription.findMany({
+      where: { userId, isActive: true },
+      select: { sourceId: true },
+    })
+  ).map((s) => s.sourceId);
 
-  // Trending score with time decay
-  const hoursAgo =
-    (Date.now() - byte.createdAt.getTime()) / (1000 * 60 * 60);
-  const trendingScore = engagementScore / Math.pow(hoursAgo + 2, 1.5);
+  return {
+    subscribedSourceIds: new Set<string>(subscribedSourceIds),
+    affinities: await getAffinityWeights(userId),
+  };
+}
 
-  await prisma.contentByte.update({
-    where: { id: byteId },
-    data: { engagementScore, trendingScore },
+function formatFeedItems(
+  items: RankedCandidate<any>[],
+  userId: string,
+  explainContext: ExplainContext | null
+): ContentByteResponse[] {
+  return items.map((item) => {
+    const reason = explainContext ? explainRecommendation(item, explainContext) : null;
+    return {
+      ...formatByteResponse(item.byte, userId),
+      ...(reason ? { reason } : {}),
+    };
   });
 }
 
@@ -791,10 +1098,24 @@ function formatByteResponse(byte: any, userId: string): ContentByteResponse {
         }
       : undefined,
     isSponsored: byte.isSponsored,
+    ...(byte.isReview ? { isReview: true } : {}),
+    editionUrl: byte.edition.url || null,
+    hasContext: byte.passageStart != null,
     createdAt: byte.createdAt,
   };
 }
 
+function formatMuteRule(rule: any): MuteRuleResponse {
+  return {
+    id: rule.id,
+    type: rule.type,
+    value: rule.value,
+    label: rule.label,
+    expiresAt: rule.expiresAt,
+    createdAt: rule.createdAt,
+  };
+}
+
 // =============================================================================
 // NEWSLETTER RECOMMENDATIONS
 // =============================================================================
@@ -11,6 +11,12 @@ import {
   getQueueStats,
   resetFailedEditions,
 } from '../services/processingQueue';
+import { reconcileEngagementCounters, pruneIdempotencyKeys } from '../services/engagement';
+import { recomputeScores } from '../services/scoreRecompute';
+import { runLoggedJob, getRecentJobRuns } from '../services/jobLog';
+import { getLlmMetrics } from '../services/llm';
+import { fingerprintExistingBytes } from '../services/dedup';
+import { importLegacyPreferences } from '../services/preferenceModel';
 
 const router = Router();
 
@@ -113,6 +119,183 @@ router.post('/reset-failed', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /internal/recompute-scores
+ *
+ * Decay trending scores and refresh per-source aggregates and subscriber
+ * counts. Should be called by the Cloudflare cron worker every hour.
+ * Query params:
+ *   - manual: true when triggered by hand (recorded in the job log)
+ */
+router.post('/recompute-scores', async (req: Request, res: Response) => {
+  console.log('[Cron] Score recomputation triggered');
+
+  try {
+    const run = await runLoggedJob(
+      'recompute-scores',
+      recomputeScores,
+      req.query.manual === 'true' ? 'manual' : 'scheduled'
+    );
+
+    if (!run) {
+      return res.status(409).json({ success: false, error: 'Score recomputation already running' });
+    }
+
+    console.log(`[Cron] Scores recomputed in ${run.durationMs}ms: ${run.stats.trending.rows} bytes rescored`);
+
+    res.json({
+      success: true,
+      runId: run.runId,
+      duration: run.durationMs,
+      ...run.stats,
+    });
+  } catch (error) {
+    console.error('[Cron] Recompute scores error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /internal/reconcile-engagement
+ *
+ * Recompute vote/save/share/view counters on every byte from UserEngagement
+ * and report drift. Also prunes expired idempotency keys.
+ * Query params:
+ *   - dryRun: true to report drift without fixing it
+ *   - manual: true when triggered by hand (recorded in the job log)
+ */
+router.post('/reconcile-engagement', async (req: Request, res: Response) => {
+  console.log('[Cron] Engagement reconciliation triggered');
+
+  try {
+    const dryRun = req.query.dryRun === 'true';
+    const run = await runLoggedJob('reconcile-engagement', async () => ({
+      dryRun,
+      ...(await reconcileEngagementCounters({ dryRun })),
+      prunedKeys: await pruneIdempotencyKeys(),
+    }), req.query.manual === 'true' ? 'manual' : 'scheduled');
+
+    if (!run) {
+      return res.status(409).json({ success: false, error: 'Reconciliation already running' });
+    }
+
+    if (run.stats.driftedBytes > 0) {
+      console.warn(`[Cron] Counter drift on ${run.stats.driftedBytes}/${run.stats.checked} bytes (${run.stats.fixed} fixed)`);
+    }
+
+    res.json({
+      success: true,
+      runId: run.runId,
+      duration: run.durationMs,
+      ...run.stats,
+    });
+  } catch (error) {
+    console.error('[Cron] Reconcile engagement error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /internal/fingerprint-bytes
+ *
+ * Fingerprint bytes saved before near-duplicate detection existed and flag
+ * matches for admin review. Run repeatedly until `fingerprinted` is 0.
+ * Query params:
+ *   - limit: bytes per run (default: 500, max: 2000)
+ */
+router.post('/fingerprint-bytes', async (req: Request, res: Response) => {
+  console.log('[Cron] Byte fingerprint backfill triggered');
+
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 500, 2000);
+    const run = await runLoggedJob('fingerprint-bytes', () => fingerprintExistingBytes(limit), 'manual');
+
+    if (!run) {
+      return res.status(409).json({ success: false, error: 'Fingerprint backfill already running' });
+    }
+
+    res.json({
+      success: true,
+      runId: run.runId,
+      duration: run.durationMs,
+      ...run.stats,
+    });
+  } catch (error) {
+    console.error('[Cron] Fingerprint backfill error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * POST /internal/import-preferences
+ *
+ * Carry category weights from the old preference model (user_preferences)
+ * into user_affinities. Run once after deploying the affinity model; safe to
+ * run again, since categories with an affinity are left alone.
+ */
+router.post('/import-preferences', async (_req: Request, res: Response) => {
+  console.log('[Cron] Legacy preference import triggered');
+
+  try {
+    const run = await runLoggedJob('import-preferences', () => importLegacyPreferences(), 'manual');
+
+    if (!run) {
+      return res.status(409).json({ success: false, error: 'Preference import already running' });
+    }
+
+    res.json({
+      success: true,
+      runId: run.runId,
+      duration: run.durationMs,
+      ...run.stats,
+    });
+  } catch (error) {
+    console.error('[Cron] Preference import error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /internal/jobs
+ *
+ * Recent background job runs with timings and row counts.
+ * Query params:
+ *   - job: filter by job name (e.g. recompute-scores)
+ *   - limit: number (default: 20, max: 100)
+ */
+router.get('/jobs', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const runs = await getRecentJobRuns(req.query.job as string | undefined, limit);
+    res.json({ runs });
+  } catch (error) {
+    console.error('[Internal] Job log error:', error);
+    res.status(500).json({ error: 'Failed to get job log' });
+  }
+});
+
+/**
+ * GET /internal/llm-metrics
+ *
+ * Per-task counts of JSON parse strategies, validation failures and repair
+ * requests since the process started.
+ */
+router.get('/llm-metrics', (req: Request, res: Response) => {
+  res.json(getLlmMetrics());
+});
+
 /**
  * GET /internal/health
  *
@@ -0,0 +1,95 @@
+import { Router, Response } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { getPersonalizationProfile } from '../services/preferenceModel';
+import { getPrivateInbox, setPrivateInboxEnabled, deletePrivateSource } from '../services/privateInbox';
+import { AuthenticatedRequest } from '../types';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticateToken);
+
+/**
+ * GET /me/preferences
+ * Learned preference profile: category weights plus type, source and tag
+ * affinities, all decayed to the current time
+ */
+router.get('/preferences', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const profile = await getPersonalizationProfile(req.userId!);
+    res.json(profile);
+  } catch (error) {
+    console.error('Preferences error:', error);
+    res.status(500).json({ error: 'Failed to fetch preferences' });
+  }
+});
+
+// =============================================================================
+// PRIVATE INBOX
+// =============================================================================
+
+/**
+ * GET /me/inbox
+ * Private inbox settings and the private sources forwarded mail created
+ */
+router.get('/inbox', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const inbox = await getPrivateInbox(req.userId!);
+
+    if (!inbox) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(inbox);
+  } catch (error) {
+    console.error('Private inbox error:', error);
+    res.status(500).json({ error: 'Failed to fetch private inbox' });
+  }
+});
+
+/**
+ * PUT /me/inbox
+ * Turn the private inbox on or off. Body: { enabled: boolean }
+ * The first time it's turned on the user gets a forwarding address.
+ */
+router.put('/inbox', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { enabled } = req.body;
+
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be true or false' });
+    }
+
+    const inbox = await setPrivateInboxEnabled(req.userId!, enabled);
+
+    if (!inbox) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json(inbox);
+  } catch (error) {
+    console.error('Update private inbox error:', error);
+    res.status(500).json({ error: 'Failed to update private inbox' });
+  }
+});
+
+/**
+ * DELETE /me/inbox/sources/:id
+ * Delete a private source with all its editions and bytes
+ */
+router.delete('/inbox/sources/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deleted = await deletePrivateSource(req.userId!, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Private source not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete private source error:', error);
+    res.status(500).json({ error: 'Failed to delete private source' });
+  }
+});
+
+export default router;
@@ -2,16 +2,18 @@ import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import crypto from 'crypto';
 import { prisma } from '../services/db';
-import { categorizeNewsletterSource } from '../services/claude';
-import { verifyMailgunSignature, htmlToText, extractSenderName } from '../services/utils';
+import { categorizeNewsletterSource } from '../services/extraction';
+import { verifyMailgunSignature, htmlToText, extractSenderName, extractWebVersionUrl } from '../services/utils';
 import { MailgunWebhookPayload } from '../types';
-import { classifyEmail, shouldProcessEmail } from '../services/emailClassifier';
+import { classifyIncomingEmail, ClassificationResult } from '../services/emailClassifier';
+import { privateSenderKey } from '../services/privateInbox';
 
 const router = Router();
 const upload = multer();
 
 const MAILGUN_SIGNING_KEY = process.env.MAILGUN_WEBHOOK_SIGNING_KEY || '';
 const CLOUDFLARE_WEBHOOK_SECRET = process.env.CLOUDFLARE_WEBHOOK_SECRET || '';
+const GENERIC_INBOXES = ['inbox@byteletters.app', 'inbox@inbox.byteletters.app'];
 
 // =============================================================================
 // CLOUDFLARE EMAIL WORKER WEBHOOK
@@ -57,40 +59,16 @@ router.post('/cloudflare', async (req: Request, res: Response) => {
 
     console.log(`[Cloudflare] Email from ${senderEmail} to ${recipientEmail}`);
 
-    // Quick junk email check
-    const quickCheck = shouldProcessEmail(finalSubject, senderEmail, finalTextContent.length);
-    if (!quickCheck.process) {
-      console.log(`[Cloudflare] Rejected email: ${quickCheck.reason}`);
-      res.status(200).json({ message: `Email rejected: ${quickCheck.reason}`, rejected: true });
-      return;
-    }
-
-    // Full classification for borderline cases
-    const classification = classifyEmail(
-      finalSubject,
+    const email: IncomingEmail = {
       senderEmail,
-      finalSenderName,
-      finalTextContent,
-      htmlContent || ''
-    );
-
-    if (classification.isJunk && classification.confidence > 0.7) {
-      console.log(`[Cloudflare] Classified as junk (${classification.category}): ${classification.reason}`);
-      res.status(200).json({
-        message: `Email rejected: ${classification.category}`,
-        reason: classification.reason,
-        rejected: true,
-      });
-      return;
-    }
-
-    if (classification.category === 'unknown' && classification.confidence < 0.5) {
-      console.log(`[Cloudflare] Low confidence classification, will process with caution`);
-    }
+      senderName: finalSenderName,
+      subject: finalSubject,
+      htmlContent: htmlContent || '',
+      textContent: finalTextContent,
+    };
 
     // v3.0: Check if this is the generic inbox for admin review
-    const GENERIC_INBOX = 'inbox@byteletters.app';
-    if (recipientEmail === GENERIC_INBOX || recipientEmail === 'inbox@inbox.byteletters.app') {
+    if (GENERIC_INBOXES.includes(recipientEmail)) {
       // Save to forwarded emails for admin review
       const contentHash = generateContentHash(finalSubject, finalTextContent);
 
@@ -105,7 +83,9 @@ router.post('/cloudflare', async (req: Request, res: Response) => {
         return;
       }
 
-      // Save for admin review
+      const classification = await classifyIncomingEmail(email, { recipient: recipientEmail });
+
+      // Junk is kept as 'filtered' so admins can tell the classifier it was wrong
       const forwardedEmail = await prisma.forwardedEmail.create({
         data: {
           fromEmail: senderEmail,
@@ -114,11 +94,21 @@ router.post('/cloudflare', async (req: Request, res: Response) => {
           contentHash,
           htmlContent: htmlContent || null,
           textContent: finalTextContent,
-          status: 'pending',
+          status: classification.isJunk ? 'filtered' : 'pending',
+          classificationId: classification.classificationId,
         },
       });
 
-      console.log(`[Cloudflare] Forwarded email saved for review: ${forwardedEmail.id}`);
+      if (classification.isJunk) {
+        console.log(`[Cloudflare] Classified as junk (${classification.category}): ${classification.reason}`);
+        res.status(200).json({ ...rejectionResponse(classification), forwardedEmailId: forwardedEmail.id });
+        return;
+      }
+
+      console.log(
+        `[Cloudflare] Forwarded email saved for review: ${forwardedEmail.id}` +
+        (classification.review ? ` (ingest rule ${classification.ingestRule?.id})` : '')
+      );
       res.status(200).json({
         message: 'Email received for review',
         forwardedEmailId: forwardedEmail.id,
@@ -126,7 +116,7 @@ router.post('/cloudflare', async (req: Request, res: Response) => {
       return;
     }
 
-    // Legacy: Find user by personal inbox email (for existing users)
+    // Private inbox: mail to a user's personal address
     const user = await prisma.user.findUnique({
       where: { inboxEmail: recipientEmail },
     });
@@ -137,54 +127,9 @@ router.post('/cloudflare', async (req: Request, res: Response) => {
       return;
     }
 
-    // Generate content hash for deduplication
-    const contentHash = generateContentHash(finalSubject, finalTextContent);
-
-    // Check if this edition already exists (deduplication)
-    const existingEdition = await prisma.edition.findUnique({
-      where: { contentHash },
-      include: { source: true },
-    });
-
-    if (existingEdition) {
-      await ensureUserSubscription(user.id, existingEdition.sourceId, 'forwarded');
-      console.log(`[Cloudflare] Duplicate edition: ${existingEdition.id}`);
-
-      res.status(200).json({
-        message: 'Email received (duplicate edition)',
-        editionId: existingEdition.id,
-        isDuplicate: true,
-      });
-      return;
-    }
-
-    // Find or create newsletter source
-    const source = await findOrCreateSource(senderEmail, finalSenderName, finalTextContent);
-
-    // Create new edition with pending status (will be processed by queue)
-    const edition = await prisma.edition.create({
-      data: {
-        sourceId: source.id,
-        subject: finalSubject,
-        contentHash,
-        rawContent: htmlContent || '',
-        textContent: finalTextContent,
-        isProcessed: false,
-        processingStatus: 'pending', // Queue for batch processing
-        processAttempts: 0,
-      },
-    });
-
-    // Link user to source
-    await ensureUserSubscription(user.id, source.id, 'forwarded');
+    const result = await receivePrivateEmail(user, recipientEmail, email, 'Cloudflare');
 
-    console.log(`[Cloudflare] New edition queued: ${edition.id} for source ${source.name}`);
-
-    res.status(200).json({
-      message: 'Email received',
-      editionId: edition.id,
-      sourceId: source.id,
-    });
+    res.status(200).json(result);
   } catch (error) {
     console.error('[Cloudflare] Webhook error:', error);
     res.status(200).json({ error: 'Processing error' });
@@ -197,8 +142,7 @@ router.post('/cloudflare', async (req: Request, res: Response) => {
 
 /**
  * POST /webhooks/mailgun
- * Receive incoming emails from Mailgun
- * v2.0: Uses shared content model - deduplicates newsletters across users
+ * Receive incoming emails from Mailgun for users' private inboxes
  */
 router.post('/mailgun', upload.none(), async (req: Request, res: Response) => {
   try {
@@ -223,7 +167,7 @@ router.post('/mailgun', upload.none(), async (req: Request, res: Response) => {
     // Extract recipient inbox email
     const recipientEmail = payload.recipient.toLowerCase();
 
-    // Find user by inbox email
+    // Find user by private inbox email
     const user = await prisma.user.findUnique({
       where: { inboxEmail: recipientEmail },
     });
@@ -241,133 +185,164 @@ router.post('/mailgun', upload.none(), async (req: Request, res: Response) => {
     const senderName = extractSenderName(payload.from);
     const subject = payload.subject || 'No Subject';
 
-    // Quick junk email check
-    const quickCheck = shouldProcessEmail(subject, senderEmail, textContent.length);
-    if (!quickCheck.process) {
-      console.log(`[Mailgun] Rejected email: ${quickCheck.reason}`);
-      res.status(200).json({ message: `Email rejected: ${quickCheck.reason}`, rejected: true });
-      return;
-    }
+    const result = await receivePrivateEmail(
+      user,
+      recipientEmail,
+      { senderEmail, senderName, subject, htmlContent, textContent },
+      'Mailgun'
+    );
 
-    // Full classification for borderline cases
-    const classification = classifyEmail(subject, senderEmail, senderName, textContent, htmlContent);
-    if (classification.isJunk && classification.confidence > 0.7) {
-      console.log(`[Mailgun] Classified as junk (${classification.category}): ${classification.reason}`);
-      res.status(200).json({
-        message: `Email rejected: ${classification.category}`,
-        reason: classification.reason,
-        rejected: true,
-      });
-      return;
-    }
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Webhook error:', error);
+    res.status(200).json({ error: 'Processing error' });
+  }
+});
 
-    // Generate content hash for deduplication
-    const contentHash = generateContentHash(subject, textContent);
 
-    // Check if this edition already exists (deduplication)
-    const existingEdition = await prisma.edition.findUnique({
-      where: { contentHash },
-      include: { source: true },
-    });
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
 
-    if (existingEdition) {
-      // Edition exists - just link user to source if not already subscribed
-      await ensureUserSubscription(user.id, existingEdition.sourceId, 'forwarded');
-      console.log(`Duplicate edition detected: ${existingEdition.id}, linked user ${user.id}`);
+interface IncomingEmail {
+  senderEmail: string;
+  senderName: string;
+  subject: string;
+  htmlContent: string;
+  textContent: string;
+}
 
-      res.status(200).json({
-        message: 'Email received (duplicate edition)',
-        editionId: existingEdition.id,
-        isDuplicate: true,
-      });
-      return;
+/**
+ * Queue mail sent to a user's private inbox as an edition of their private
+ * source for that sender. Returns the webhook response body.
+ */
+async function receivePrivateEmail(
+  user: { id: string; privateInboxEnabled: boolean },
+  recipient: string,
+  email: IncomingEmail,
+  logPrefix: string,
+  options: { classify?: boolean } = {}
+): Promise<Record<string, unknown>> {
+  if (!user.privateInboxEnabled) {
+    console.log(`[${logPrefix}] Private inbox disabled for user ${user.id}, email discarded`);
+    return { message: 'Private inbox disabled, email discarded' };
+  }
+
+  if (options.classify !== false) {
+    const classification = await classifyIncomingEmail(email, { recipient, userId: user.id });
+    if (classification.isJunk) {
+      console.log(`[${logPrefix}] Classified as junk (${classification.category}): ${classification.reason}`);
+      return rejectionResponse(classification);
     }
+  }
 
-    // Find or create newsletter source
-    const source = await findOrCreateSource(senderEmail, senderName, textContent);
+  // Scoped to the user: a newsletter another user forwarded is still private to each
+  const contentHash = generateContentHash(email.subject, email.textContent, user.id);
 
-    // Create new edition with pending status (will be processed by queue)
-    const edition = await prisma.edition.create({
-      data: {
-        sourceId: source.id,
-        subject,
-        contentHash,
-        rawContent: htmlContent,
-        textContent,
-        isProcessed: false,
-        processingStatus: 'pending', // Queue for batch processing
-        processAttempts: 0,
-      },
-    });
+  const existingEdition = await prisma.edition.findUnique({
+    where: { contentHash },
+  });
 
-    // Link user to source
-    await ensureUserSubscription(user.id, source.id, 'forwarded');
+  if (existingEdition) {
+    console.log(`[${logPrefix}] Duplicate private edition: ${existingEdition.id}`);
+    return {
+      message: 'Email received (duplicate edition)',
+      editionId: existingEdition.id,
+      isDuplicate: true,
+    };
+  }
 
-    console.log(`[Mailgun] New edition queued: ${edition.id} for source ${source.name}`);
+  const source = await findOrCreatePrivateSource(user.id, email.senderEmail, email.senderName, email.textContent);
 
-    res.status(200).json({
-      message: 'Email received',
-      editionId: edition.id,
+  // Create new edition with pending status (will be processed by queue)
+  const edition = await prisma.edition.create({
+    data: {
       sourceId: source.id,
-    });
-  } catch (error) {
-    console.error('Webhook error:', error);
-    res.status(200).json({ error: 'Processing error' });
-  }
-});
+      subject: email.subject,
+      contentHash,
+      rawContent: email.htmlContent,
+      textContent: email.textContent,
+      url: extractWebVersionUrl(email.htmlContent),
+      isProcessed: false,
+      processingStatus: 'pending', // Queue for batch processing
+      processAttempts: 0,
+    },
+  });
 
+  // The subscription puts the source in the owner's /feed/next
+  await ensureUserSubscription(user.id, source.id, 'private_inbox');
 
-// =============================================================================
-// HELPER FUNCTIONS
-// =============================================================================
+  console.log(`[${logPrefix}] New private edition queued: ${edition.id} for source ${source.name}`);
+
+  return {
+    message: 'Email received',
+    editionId: edition.id,
+    sourceId: source.id,
+  };
+}
+
+function rejectionResponse(classification: ClassificationResult) {
+  return {
+    message: `Email rejected: ${classification.category}`,
+    reason: classification.reason,
+    rejected: true,
+    ...(classification.ingestRule ? { ingestRuleId: classification.ingestRule.id } : {}),
+  };
+}
 
 /**
- * Generate a hash for content deduplication
+ * Generate a hash for content deduplication, optionally scoped to one
+ * user's private inbox
  */
-function generateContentHash(subject: string, content: string): string {
+function generateContentHash(subject: string, content: string, ownerId?: string): string {
   const normalizedContent = content.slice(0, 1000).toLowerCase().replace(/\s+/g, ' ');
   return crypto
     .createHash('sha256')
-    .update(`${subject}|${normalizedContent}`)
+    .update(`${ownerId ? `${ownerId}|` : ''}${subject}|${normalizedContent}`)
     .digest('hex');
 }
 
 /**
- * Find existing source or create new one
+ * Find or create the user's private source for a sender
  */
-async function findOrCreateSource(
+async function findOrCreatePrivateSource(
+  ownerId: string,
   senderEmail: string,
   senderName: string,
   sampleContent: string
 ) {
-  // Try to find existing source by sender email
-  let source = await prisma.newsletterSource.findUnique({
-    where: { senderEmail },
+  const senderKey = privateSenderKey(ownerId, senderEmail);
+
+  const existing = await prisma.newsletterSource.findUnique({
+    where: { senderEmail: senderKey },
   });
 
-  if (source) {
-    return source;
+  if (existing) {
+    return existing;
   }
 
-  // Extract domain for grouping
-  const senderDomain = senderEmail.split('@')[1] || 'unknown';
+  const created = await prisma.newsletterSource.create({
+    data: {
+      name: senderName || senderEmail,
+      senderEmail: senderKey,
+      senderDomain: senderEmail.split('@')[1] || 'unknown',
+      ownerId,
+    },
+  });
 
-  // Use Claude to categorize the newsletter
-  const categorization = await categorizeNewsletterSource(senderName, sampleContent);
+  // Categorize once the source exists, so the model call is billed to it
+  const categorization = await categorizeNewsletterSource(senderName, sampleContent, { sourceId: created.id });
 
-  // Create new source
-  source = await prisma.newsletterSource.create({
+  const source = await prisma.newsletterSource.update({
+    where: { id: created.id },
     data: {
-      name: senderName || senderEmail,
-      senderEmail,
-      senderDomain,
       description: categorization.description,
       category: categorization.category,
       tags: categorization.tags,
     },
   });
 
-  console.log(`New newsletter source created: ${source.name} (${source.category})`);
+  console.log(`Private newsletter source created: ${source.name} (${source.category}) for user ${ownerId}`);
   return source;
 }
 
@@ -398,7 +373,7 @@ async function ensureUserSubscription(
 
 /**
  * POST /webhooks/test
- * Test endpoint to manually add a newsletter (for development)
+ * Test endpoint to manually add a newsletter to a private inbox (for development)
  */
 router.post('/test', async (req: Request, res: Response) => {
   if (process.env.NODE_ENV === 'production') {
@@ -424,37 +399,18 @@ router.post('/test', async (req: Request, res: Response) => {
       return;
     }
 
-    const finalSenderEmail = senderEmail || 'test@example.com';
-    const finalSenderName = senderName || 'Test Sender';
-
-    // Generate content hash
-    const contentHash = generateContentHash(subject, content);
-
-    // Find or create source
-    const source = await findOrCreateSource(finalSenderEmail, finalSenderName, content);
-
-    // Create edition with pending status (queued for processing)
-    const edition = await prisma.edition.create({
-      data: {
-        sourceId: source.id,
-        subject,
-        contentHash,
-        rawContent: content,
-        textContent: content,
-        isProcessed: false,
-        processingStatus: 'pending',
-        processAttempts: 0,
-      },
-    });
-
-    // Link user
-    await ensureUserSubscription(user.id, source.id, 'test');
+    // Test content skips the classifier, which would reject short samples
+    const result = await receivePrivateEmail(user, inboxEmail, {
+      senderEmail: senderEmail || 'test@example.com',
+      senderName: senderName || 'Test Sender',
+      subject,
+      htmlContent: content,
+      textContent: content,
+    }, 'Test', { classify: false });
 
     res.json({
-      message: 'Test newsletter queued for processing',
-      editionId: edition.id,
-      sourceId: source.id,
-      status: 'pending',
+      ...result,
+      ...(result.editionId && !result.isDuplicate && { status: 'pending' }),
     });
   } catch (error) {
     console.error('Test webhook error:', error);
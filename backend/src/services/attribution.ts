@@ -0,0 +1,199 @@
+/**
+ * Attribution - Check extracted quotes against the edition text
+ *
+ * The extraction prompt asks for an author on every `quote`, but models often
+ * leave it null or credit the newsletter's writer with someone else's line.
+ * This stage runs after extraction, before bytes are saved, and needs no
+ * model call.
+ *
+ * Flow:
+ * 1. Find the quote verbatim in textContent (ignoring case, punctuation and
+ *    whitespace); the match is the evidence span
+ * 2. Look around the span for who said it: an explicit attribution
+ *    ("— Seneca", "as Naval put it:") wins, otherwise the claimed author
+ *    must be named nearby
+ * 3. Outcome per quote:
+ *    - verified:   span found, speaker confirmed
+ *    - corrected:  span found, a different speaker named → author replaced
+ *    - downgraded: span found, nobody credited → becomes an `insight`
+ *    - unverified: span not in the text → kept, but flagged for moderation
+ */
+
+import { AttributionEvidence, AttributionStatus, ExtractedByte } from '../types';
+
+const SPEAKER_WINDOW_CHARS = 250; // How far around the span to look for the speaker
+const MIN_QUOTE_WORDS = 4; // Shorter spans match too easily to count as evidence
+
+const NAME = `([A-Z][\\p{L}.'-]+(?:\\s+(?:[A-Z][\\p{L}.'-]+|de|van|von|da|del)){0,3})`;
+// Sentence openers the name pattern can't tell from a first name ("As Seneca put it")
+const LEADING_WORDS = /^(?:As|And|But|So|Then|When|While|Or|Here|Like)\s+/;
+const SPEECH_VERB = `(?:once\\s+)?(?:said|says|wrote|writes|put\\s+it|puts\\s+it|noted|notes|observed|argued|explained|remarked|quipped|tweeted)`;
+
+// Attribution right after the quote: `" — Seneca`, `", said Seneca`
+const SPEAKER_AFTER = [
+  new RegExp(`^[\\s"'”’).,!?]*[—–-]{1,2}\\s*${NAME}`, 'u'),
+  new RegExp(`^[\\s"'”’.,!?]*${SPEECH_VERB}\\s+${NAME}`, 'u'),
+  new RegExp(`^[\\s"'”’.,!?]*${NAME}\\s+${SPEECH_VERB}`, 'u'),
+];
+
+// Attribution right before the quote: `Seneca wrote: "`, `As Naval put it, "`
+const SPEAKER_BEFORE = [
+  new RegExp(`${NAME}\\s+${SPEECH_VERB}[^.!?"“]{0,40}[:,]?\\s*["“']?\\s*$`, 'u'),
+  new RegExp(`(?:according\\s+to|in\\s+the\\s+words\\s+of)\\s+${NAME}[:,]?\\s*["“']?\\s*$`, 'iu'),
+];
+
+export interface AttributionCheck {
+  status: AttributionStatus;
+  evidence: AttributionEvidence | null;
+  speaker: string | null;
+}
+
+/**
+ * Check every quote in an edition's bytes; other byte types pass through
+ */
+export function verifyAttributions(
+  bytes: ExtractedByte[],
+  textContent: string,
+  newsletterName: string
+): ExtractedByte[] {
+  return bytes.map((byte) => {
+    if (byte.type !== 'quote') return byte;
+
+    const check = checkQuote(byte, textContent, newsletterName);
+    const attributed = { ...byte, attributionStatus: check.status, attributionEvidence: check.evidence };
+
+    switch (check.status) {
+      case 'verified':
+        return attributed;
+      case 'corrected':
+        return { ...attributed, author: check.speaker };
+      case 'downgraded':
+        return { ...attributed, type: 'insight', author: null };
+      case 'unverified':
+        return { ...attributed, moderationStatus: 'flagged' };
+    }
+  });
+}
+
+export function checkQuote(
+  byte: Pick<ExtractedByte, 'content' | 'author'>,
+  textContent: string,
+  newsletterName: string
+): AttributionCheck {
+  const quote = stripAttribution(byte.content);
+  const span = findVerbatim(quote, textContent);
+
+  if (!span) {
+    return { status: 'unverified', evidence: null, speaker: null };
+  }
+
+  const before = textContent.slice(Math.max(0, span.start - SPEAKER_WINDOW_CHARS), span.start);
+  const after = textContent.slice(span.end, span.end + SPEAKER_WINDOW_CHARS);
+  const named = findSpeaker(before, after);
+  const claimed = byte.author?.trim() || null;
+
+  const evidence = (speaker: string | null): AttributionEvidence => ({
+    start: span.start,
+    end: span.end,
+    text: textContent.slice(span.start, span.end),
+    speaker,
+  });
+
+  if (named) {
+    return claimed && sameName(claimed, named)
+      ? { status: 'verified', evidence: evidence(named), speaker: claimed }
+      : { status: 'corrected', evidence: evidence(named), speaker: named };
+  }
+
+  // No explicit attribution: the claimed author has to at least be named nearby,
+  // and crediting the newsletter itself doesn't count
+  if (claimed && !sameName(claimed, newsletterName) && mentions(`${before} ${after}`, claimed)) {
+    return { status: 'verified', evidence: evidence(claimed), speaker: claimed };
+  }
+
+  return { status: 'downgraded', evidence: evidence(null), speaker: null };
+}
+
+/**
+ * Drop surrounding quote marks and a trailing "— Author"
+ */
+function stripAttribution(content: string): string {
+  return content
+    .trim()
+    .replace(/\s+[—–-]{1,2}\s*[A-Z][^.!?"”]{0,60}$/u, '')
+    .replace(/^["“'‘]+|["”'’]+$/g, '')
+    .trim();
+}
+
+/**
+ * Offsets of the quote in the text, comparing words only
+ */
+function findVerbatim(quote: string, text: string): { start: number; end: number } | null {
+  const needle = normalizeWithMap(quote).normalized;
+  if (needle.split(' ').length < MIN_QUOTE_WORDS) return null;
+
+  const haystack = normalizeWithMap(text);
+  const index = haystack.normalized.indexOf(needle);
+  if (index === -1) return null;
+
+  return {
+    start: haystack.offsets[index],
+    end: haystack.offsets[index + needle.length - 1] + 1,
+  };
+}
+
+/**
+ * Lowercase letters/digits with single spaces, plus each character's offset in the original
+ */
+function normalizeWithMap(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i].toLowerCase();
+
+    if (/[\p{L}\p{N}]/u.test(char)) {
+      normalized += char;
+      offsets.push(i);
+    } else if (normalized.length > 0 && !normalized.endsWith(' ')) {
+      normalized += ' ';
+      offsets.push(i);
+    }
+  }
+
+  if (normalized.endsWith(' ')) {
+    normalized = normalized.slice(0, -1);
+    offsets.pop();
+  }
+
+  return { normalized, offsets };
+}
+
+function findSpeaker(before: string, after: string): string | null {
+  for (const pattern of SPEAKER_AFTER) {
+    const match = after.match(pattern);
+    if (match) return cleanName(match[1]);
+  }
+  for (const pattern of SPEAKER_BEFORE) {
+    const match = before.match(pattern);
+    if (match) return cleanName(match[1]);
+  }
+  return null;
+}
+
+function cleanName(name: string): string {
+  return name.replace(LEADING_WORDS, '').replace(/[.'’-]+$/, '').trim();
+}
+
+// Same person if the surnames match ("Clear" vs "James Clear")
+function sameName(a: string, b: string): boolean {
+  const surname = (name: string) => name.toLowerCase().split(/\s+/).filter(Boolean).pop() || '';
+  const sa = surname(a);
+  return sa.length > 1 && (sa === surname(b) || b.toLowerCase().includes(sa));
+}
+
+function mentions(text: string, name: string): boolean {
+  const surname = name.trim().split(/\s+/).pop() || '';
+  if (surname.length < 3) return false;
+  return new RegExp(`\\b${surname.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text);
+}
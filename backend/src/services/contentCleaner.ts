@@ -0,0 +1,548 @@
+/**
+ * Content Cleaner - Strip newsletter boilerplate before extraction
+ *
+ * `htmlToText` keeps everything in the email. Editions arrive wrapped in
+ * "View in browser" bars, share buttons, sponsor blocks, social links,
+ * unsubscribe footers and tracking pixels. That costs tokens and leaks into
+ * bytes.
+ *
+ * Flow:
+ * 1. `processEdition` cleans an edition once, from its HTML (rawContent),
+ *    and stores the text, what was removed and the profile on the Edition
+ * 2. The platform is recognized from the sender or markers in the HTML, and
+ *    its profile removes the platform's own widgets by selector
+ * 3. Generic rules remove what every newsletter has: tracking pixels and
+ *    hidden preheaders, "view in browser" headers, share and social rows,
+ *    sponsor sections and footers. Header rules only look at the start of
+ *    the edition and footer rules only at the end.
+ * 4. What's left becomes text with paragraph breaks (so the chunker can split
+ *    on them); extraction, quote checks and passages all read it. Paragraphs
+ *    with affiliate links stay, and their spans are returned
+ *    (services/sponsorDetection)
+ *
+ * Plain-text editions (no HTML) get the same text rules, paragraph by
+ * paragraph. If cleaning would leave less than MIN_KEPT_SHARE of the words,
+ * a rule probably matched the body, and only tracking elements are removed.
+ */
+
+import * as cheerio from 'cheerio';
+import { SponsoredSpan, affiliateSponsor, isSponsorLabel, sponsorFromSection } from './sponsorDetection';
+
+export type SectionKind = 'header' | 'footer' | 'sponsor' | 'social' | 'widget' | 'tracking';
+
+export type PlatformName = 'substack' | 'beehiiv' | 'convertkit' | 'ghost';
+
+export interface RemovedSection {
+  kind: SectionKind;
+  rule: string; // Profile selector or generic rule that matched
+  text: string; // What was removed (truncated)
+  sponsorId?: string | null; // Sponsor sections only
+}
+
+export interface CleanedEdition {
+  text: string;
+  removed: RemovedSection[];
+  profile: PlatformName | null;
+  sponsoredSpans: SponsoredSpan[]; // Affiliate-linked paragraphs left in the text
+}
+
+interface PlatformProfile {
+  name: PlatformName;
+  sender: RegExp;
+  markers: RegExp[]; // Found in the platform's email HTML, for custom sender domains
+  sections: [selector: string, kind: SectionKind][];
+}
+
+interface TextRule {
+  kind: SectionKind;
+  rule: string;
+  pattern: RegExp;
+  maxChars: number;               // Longer blocks are content that happens to match
+  where: 'start' | 'end' | 'any'; // Part of the edition the block must be in
+}
+
+const MIN_KEPT_SHARE = 0.2;
+const EDGE_SHARE = 0.3;          // "start" and "end" = first and last 30% of the text
+const SPONSOR_LABEL_CHARS = 60;  // A label this short heads a section, not a paragraph
+const SPONSOR_MAX_CHARS = 1200;
+const SOCIAL_MAX_CHARS = 120;
+const MAX_REMOVED_TEXT = 500;
+
+const PLATFORM_PROFILES: PlatformProfile[] = [
+  {
+    name: 'substack',
+    sender: /@(?:[\w-]+\.)*substack\.com$/i,
+    markers: [/substackcdn\.com/i, /substack\.com\/(?:redirect|app-link)/i],
+    sections: [
+      ['.preamble', 'header'],                  // "Forwarded this email? Subscribe here"
+      ['.email-ufi', 'widget'],                 // Like / comment / restack row
+      ['.post-ufi', 'widget'],
+      ['.subscription-widget-wrap', 'widget'],
+      ['.button-wrapper', 'widget'],            // Subscribe / share / comment buttons
+      ['.footer', 'footer'],
+    ],
+  },
+  {
+    name: 'beehiiv',
+    sender: /@(?:[\w-]+\.)*beehiiv\.com$/i,
+    markers: [/media\.beehiiv\.com/i, /beehiiv\.com\/\?utm/i],
+    sections: [
+      ['#web-header', 'header'],                // "Read online" bar
+      ['.web-header', 'header'],
+      ['.recommendations', 'widget'],           // Boosted newsletters
+      ['[class*="footer"]', 'footer'],
+    ],
+  },
+  {
+    name: 'convertkit',
+    sender: /@(?:[\w-]+\.)*(?:convertkit-mail\d*\.com|ck\.page|kit\.com)$/i,
+    markers: [/convertkit\.com/i, /convertkit-mail\d*\.com/i, /ck\.page/i],
+    sections: [
+      ['.preheader', 'tracking'],
+      ['[class*="footer"]', 'footer'],
+    ],
+  },
+  {
+    name: 'ghost',
+    sender: /@(?:[\w-]+\.)*ghost\.io$/i,
+    markers: [/ghost\.io/i, /class="[^"]*\bsite-title\b/i, /class="[^"]*\bfeedback-buttons\b/i],
+    sections: [
+      ['.view-online', 'header'],
+      ['.site-info', 'header'],                 // Publication icon and title
+      ['.feedback-buttons', 'widget'],
+      ['.latest-posts-section', 'widget'],
+      ['.subscription-box', 'widget'],
+      ['.footer-powered', 'footer'],
+      ['.footer', 'footer'],
+    ],
+  },
+];
+
+const TEXT_RULES: TextRule[] = [
+  {
+    kind: 'header',
+    rule: 'view_in_browser',
+    pattern: /view (?:this (?:email|post|issue) )?(?:in (?:your |a )?browser|online)|read (?:it |this )?online|web version|trouble viewing|open in (?:the )?app/i,
+    maxChars: 200,
+    where: 'start',
+  },
+  {
+    kind: 'header',
+    rule: 'forwarded',
+    pattern: /forwarded this (?:email|message|newsletter)|was this (?:email )?forwarded to you/i,
+    maxChars: 200,
+    where: 'start',
+  },
+  {
+    kind: 'widget',
+    rule: 'share',
+    pattern: /^(?:share|like|comment|restack|leave a comment|forward to a friend|refer a friend)(?: this (?:post|email|issue|newsletter)| on \w+)?[.!]?$/i,
+    maxChars: 80,
+    where: 'any',
+  },
+  {
+    kind: 'footer',
+    rule: 'unsubscribe',
+    pattern: /unsubscribe|(?:manage|update) (?:your )?(?:email )?(?:preferences|subscription|profile)|opt out/i,
+    maxChars: 600,
+    where: 'end',
+  },
+  {
+    kind: 'footer',
+    rule: 'receiving',
+    pattern: /you['’]?re receiving this|you (?:are receiving|received) this|no longer (?:want|wish) to receive/i,
+    maxChars: 600,
+    where: 'end',
+  },
+  {
+    kind: 'footer',
+    rule: 'copyright',
+    pattern: /©|\(c\) \d{4}|copyright \d{4}|all rights reserved/i,
+    maxChars: 300,
+    where: 'end',
+  },
+];
+
+const SOCIAL_LINK = /^https?:\/\/(?:www\.)?(?:twitter\.com|x\.com|facebook\.com|linkedin\.com|instagram\.com|youtube\.com|tiktok\.com|threads\.net|bsky\.app)\b/i;
+
+const HIDDEN_STYLE = /display\s*:\s*none|visibility\s*:\s*hidden|max-height\s*:\s*0(?![.\d])|opacity\s*:\s*0(?![.\d])/i;
+
+const BLOCK_TAGS = [
+  'p', 'div', 'td', 'th', 'tr', 'table', 'tbody', 'li', 'ul', 'ol', 'section', 'article',
+  'header', 'footer', 'blockquote', 'center', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre',
+  'figure', 'figcaption', 'hr',
+];
+const BLOCK_SELECTOR = BLOCK_TAGS.join(',');
+const BLOCK_SET = new Set(BLOCK_TAGS);
+const SECTION_BREAK = new Set(['h1', 'h2', 'h3', 'h4', 'hr']);
+
+// Invisible padding email tools put after the preheader
+const INVISIBLE_CHARS = /[\u034f\u00ad\u200b-\u200d\u2060\ufeff]/g;
+
+// Private-use characters marking affiliate blocks through toText: start, then
+// a character encoding the sponsor's index; end
+const SPAN_START = '\ue000';
+const SPAN_END = '\ue001';
+const SPAN_ID_BASE = 0xe100;
+const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/g;
+
+/**
+ * Which platform sent the edition, from the sender or the HTML
+ */
+export function detectPlatform(html: string, senderEmail?: string): PlatformName | null {
+  const bySender = senderEmail && PLATFORM_PROFILES.find((p) => p.sender.test(senderEmail));
+  if (bySender) return bySender.name;
+
+  const byMarkers = PLATFORM_PROFILES.find((p) => p.markers.some((m) => m.test(html)));
+  return byMarkers?.name ?? null;
+}
+
+/**
+ * Clean an edition: from its HTML when there is any, else from its text
+ */
+export function cleanEdition(rawContent: string, textContent: string, senderEmail?: string): CleanedEdition {
+  if (/<[a-z][^>]*>/i.test(rawContent)) {
+    return cleanEditionHtml(rawContent, senderEmail);
+  }
+  return { ...cleanEditionText(textContent), profile: null };
+}
+
+/**
+ * Remove boilerplate from newsletter HTML and return the rest as text
+ */
+export function cleanEditionHtml(html: string, senderEmail?: string): CleanedEdition {
+  const profile = PLATFORM_PROFILES.find((p) => p.name === detectPlatform(html, senderEmail)) ?? null;
+  const $ = cheerio.load(html);
+  const removed: RemovedSection[] = [];
+
+  const remove: RemoveFn = (el, kind, rule, sponsorId) => {
+    const text = normalize($(el).text());
+    if (text || kind === 'tracking') {
+      removed.push({
+        kind,
+        rule,
+        text: truncate(text || $(el).attr('src') || ''),
+        ...(sponsorId !== undefined ? { sponsorId } : {}),
+      });
+    }
+    $(el).remove();
+  };
+
+  $('head, script, style, noscript, title').remove();
+  removeTracking($, remove);
+  const trackedOnly = toText($);
+
+  if (profile) {
+    for (const [selector, kind] of profile.sections) {
+      $(selector).each((_, el) => {
+        // Skip matches nested in something this selector already removed
+        if ($(el).parents(selector).length === 0) remove(el, kind, `${profile.name}:${selector}`);
+      });
+    }
+  }
+
+  removeSponsorSections($, remove);
+  removeSocialRows($, remove);
+  for (const rule of TEXT_RULES) {
+    removeTextRule($, rule, remove);
+  }
+
+  const sponsorIds = markAffiliateBlocks($);
+  const { text, spans } = extractSpans(toText($), sponsorIds);
+  if (wordCount(text) < wordCount(trackedOnly) * MIN_KEPT_SHARE) {
+    console.warn(`[Cleaner] Cleaning kept under ${MIN_KEPT_SHARE * 100}% of the text, using it uncleaned`);
+    return {
+      text: trackedOnly,
+      removed: removed.filter((r) => r.kind === 'tracking'),
+      profile: profile?.name ?? null,
+      sponsoredSpans: [],
+    };
+  }
+
+  return { text, removed, profile: profile?.name ?? null, sponsoredSpans: spans };
+}
+
+/**
+ * Remove boilerplate paragraphs from plain text
+ */
+export function cleanEditionText(text: string): Omit<CleanedEdition, 'profile'> {
+  const paragraphs = text
+    .replace(INVISIBLE_CHARS, '')
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+  const removed: RemovedSection[] = [];
+  const kept: string[] = [];
+  const spans: SponsoredSpan[] = [];
+  let keptLength = 0;
+
+  const starts: number[] = [];
+  let total = 0;
+  for (const paragraph of paragraphs) {
+    starts.push(total);
+    total += paragraph.length + 2;
+  }
+
+  for (let i = 0; i < paragraphs.length; i++) {
+    const flat = normalize(paragraphs[i]);
+
+    if (isSponsorLabel(flat)) {
+      // A sponsor label takes the paragraph after it along
+      const takesNext = flat.length <= SPONSOR_LABEL_CHARS && i + 1 < paragraphs.length;
+      const section = takesNext ? `${flat}\n\n${paragraphs[i + 1]}` : flat;
+      if (section.length <= SPONSOR_MAX_CHARS) {
+        removed.push({
+          kind: 'sponsor',
+          rule: takesNext ? 'sponsor_label' : 'sponsor_copy',
+          text: truncate(section),
+          sponsorId: sponsorFromSection(section, section.match(URL_PATTERN) || []),
+        });
+        if (takesNext) i++;
+        continue;
+      }
+    }
+
+    const position = total > 0 ? starts[i] / total : 0;
+    const rule = TEXT_RULES.find((r) => flat.length <= r.maxChars && inPlace(r, position) && r.pattern.test(flat));
+    if (rule) {
+      removed.push({ kind: rule.kind, rule: rule.rule, text: truncate(flat) });
+      continue;
+    }
+
+    const start = keptLength > 0 ? keptLength + 2 : 0;
+    const sponsorId = (paragraphs[i].match(URL_PATTERN) || []).map(affiliateSponsor).find(Boolean);
+    if (sponsorId) spans.push({ start, end: start + paragraphs[i].length, sponsorId });
+
+    kept.push(paragraphs[i]);
+    keptLength = start + paragraphs[i].length;
+  }
+
+  const cleaned = kept.join('\n\n');
+  if (wordCount(cleaned) < wordCount(text) * MIN_KEPT_SHARE) {
+    return { text: paragraphs.join('\n\n'), removed: [], sponsoredSpans: [] };
+  }
+  return { text: cleaned, removed, sponsoredSpans: spans };
+}
+
+// =============================================================================
+// HTML RULES
+// =============================================================================
+
+type RemoveFn = (el: any, kind: SectionKind, rule: string, sponsorId?: string | null) => void;
+
+function removeTracking($: cheerio.CheerioAPI, remove: RemoveFn): void {
+  $('img').each((_, el) => {
+    const width = parseInt($(el).attr('width') || '', 10);
+    const height = parseInt($(el).attr('height') || '', 10);
+    if (width <= 1 || height <= 1) remove(el, 'tracking', 'pixel');
+  });
+
+  $('[style]').each((_, el) => {
+    if (HIDDEN_STYLE.test($(el).attr('style') || '')) remove(el, 'tracking', 'hidden');
+  });
+}
+
+/**
+ * "Today's sponsor" and friends. A short label heads a section that runs
+ * until the next heading or rule; a longer block is the sponsor copy itself.
+ */
+function removeSponsorSections($: cheerio.CheerioAPI, remove: RemoveFn): void {
+  const labels = innermost($, (el) => {
+    const text = normalize($(el).text());
+    return text.length <= SPONSOR_MAX_CHARS && isSponsorLabel(text);
+  });
+
+  for (const label of labels) {
+    if (!label.parent) continue; // Removed with an earlier section
+
+    const text = normalize($(label).text());
+    if (text.length > SPONSOR_LABEL_CHARS) {
+      remove(label, 'sponsor', 'sponsor_copy', sponsorFromSection(text, linksIn($, [label])));
+      continue;
+    }
+
+    // The highest block that's still only the label, so its siblings are the copy
+    let head: any = label;
+    while (isBlock(head.parent) && normalize($(head.parent).text()) === text) head = head.parent;
+
+    const section: any[] = [head];
+    let length = text.length;
+    for (let next = $(head).next(); next.length > 0; next = next.next()) {
+      const node = next.get(0) as any;
+      if (SECTION_BREAK.has(node.name) || next.find([...SECTION_BREAK].join(',')).length > 0) break;
+      length += normalize(next.text()).length;
+      if (length > SPONSOR_MAX_CHARS) break;
+      section.push(node);
+    }
+
+    const sponsorId = sponsorFromSection(text, linksIn($, section));
+    section.forEach((el, i) => remove(el, 'sponsor', i === 0 ? 'sponsor_label' : 'sponsor_copy', sponsorId));
+  }
+}
+
+/**
+ * Rows of links to social networks with little else in them
+ */
+function removeSocialRows($: cheerio.CheerioAPI, remove: RemoveFn): void {
+  const rows = innermost($, (el) => {
+    const links = $(el).find('a[href]').filter((_, a) => SOCIAL_LINK.test($(a).attr('href') || ''));
+    return links.length >= 2 && normalize($(el).text()).length <= SOCIAL_MAX_CHARS;
+  });
+
+  for (const row of rows) {
+    if (row.parent) remove(widen($, row, SOCIAL_MAX_CHARS), 'social', 'social_links');
+  }
+}
+
+function removeTextRule($: cheerio.CheerioAPI, rule: TextRule, remove: RemoveFn): void {
+  const fullText = normalize($.root().text());
+
+  const blocks = innermost($, (el) => {
+    const text = normalize($(el).text());
+    if (text.length > rule.maxChars || !rule.pattern.test(text)) return false;
+    const index = fullText.indexOf(text);
+    return inPlace(rule, fullText.length > 0 && index >= 0 ? index / fullText.length : 0);
+  });
+
+  for (const block of blocks) {
+    if (block.parent) remove(widen($, block, rule.maxChars), rule.kind, rule.rule);
+  }
+}
+
+/**
+ * Wrap each block holding an affiliate link in span markers that survive
+ * toText. Returns the sponsorId for each marker, by index.
+ */
+function markAffiliateBlocks($: cheerio.CheerioAPI): string[] {
+  const sponsorIds: string[] = [];
+  const marked = new Set<any>();
+
+  $('a[href]').each((_, a) => {
+    const sponsorId = affiliateSponsor($(a).attr('href') || '');
+    const block = sponsorId ? $(a).closest(BLOCK_SELECTOR).get(0) : undefined;
+    if (!block || marked.has(block)) return;
+
+    marked.add(block);
+    $(block).prepend(SPAN_START + String.fromCharCode(SPAN_ID_BASE + sponsorIds.length));
+    $(block).append(SPAN_END);
+    sponsorIds.push(sponsorId);
+  });
+
+  return sponsorIds;
+}
+
+/**
+ * Take the span markers out of the text, keeping where they were
+ */
+function extractSpans(marked: string, sponsorIds: string[]): { text: string; spans: SponsoredSpan[] } {
+  const spans: SponsoredSpan[] = [];
+  const open: { start: number; sponsorId: string }[] = [];
+  let text = '';
+
+  for (let i = 0; i < marked.length; i++) {
+    const char = marked[i];
+    if (char === SPAN_START) {
+      open.push({ start: text.length, sponsorId: sponsorIds[marked.charCodeAt(++i) - SPAN_ID_BASE] });
+    } else if (char === SPAN_END) {
+      const span = open.pop();
+      if (span && text.length > span.start) spans.push({ ...span, end: text.length });
+    } else {
+      text += char;
+    }
+  }
+
+  return { text, spans: spans.sort((a, b) => a.start - b.start) };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function linksIn($: cheerio.CheerioAPI, elements: any[]): string[] {
+  return $(elements).find('a[href]').addBack('a[href]').toArray().map((a) => $(a).attr('href') || '');
+}
+
+/**
+ * Blocks that match, leaving out any that contain a smaller match
+ */
+function innermost($: cheerio.CheerioAPI, matches: (el: any) => boolean): any[] {
+  const found = new Set($(BLOCK_SELECTOR).toArray().filter(matches));
+  return [...found].filter((el) => !$(el).find(BLOCK_SELECTOR).toArray().some((child) => found.has(child)));
+}
+
+/**
+ * The largest block around `el` still within maxChars, so a footer goes as a
+ * whole rather than line by line. Stops short of a block holding a heading:
+ * once other sections are removed, a short article can share a wrapper with
+ * the footer.
+ */
+function widen($: cheerio.CheerioAPI, el: any, maxChars: number): any {
+  const breaks = [...SECTION_BREAK].join(',');
+  let block = el;
+  while (
+    isBlock(block.parent) &&
+    normalize($(block.parent).text()).length <= maxChars &&
+    $(block.parent).find(breaks).length === 0
+  ) {
+    block = block.parent;
+  }
+  return block;
+}
+
+function isBlock(node: any): boolean {
+  return !!node && node.type === 'tag' && BLOCK_SET.has(node.name);
+}
+
+function inPlace(rule: TextRule, position: number): boolean {
+  if (rule.where === 'start') return position <= EDGE_SHARE;
+  if (rule.where === 'end') return position >= 1 - EDGE_SHARE;
+  return true;
+}
+
+/**
+ * Text with a blank line between blocks and a line break per <br>
+ */
+function toText($: cheerio.CheerioAPI): string {
+  const parts: string[] = [];
+
+  const walk = (node: any) => {
+    if (node.type === 'text') {
+      parts.push(node.data.replace(/\s+/g, ' '));
+      return;
+    }
+    if (node.type !== 'tag' && node.type !== 'root') return;
+    if (node.name === 'br') {
+      parts.push('\n');
+      return;
+    }
+
+    const block = BLOCK_SET.has(node.name);
+    if (block) parts.push('\n\n');
+    (node.children || []).forEach(walk);
+    if (block) parts.push('\n\n');
+  };
+  walk($.root().get(0));
+
+  return parts
+    .join('')
+    .replace(INVISIBLE_CHARS, '')
+    .replace(new RegExp(`(${SPAN_START}[\\s\\S])\\s+`, 'g'), '$1') // Span markers hug their text
+    .replace(new RegExp(`\\s+${SPAN_END}`, 'g'), SPAN_END)
+    .split('\n')
+    .map((line) => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function normalize(text: string): string {
+  return text.replace(INVISIBLE_CHARS, '').replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_REMOVED_TEXT ? `${text.slice(0, MAX_REMOVED_TEXT)}…` : text;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
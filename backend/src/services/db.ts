@@ -24,4 +24,8 @@ try {
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export const prisma: any = prismaClient || mockDb;
 
+// Writing SQL NULL to a Json column needs Prisma's marker; plain null is rejected
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const jsonNull: any = prismaClient ? require('@prisma/client').Prisma.DbNull : null;
+
 export default prisma;
@@ -0,0 +1,279 @@
+/**
+ * Dedup - Near-duplicate detection across content bytes
+ *
+ * The same line (a James Clear quote, a reposted statistic) gets extracted
+ * from many editions with slightly different wording. Edition.contentHash
+ * only catches identical emails, so every byte also gets a MinHash
+ * fingerprint (utils/minhash) when it is saved.
+ *
+ * Flow:
+ * 1. processEdition calls `saveBytesWithDedup(tx, editionId, bytes)` for bytes
+ *    that aren't restating one the edition already has (./reextraction), in
+ *    the transaction that checks its lease
+ * 2. Each byte's fingerprint is compared with canonical bytes sharing an LSH band
+ * 3. Similarity >= MERGE_SIMILARITY → merged into the canonical byte. The
+ *    canonical row keeps its id, engagement, edition and sponsorship; its
+ *    wording becomes whichever version scored best, and the other version is
+ *    kept as a `merged` copy
+ * 4. Similarity >= REVIEW_SIMILARITY → saved and `flagged` for admin review
+ *    (GET /admin/duplicates, POST /admin/duplicates/:id/resolve)
+ *
+ * Merged copies never reach users: feed queries spread LIVE_BYTES (utils/liveBytes).
+ *
+ * Private inbox bytes are only compared with the same user's private bytes,
+ * so nothing merges across the private/public line. They are merged but never
+ * flagged: admin review would show them to an admin.
+ */
+
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { prisma, jsonNull } from './db';
+import { ExtractedByte } from '../types';
+import { fingerprint, signatureSimilarity, Fingerprint } from '../utils/minhash';
+
+export const MERGE_SIMILARITY = 0.75;
+export const REVIEW_SIMILARITY = 0.45;
+
+const MAX_CANDIDATES = 200;
+const BACKFILL_BATCH_SIZE = 500;
+
+export type DuplicateStatus = 'none' | 'flagged' | 'merged' | 'distinct';
+
+// Fields that make up a byte's wording; swapped when a better version is merged
+// in. The row's edition, category and sponsorship stay, so a merge never moves
+// a byte (and its engagement) to another source or makes it sponsored.
+const PHRASING_FIELDS = [
+  'content',
+  'type',
+  'author',
+  'context',
+  'qualityScore',
+  'attributionStatus',
+  'fingerprint',
+  'lshBands',
+  'extractionVersion',
+] as const;
+
+// Offsets into the row's own edition text: swapped only between bytes of the
+// same edition. Otherwise each row keeps the span of the same idea in its edition.
+const PASSAGE_FIELDS = ['passageStart', 'passageEnd', 'attributionEvidence'] as const;
+
+interface DuplicateMatch {
+  id: string;
+  similarity: number;
+}
+
+export interface DedupResult {
+  created: number;
+  merged: number;
+  flagged: number;
+}
+
+/**
+ * Save an edition's extracted bytes, merging or flagging near-duplicates.
+ * Runs in the caller's transaction, so the bytes are saved or rolled back together.
+ */
+export async function saveBytesWithDedup(
+  tx: Prisma.TransactionClient,
+  editionId: string,
+  bytes: ExtractedByte[],
+  extractionVersion?: number
+): Promise<DedupResult> {
+  const result: DedupResult = { created: 0, merged: 0, flagged: 0 };
+
+  const edition = await tx.edition.findUnique({
+    where: { id: editionId },
+    select: { source: { select: { ownerId: true } } },
+  });
+  const ownerId: string | null = edition?.source.ownerId ?? null;
+
+  // Sequential so later bytes in the edition are compared against earlier ones
+  for (const byte of bytes) {
+    const fp = fingerprint(byte.content);
+    const found = await findCanonicalMatch(tx, fp, { ownerId });
+    const match = ownerId && found && found.similarity < MERGE_SIMILARITY ? null : found;
+
+    const created = await tx.contentByte.create({
+      data: {
+        editionId,
+        content: byte.content,
+        type: byte.type,
+        author: byte.author,
+        context: byte.context,
+        category: byte.category,
+        qualityScore: byte.qualityScore,
+        attributionStatus: byte.attributionStatus,
+        attributionEvidence: (byte.attributionEvidence as unknown as Prisma.InputJsonObject) ?? undefined,
+        moderationStatus: byte.moderationStatus,
+        passageStart: byte.passage?.start,
+        passageEnd: byte.passage?.end,
+        isSponsored: byte.isSponsored ?? false,
+        sponsorId: byte.sponsorId ?? null,
+        fingerprint: fp.signature,
+        lshBands: fp.bands,
+        extractionVersion,
+        ...(match && match.similarity >= REVIEW_SIMILARITY && {
+          duplicateStatus: 'flagged',
+          duplicateOfId: match.id,
+          duplicateSimilarity: match.similarity,
+        }),
+      },
+    });
+
+    if (!match || match.similarity < REVIEW_SIMILARITY) {
+      result.created++;
+    } else if (match.similarity >= MERGE_SIMILARITY) {
+      await mergeInto(tx, created.id);
+      result.merged++;
+    } else {
+      result.flagged++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Most similar canonical byte above REVIEW_SIMILARITY, if any, among public
+ * bytes or (with ownerId) that user's private inbox bytes
+ */
+async function findCanonicalMatch(
+  db: Prisma.TransactionClient | PrismaClient,
+  fp: Fingerprint,
+  options: { ownerId?: string | null; excludeId?: string } = {}
+): Promise<DuplicateMatch | null> {
+  if (fp.bands.length === 0) return null; // Too short to compare
+
+  const candidates = await db.contentByte.findMany({
+    where: {
+      lshBands: { hasSome: fp.bands },
+      duplicateOfId: null,
+      archivedAt: null,
+      edition: { source: { ownerId: options.ownerId ?? null } },
+      ...(options.excludeId && { id: { not: options.excludeId } }),
+    },
+    select: { id: true, fingerprint: true },
+    take: MAX_CANDIDATES,
+  });
+
+  let best: DuplicateMatch | null = null;
+  for (const candidate of candidates) {
+    const similarity = signatureSimilarity(fp.signature, candidate.fingerprint);
+    if (similarity >= REVIEW_SIMILARITY && (!best || similarity > best.similarity)) {
+      best = { id: candidate.id, similarity };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Fold a flagged byte into its canonical byte, keeping the better-scored phrasing
+ * on the canonical row. Returns false if the byte isn't a pending duplicate.
+ */
+export async function mergeDuplicate(byteId: string): Promise<boolean> {
+  return prisma.$transaction((tx: Prisma.TransactionClient) => mergeInto(tx, byteId));
+}
+
+async function mergeInto(tx: Prisma.TransactionClient, byteId: string): Promise<boolean> {
+  const duplicate = await tx.contentByte.findUnique({ where: { id: byteId } });
+  if (!duplicate?.duplicateOfId || duplicate.duplicateStatus !== 'flagged') return false;
+
+  // Lock the canonical row so two merges into it apply one after another
+  await tx.$queryRaw`SELECT "id" FROM content_bytes WHERE "id" = ${duplicate.duplicateOfId} FOR UPDATE`;
+  const canonical = await tx.contentByte.findUnique({ where: { id: duplicate.duplicateOfId } });
+  if (!canonical) return false;
+
+  const swap = duplicate.qualityScore > canonical.qualityScore;
+  const sameEdition = duplicate.editionId === canonical.editionId;
+
+  await tx.contentByte.update({
+    where: { id: canonical.id },
+    data: swap ? phrasingOf(duplicate, sameEdition) : {},
+  });
+  await tx.contentByte.update({
+    where: { id: duplicate.id },
+    data: {
+      ...(swap ? phrasingOf(canonical, sameEdition) : {}),
+      duplicateStatus: 'merged',
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Admin decided a flagged byte is not a duplicate; it becomes canonical itself
+ */
+export async function dismissDuplicate(byteId: string): Promise<boolean> {
+  const result = await prisma.contentByte.updateMany({
+    where: { id: byteId, duplicateStatus: 'flagged' },
+    data: { duplicateStatus: 'distinct', duplicateOfId: null, duplicateSimilarity: null },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Canonical bytes with their duplicates, most recently changed first
+ */
+export async function getDuplicateClusters(options: { status?: 'flagged' | 'merged' | 'all'; limit?: number } = {}) {
+  const statuses: DuplicateStatus[] = !options.status || options.status === 'all'
+    ? ['flagged', 'merged']
+    : [options.status];
+
+  const source = { edition: { select: { id: true, subject: true, source: { select: { id: true, name: true } } } } };
+
+  return prisma.contentByte.findMany({
+    where: { duplicates: { some: { duplicateStatus: { in: statuses } } }, edition: { source: { ownerId: null } } },
+    include: {
+      ...source,
+      duplicates: {
+        where: { duplicateStatus: { in: statuses } },
+        include: source,
+        orderBy: { duplicateSimilarity: 'desc' },
+      },
+    },
+    orderBy: { updatedAt: 'desc' },
+    take: options.limit ?? 50,
+  });
+}
+
+/**
+ * Fingerprint bytes saved before dedup existed. Matches are only flagged:
+ * both bytes may already have engagement, so an admin decides. Private inbox
+ * bytes are fingerprinted but not matched, since they can't be flagged.
+ */
+export async function fingerprintExistingBytes(
+  limit: number = BACKFILL_BATCH_SIZE
+): Promise<{ fingerprinted: number; flagged: number }> {
+  const bytes = await prisma.contentByte.findMany({
+    where: { fingerprint: { isEmpty: true } },
+    select: { id: true, content: true, edition: { select: { source: { select: { ownerId: true } } } } },
+    orderBy: { createdAt: 'asc' }, // Older byte stays canonical
+    take: limit,
+  });
+
+  let flagged = 0;
+  for (const byte of bytes) {
+    const fp = fingerprint(byte.content);
+    const match = byte.edition.source.ownerId ? null : await findCanonicalMatch(prisma, fp, { excludeId: byte.id });
+
+    await prisma.contentByte.update({
+      where: { id: byte.id },
+      data: {
+        fingerprint: fp.signature,
+        lshBands: fp.bands,
+        ...(match && { duplicateStatus: 'flagged', duplicateOfId: match.id, duplicateSimilarity: match.similarity }),
+      },
+    });
+    if (match) flagged++;
+  }
+
+  return { fingerprinted: bytes.length, flagged };
+}
+
+function phrasingOf(row: Record<string, any>, withPassage: boolean): Record<string, any> {
+  const fields: readonly string[] = withPassage ? [...PHRASING_FIELDS, ...PASSAGE_FIELDS] : PHRASING_FIELDS;
+  const phrasing = Object.fromEntries(fields.map((field) => [field, row[field]]));
+  if (withPassage) phrasing.attributionEvidence = row.attributionEvidence ?? jsonNull;
+  return phrasing;
+}
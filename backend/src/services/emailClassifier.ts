@@ -1,8 +1,33 @@
 /**
  * Email Classification Service
  * Determines if an email is a legitimate newsletter or junk/promotional content
+ *
+ * The hand-written rules below are features of a logistic model, and their
+ * old scores are its priors. Admin labels move the weights from there:
+ *
+ * Flow:
+ * 1. `classifyIncomingEmail` (webhooks) turns an email into features: the
+ *    rules that fire, the sender domain, and subject words
+ * 2. P(newsletter) = sigmoid(sum of weights); below REJECT_BELOW it's junk.
+ *    With no trained model this rejects exactly what the rules used to.
+ *    An admin ingest rule for the sender (services/ingestRules) overrides it.
+ * 3. Every decision is stored as an EmailClassification with its features
+ * 4. Admins mark decisions right or wrong (forwarded-email review, or
+ *    /admin/email-classifier/decisions)
+ * 5. `trainClassifier` fits the weights to the labels with a Gaussian prior
+ *    centered on the rule scores, so a few labels nudge the rules instead of
+ *    replacing them, and saves a new EmailClassifierModel version
  */
 
+import { prisma } from './db';
+import {
+  IngestRuleMatch,
+  getActiveIngestRules,
+  invalidateIngestRules,
+  matchIngestRule,
+  recordRuleHit,
+} from './ingestRules';
+
 // Common patterns for junk/promotional emails
 const JUNK_PATTERNS = {
   // Promotional keywords in subject
@@ -78,184 +103,479 @@ const NEWSLETTER_PATTERNS = {
   ],
 };
 
+// Lightweight checks that used to reject before classification; now features
+const QUICK_PATTERNS = {
+  transactionalSubject: /\b(order|receipt|invoice|shipping|delivered|tracking|password|verify|confirm\s*email|activate)\b/i,
+  spamSubject: /\b(winner|lottery|casino|pills|viagra|bitcoin\s*giveaway|congratulations\s*you)\b/i,
+};
+
+// Rule feature -> prior weight (the old rule score). Learned-only features
+// (sender:*, word:*) start at 0.
+export const RULE_PRIORS: Record<string, number> = {
+  bias: 0,
+  'rule:trusted_platform': 3,
+  'rule:newsletter_subject': 2,
+  'rule:newsletter_content': 2,
+  'rule:over_1000_chars': 1,
+  'rule:over_3000_chars': 1,
+  'rule:promotional_subject': -2,
+  'rule:transactional': -5, // Used to reject regardless of other signals
+  'rule:spam_html': -1,
+  'rule:under_200_chars': -2,
+  'rule:promotional_domain': -1,
+  // Used to reject before classification
+  'rule:under_100_chars': -6,
+  'rule:transactional_subject_keyword': -6,
+  'rule:spam_subject_keyword': -6,
+};
+
+// Rules alone rejected at a score of -3 or lower; sigmoid(-2.5) keeps that line
+export const REJECT_BELOW = 0.076;
+
+const PRIOR_STRENGTH = 1; // Inverse variance of the prior around each rule weight
+const TRAINING_ITERATIONS = 500;
+const MIN_TRAINING_LABELS = 10;
+const MODEL_CACHE_MS = 60_000;
+const MAX_SUBJECT_WORDS = 12;
+const SUBJECT_STOPWORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'with', 'this', 'that', 'from', 'are', 'our', 'has', 'have', 'was', 'not',
+]);
+
+export interface EmailInput {
+  subject: string;
+  senderEmail: string;
+  senderName: string;
+  textContent: string;
+  htmlContent?: string;
+}
+
+export interface ClassifierModel {
+  version: number; // 0 = rule priors only
+  weights: Record<string, number>;
+}
+
 export interface ClassificationResult {
   isNewsletter: boolean;
   isJunk: boolean;
   confidence: number; // 0-1
   reason: string;
-  category?: 'newsletter' | 'promotional' | 'transactional' | 'spam' | 'unknown';
+  category?: 'newsletter' | 'promotional' | 'transactional' | 'spam' | 'blocked' | 'unknown';
+  probability: number; // P(newsletter)
+  logit: number;
+  features: string[];
+  modelVersion: number;
+  ingestRule?: IngestRuleMatch; // Set when an ingest rule made the decision
+  review?: boolean;             // An ingest rule wants an admin to look at it
 }
 
+export interface ClassifierMetrics {
+  evaluated: number;
+  accuracy: number | null;
+  newsletter: { precision: number | null; recall: number | null };
+  junk: { precision: number | null; recall: number | null };
+}
+
+const RULES_ONLY: ClassifierModel = { version: 0, weights: RULE_PRIORS };
+
+const RULE_REASONS: Record<string, string> = {
+  'rule:trusted_platform': 'Trusted newsletter platform',
+  'rule:newsletter_subject': 'Newsletter-style subject',
+  'rule:newsletter_content': 'Newsletter content patterns',
+  'rule:promotional_subject': 'Promotional subject',
+  'rule:transactional': 'Transactional email',
+  'rule:spam_html': 'Contains spam patterns',
+  'rule:under_200_chars': 'Very short content',
+  'rule:promotional_domain': 'Promotional sender domain',
+  'rule:under_100_chars': 'Content too short',
+  'rule:transactional_subject_keyword': 'Transactional subject keyword',
+  'rule:spam_subject_keyword': 'Spam detected',
+};
+
+// =============================================================================
+// FEATURES AND SCORING
+// =============================================================================
+
 /**
- * Classify an email as newsletter, junk, or unknown
+ * Names of the features an email has: rules that fire, its sender domain
+ * and the words of its subject
  */
-export function classifyEmail(
-  subject: string,
-  senderEmail: string,
-  senderName: string,
-  textContent: string,
-  htmlContent: string = ''
-): ClassificationResult {
-  let score = 0; // Positive = newsletter, Negative = junk
-  const reasons: string[] = [];
-
+export function extractEmailFeatures(email: EmailInput): string[] {
+  const { subject, senderEmail, textContent, htmlContent = '' } = email;
   const senderDomain = senderEmail.split('@')[1]?.toLowerCase() || '';
   const contentLength = textContent.length;
+  const features: string[] = [];
 
-  // ==========================================================================
-  // POSITIVE SIGNALS (Newsletter indicators)
-  // ==========================================================================
-
-  // Check if from trusted newsletter platform
   const isTrustedDomain = NEWSLETTER_PATTERNS.trustedDomains.some(
     domain => senderDomain.includes(domain) || senderEmail.includes(domain)
   );
-  if (isTrustedDomain) {
-    score += 3;
-    reasons.push('Trusted newsletter platform');
+  if (isTrustedDomain) features.push('rule:trusted_platform');
+  if (NEWSLETTER_PATTERNS.subjectPatterns.some(pattern => pattern.test(subject))) {
+    features.push('rule:newsletter_subject');
   }
-
-  // Check subject for newsletter patterns
-  const hasNewsletterSubject = NEWSLETTER_PATTERNS.subjectPatterns.some(
-    pattern => pattern.test(subject)
-  );
-  if (hasNewsletterSubject) {
-    score += 2;
-    reasons.push('Newsletter-style subject');
+  if (NEWSLETTER_PATTERNS.contentPatterns.some(pattern => pattern.test(textContent))) {
+    features.push('rule:newsletter_content');
   }
+  if (contentLength > 1000) features.push('rule:over_1000_chars');
+  if (contentLength > 3000) features.push('rule:over_3000_chars');
 
-  // Check content for newsletter patterns
-  const hasNewsletterContent = NEWSLETTER_PATTERNS.contentPatterns.some(
-    pattern => pattern.test(textContent)
-  );
-  if (hasNewsletterContent) {
-    score += 2;
-    reasons.push('Newsletter content patterns');
+  if (JUNK_PATTERNS.subjectPatterns.some(pattern => pattern.test(subject))) {
+    features.push('rule:promotional_subject');
   }
-
-  // Decent content length (newsletters tend to be longer)
-  if (contentLength > 1000) {
-    score += 1;
+  if (JUNK_PATTERNS.transactionalPatterns.some(
+    pattern => pattern.test(subject) || pattern.test(textContent.slice(0, 500))
+  )) {
+    features.push('rule:transactional');
   }
-  if (contentLength > 3000) {
-    score += 1;
+  if (htmlContent && JUNK_PATTERNS.spamPatterns.some(pattern => pattern.test(htmlContent))) {
+    features.push('rule:spam_html');
   }
+  if (contentLength < 200) features.push('rule:under_200_chars');
+  if (contentLength < 100) features.push('rule:under_100_chars');
+  // Only penalize if not also a trusted domain
+  if (!isTrustedDomain && JUNK_PATTERNS.promotionalDomains.some(domain => senderDomain.includes(domain))) {
+    features.push('rule:promotional_domain');
+  }
+  if (QUICK_PATTERNS.transactionalSubject.test(subject)) features.push('rule:transactional_subject_keyword');
+  if (QUICK_PATTERNS.spamSubject.test(subject)) features.push('rule:spam_subject_keyword');
 
-  // ==========================================================================
-  // NEGATIVE SIGNALS (Junk/promotional indicators)
-  // ==========================================================================
+  if (senderDomain) features.push(`sender:${senderDomain}`);
 
-  // Check for promotional subject patterns
-  const hasPromotionalSubject = JUNK_PATTERNS.subjectPatterns.some(
-    pattern => pattern.test(subject)
+  const words = new Set(
+    (subject.toLowerCase().match(/[a-z][a-z']{2,}/g) || []).filter((w) => !SUBJECT_STOPWORDS.has(w))
   );
-  if (hasPromotionalSubject) {
-    score -= 2;
-    reasons.push('Promotional subject');
-  }
+  features.push(...[...words].slice(0, MAX_SUBJECT_WORDS).map((w) => `word:${w}`));
 
-  // Check for transactional patterns
-  const isTransactional = JUNK_PATTERNS.transactionalPatterns.some(
-    pattern => pattern.test(subject) || pattern.test(textContent.slice(0, 500))
-  );
-  if (isTransactional) {
-    score -= 3;
-    reasons.push('Transactional email');
-  }
+  return features;
+}
 
-  // Check HTML for spam patterns
-  if (htmlContent) {
-    const hasSpamPatterns = JUNK_PATTERNS.spamPatterns.some(
-      pattern => pattern.test(htmlContent)
-    );
-    if (hasSpamPatterns) {
-      score -= 1;
-      reasons.push('Contains spam patterns');
-    }
-  }
+function weightOf(model: ClassifierModel, feature: string): number {
+  return model.weights[feature] ?? RULE_PRIORS[feature] ?? 0;
+}
 
-  // Very short content is suspicious
-  if (contentLength < 200) {
-    score -= 2;
-    reasons.push('Very short content');
-  }
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
 
-  // Check sender domain
-  const isPromoDomaion = JUNK_PATTERNS.promotionalDomains.some(
-    domain => senderDomain.includes(domain)
-  );
-  if (isPromoDomaion && !isTrustedDomain) {
-    // Only penalize if not also a trusted domain
-    score -= 1;
-    reasons.push('Promotional sender domain');
+export function scoreFeatures(features: string[], model: ClassifierModel): number {
+  return features.reduce((sum, f) => sum + weightOf(model, f), weightOf(model, 'bias'));
+}
+
+/**
+ * Classify an email as newsletter, junk, or unknown. A matching ingest rule
+ * decides before the model; the model's score is still kept for training.
+ */
+export function classifyEmail(
+  email: EmailInput,
+  model: ClassifierModel = RULES_ONLY,
+  rules: IngestRuleMatch[] = []
+): ClassificationResult {
+  const features = extractEmailFeatures(email);
+  const result = classifyFeatures(features, model);
+
+  const rule = matchIngestRule(email.senderEmail, rules);
+  if (!rule) return result;
+
+  const reason = `Ingest rule: ${rule.action} ${rule.matchType} ${rule.pattern}`;
+
+  switch (rule.action) {
+    case 'accept':
+      return {
+        ...result,
+        isNewsletter: true,
+        isJunk: false,
+        confidence: 1,
+        reason,
+        category: 'newsletter',
+        ingestRule: rule,
+      };
+    case 'reject':
+      return {
+        ...result,
+        isNewsletter: false,
+        isJunk: true,
+        confidence: 1,
+        reason,
+        category: 'blocked',
+        ingestRule: rule,
+      };
+    case 'review':
+      return {
+        ...result,
+        isJunk: false,
+        reason: `${reason} (model: ${result.reason})`,
+        ingestRule: rule,
+        review: true,
+      };
   }
+}
+
+function classifyFeatures(features: string[], model: ClassifierModel): ClassificationResult {
+  const logit = scoreFeatures(features, model);
+  const probability = sigmoid(logit);
+  const isJunk = probability < REJECT_BELOW;
 
-  // ==========================================================================
-  // FINAL CLASSIFICATION
-  // ==========================================================================
+  // Strongest contributions explain the decision
+  const reasons = features
+    .filter((f) => RULE_REASONS[f] && Math.sign(weightOf(model, f)) === (isJunk ? -1 : 1))
+    .sort((a, b) => Math.abs(weightOf(model, b)) - Math.abs(weightOf(model, a)))
+    .map((f) => RULE_REASONS[f]);
 
-  // Determine category and confidence
   let category: ClassificationResult['category'];
-  let confidence: number;
-
-  if (score >= 3) {
-    category = 'newsletter';
-    confidence = Math.min(0.95, 0.6 + score * 0.1);
-  } else if (score <= -3) {
-    category = isTransactional ? 'transactional' : 'promotional';
-    confidence = Math.min(0.95, 0.6 + Math.abs(score) * 0.1);
-  } else if (score < 0) {
-    category = 'promotional';
-    confidence = 0.5 + Math.abs(score) * 0.1;
+  if (isJunk) {
+    if (features.includes('rule:spam_subject_keyword')) category = 'spam';
+    else if (features.includes('rule:transactional') || features.includes('rule:transactional_subject_keyword')) {
+      category = 'transactional';
+    } else category = 'promotional';
   } else {
-    category = 'unknown';
-    confidence = 0.5;
-  }
-
-  // Special case: transactional emails should be rejected regardless of other signals
-  if (isTransactional) {
-    return {
-      isNewsletter: false,
-      isJunk: true,
-      confidence: 0.85,
-      reason: 'Transactional email (orders, receipts, account notifications)',
-      category: 'transactional',
-    };
+    category = probability >= 0.95 ? 'newsletter' : 'unknown';
   }
 
   return {
-    isNewsletter: score > 0,
-    isJunk: score < 0,
-    confidence,
+    isNewsletter: !isJunk && probability >= 0.5,
+    isJunk,
+    confidence: isJunk ? 1 - probability : probability,
     reason: reasons.length > 0 ? reasons.join(', ') : 'No strong indicators',
     category,
+    probability,
+    logit,
+    features,
+    modelVersion: model.version,
   };
 }
 
+// =============================================================================
+// DECISIONS
+// =============================================================================
+
+let cachedModel: { model: ClassifierModel; loadedAt: number } | null = null;
+
 /**
- * Quick check if email should be processed (lightweight check)
+ * Newest trained model, or the rule priors when none is trained yet
  */
-export function shouldProcessEmail(
-  subject: string,
-  senderEmail: string,
-  contentLength: number
-): { process: boolean; reason?: string } {
-  // Always reject very short emails
-  if (contentLength < 100) {
-    return { process: false, reason: 'Content too short' };
+export async function getActiveModel(): Promise<ClassifierModel> {
+  if (cachedModel && Date.now() - cachedModel.loadedAt < MODEL_CACHE_MS) {
+    return cachedModel.model;
   }
 
-  // Quick transactional check
-  const transactionalKeywords = /\b(order|receipt|invoice|shipping|delivered|tracking|password|verify|confirm\s*email|activate)\b/i;
-  if (transactionalKeywords.test(subject)) {
-    return { process: false, reason: 'Transactional email' };
+  const latest = await prisma.emailClassifierModel.findFirst({ orderBy: { version: 'desc' } });
+  const model = latest ? { version: latest.version, weights: latest.weights as Record<string, number> } : RULES_ONLY;
+
+  cachedModel = { model, loadedAt: Date.now() };
+  return model;
+}
+
+/**
+ * Classify incoming mail with the active model and record the decision
+ */
+export async function classifyIncomingEmail(
+  email: EmailInput,
+  context: { recipient: string; userId?: string }
+): Promise<ClassificationResult & { classificationId: string }> {
+  const model = await getActiveModel();
+
+  let decision: Awaited<ReturnType<typeof recordDecision>>;
+  try {
+    decision = await recordDecision(email, context, model);
+  } catch (error: any) {
+    // The cached rules can hold one another instance just deleted, failing the
+    // decision's foreign key: reload them and decide again without it
+    if (error?.code !== 'P2003') throw error;
+    invalidateIngestRules();
+    decision = await recordDecision(email, context, model);
   }
 
-  // Check for spam indicators in subject
-  const spamSubject = /\b(winner|lottery|casino|pills|viagra|bitcoin\s*giveaway|congratulations\s*you)\b/i;
-  if (spamSubject.test(subject)) {
-    return { process: false, reason: 'Spam detected' };
+  const { result, record } = decision;
+  if (result.ingestRule) {
+    console.log(
+      `[Classifier] Ingest rule ${result.ingestRule.id} (${result.ingestRule.action} ${result.ingestRule.pattern}) ` +
+      `matched ${email.senderEmail}, decision ${record.id}`
+    );
+    await recordRuleHit(result.ingestRule.id);
   }
 
-  return { process: true };
+  return { ...result, classificationId: record.id };
+}
+
+/**
+ * Classify with the active rules and save the decision
+ */
+async function recordDecision(email: EmailInput, context: { recipient: string; userId?: string }, model: ClassifierModel) {
+  // Nobody reviews private inbox mail, so review rules don't apply there
+  const rules = (await getActiveIngestRules()).filter((r) => !context.userId || r.action !== 'review');
+  const result = classifyEmail(email, model, rules);
+
+  const record = await prisma.emailClassification.create({
+    data: {
+      recipient: context.recipient,
+      userId: context.userId,
+      senderEmail: email.senderEmail,
+      subject: email.subject,
+      features: result.features,
+      logit: result.logit,
+      probability: result.probability,
+      accepted: !result.isJunk,
+      category: result.category ?? 'unknown',
+      reason: result.reason,
+      modelVersion: result.modelVersion,
+      ingestRuleId: result.ingestRule?.id,
+    },
+  });
+
+  return { result, record };
+}
+
+/**
+ * Admin feedback on a decision. Private inbox decisions can't be labeled.
+ * Returns false if there's no such decision.
+ */
+export async function labelClassification(id: string, correct: boolean, adminId: string): Promise<boolean> {
+  const decision = await prisma.emailClassification.findFirst({
+    where: { id, userId: null },
+    select: { accepted: true },
+  });
+  if (!decision) return false;
+
+  await prisma.emailClassification.update({
+    where: { id },
+    data: {
+      label: decision.accepted === correct ? 'newsletter' : 'junk',
+      labeledBy: adminId,
+      labeledAt: new Date(),
+    },
+  });
+  return true;
+}
+
+/**
+ * Recent decisions on generic-inbox mail, newest first
+ */
+export async function listClassifications(options: { accepted?: boolean; labeled?: boolean; limit?: number } = {}) {
+  return prisma.emailClassification.findMany({
+    where: {
+      userId: null,
+      ...(options.accepted !== undefined && { accepted: options.accepted }),
+      ...(options.labeled !== undefined && { label: options.labeled ? { not: null } : null }),
+    },
+    include: { forwardedEmail: { select: { id: true, status: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: options.limit ?? 50,
+  });
+}
+
+// =============================================================================
+// TRAINING AND EVALUATION
+// =============================================================================
+
+/**
+ * Fit weights to labeled examples: logistic regression with a Gaussian prior
+ * centered on the rule weights (MAP), by full-batch gradient descent
+ */
+export function fitWeights(
+  examples: { features: string[]; newsletter: boolean }[],
+  priors: Record<string, number> = RULE_PRIORS
+): Record<string, number> {
+  const weights: Record<string, number> = { ...priors };
+  for (const { features } of examples) {
+    for (const f of features) weights[f] ??= 0;
+  }
+  const names = Object.keys(weights);
+
+  // Step size bounded by the loss's curvature so descent can't overshoot
+  const maxFeatures = Math.max(1, ...examples.map((e) => e.features.length + 1));
+  const step = 1 / ((examples.length * maxFeatures) / 4 + PRIOR_STRENGTH);
+
+  const model: ClassifierModel = { version: 0, weights };
+
+  for (let i = 0; i < TRAINING_ITERATIONS; i++) {
+    const gradient: Record<string, number> = {};
+    for (const name of names) {
+      gradient[name] = PRIOR_STRENGTH * (weights[name] - (priors[name] ?? 0));
+    }
+
+    for (const { features, newsletter } of examples) {
+      const error = sigmoid(scoreFeatures(features, model)) - (newsletter ? 1 : 0);
+      gradient.bias += error;
+      for (const f of features) gradient[f] += error;
+    }
+
+    for (const name of names) weights[name] -= step * gradient[name];
+  }
+
+  return weights;
+}
+
+/**
+ * Train on every labeled decision and make the result the active model.
+ * Returns null when there are too few labels to learn from.
+ */
+export async function trainClassifier(): Promise<{ version: number; trainedOn: number; metrics: ClassifierMetrics } | null> {
+  const labeled = await prisma.emailClassification.findMany({
+    where: { label: { not: null } },
+    select: { features: true, label: true },
+  });
+  if (labeled.length < MIN_TRAINING_LABELS) return null;
+
+  const examples = labeled.map((l: any) => ({ features: l.features as string[], newsletter: l.label === 'newsletter' }));
+  const weights = fitWeights(examples);
+
+  const saved = await prisma.emailClassifierModel.create({
+    data: { weights, trainedOn: examples.length },
+  });
+  const model = { version: saved.version, weights };
+  cachedModel = { model, loadedAt: Date.now() };
+
+  console.log(`[Classifier] Trained model v${saved.version} on ${examples.length} labels`);
+  return { version: saved.version, trainedOn: examples.length, metrics: evaluate(examples, model) };
+}
+
+/**
+ * Precision and recall on the labeled set:
+ * - asDecided:   the decisions actually made when the mail arrived
+ * - activeModel: the active model re-scoring the same mail (in-sample for
+ *                the labels it was trained on)
+ * - rulesOnly:   the rule priors alone, as a baseline
+ */
+export async function getClassifierMetrics() {
+  const labeled = await prisma.emailClassification.findMany({
+    where: { label: { not: null } },
+    select: { features: true, label: true, accepted: true },
+  });
+  const model = await getActiveModel();
+  const examples = labeled.map((l: any) => ({ features: l.features as string[], newsletter: l.label === 'newsletter' }));
+
+  return {
+    labeled: labeled.length,
+    modelVersion: model.version,
+    asDecided: metricsFor(labeled.map((l: any) => ({ predicted: l.accepted as boolean, actual: l.label === 'newsletter' }))),
+    activeModel: evaluate(examples, model),
+    rulesOnly: evaluate(examples, RULES_ONLY),
+  };
+}
+
+function evaluate(examples: { features: string[]; newsletter: boolean }[], model: ClassifierModel): ClassifierMetrics {
+  return metricsFor(examples.map((e) => ({
+    predicted: !classifyFeatures(e.features, model).isJunk,
+    actual: e.newsletter,
+  })));
+}
+
+/**
+ * Precision/recall for both classes; predicted/actual are "is a newsletter"
+ */
+function metricsFor(rows: { predicted: boolean; actual: boolean }[]): ClassifierMetrics {
+  const count = (predicted: boolean, actual: boolean) =>
+    rows.filter((r) => r.predicted === predicted && r.actual === actual).length;
+  const ratio = (num: number, den: number) => (den > 0 ? num / den : null);
+
+  const tp = count(true, true);   // Newsletter kept
+  const fp = count(true, false);  // Junk let through
+  const fn = count(false, true);  // Newsletter rejected
+  const tn = count(false, false); // Junk rejected
+
+  return {
+    evaluated: rows.length,
+    accuracy: ratio(tp + tn, rows.length),
+    newsletter: { precision: ratio(tp, tp + fp), recall: ratio(tp, tp + fn) },
+    junk: { precision: ratio(tn, tn + fn), recall: ratio(tn, tn + fp) },
+  };
 }
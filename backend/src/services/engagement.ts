@@ -0,0 +1,409 @@
+/**
+ * Engagement - Atomic vote, save, share and view mutations
+ *
+ * Every mutation runs in one transaction that starts by creating-or-locking
+ * the user's UserEngagement row for the byte. Concurrent requests for the
+ * same user and byte (double clicks, two open tabs) therefore apply one after
+ * another, and the ContentByte counters move by the real change in state.
+ *
+ * Clients send an `Idempotency-Key` header; a retry with the same key returns
+ * the stored result instead of applying the mutation twice.
+ *
+ * Flow:
+ * 1. Route calls e.g. `applyVote(userId, byteId, vote, idempotencyKey)`
+ * 2. The key is claimed inside the transaction (a concurrent duplicate waits
+ *    on the unique index, then replays the stored result)
+ * 3. `lockEngagement` returns the engagement state before this mutation
+ * 4. Counters and engagement/trending scores are updated in the same transaction
+ * 5. `reconcileEngagementCounters` (POST /internal/reconcile-engagement)
+ *    recomputes the aggregates from UserEngagement and reports drift
+ */
+
+import crypto from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from './db';
+
+const IDEMPOTENCY_KEY_TTL_MS = 24 * 60 * 60 * 1000;
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+const RECONCILE_BATCH_SIZE = 1000;
+const MAX_REPORTED_DRIFT = 100;
+
+type CounterField = 'upvotes' | 'downvotes' | 'viewCount' | 'saveCount' | 'shareCount';
+const COUNTER_FIELDS: CounterField[] = ['upvotes', 'downvotes', 'viewCount', 'saveCount', 'shareCount'];
+
+// Shared with the bulk recompute in scoreRecompute.ts
+export const ENGAGEMENT_WEIGHTS: Record<CounterField, number> = {
+  upvotes: 1.0,
+  downvotes: -0.5,
+  viewCount: 0.01,
+  saveCount: 2.0,
+  shareCount: 3.0,
+};
+export const TRENDING_GRAVITY = 1.5;
+
+interface EngagementState {
+  vote: number;
+  isSaved: boolean;
+  isShared: boolean;
+  viewCount: number;
+  totalDwellTimeMs: number;
+}
+
+export interface MutationResult<T> {
+  result: T;
+  replayed: boolean; // True when an earlier request with the same key already applied it
+}
+
+export interface CounterDrift {
+  byteId: string;
+  field: CounterField;
+  stored: number;
+  actual: number;
+}
+
+export interface ReconcileReport {
+  checked: number;
+  driftedBytes: number;
+  fixed: number;
+  drift: CounterDrift[]; // First MAX_REPORTED_DRIFT mismatches
+}
+
+// =============================================================================
+// SCORES
+// =============================================================================
+
+/**
+ * Engagement and trending scores for a byte's current counters
+ */
+export function computeEngagementScores(
+  byte: Record<CounterField, number> & { createdAt: Date },
+  now: number = Date.now()
+): { engagementScore: number; trendingScore: number } {
+  const engagementScore = COUNTER_FIELDS.reduce(
+    (sum, field) => sum + byte[field] * ENGAGEMENT_WEIGHTS[field],
+    0
+  );
+
+  // Trending score with time decay
+  const hoursAgo = (now - new Date(byte.createdAt).getTime()) / (1000 * 60 * 60);
+  const trendingScore = engagementScore / Math.pow(hoursAgo + 2, TRENDING_GRAVITY);
+
+  return { engagementScore, trendingScore };
+}
+
+// =============================================================================
+// MUTATIONS
+// =============================================================================
+
+/**
+ * Set the user's vote (-1, 0 or 1)
+ * Returns null if the byte doesn't exist
+ */
+export async function applyVote(userId: string, byteId: string, vote: number, idempotencyKey?: string) {
+  return mutateEngagement(userId, byteId, `vote:${byteId}`, idempotencyKey, async (tx, previous) => {
+    const previousVote = previous.vote;
+
+    await tx.userEngagement.update({
+      where: { userId_byteId: { userId, byteId } },
+      data: { vote },
+    });
+
+    const byte = await applyCounterDeltas(tx, byteId, {
+      upvotes: (vote === 1 ? 1 : 0) - (previousVote === 1 ? 1 : 0),
+      downvotes: (vote === -1 ? 1 : 0) - (previousVote === -1 ? 1 : 0),
+    });
+
+    return { vote, previousVote, upvotes: byte.upvotes as number, downvotes: byte.downvotes as number };
+  });
+}
+
+/**
+ * Save or unsave a byte; `saved` undefined toggles the current state
+ * Returns null if the byte doesn't exist
+ */
+export async function setSaved(
+  userId: string,
+  byteId: string,
+  saved: boolean | undefined,
+  idempotencyKey?: string
+) {
+  return mutateEngagement(userId, byteId, `save:${byteId}`, idempotencyKey, async (tx, previous) => {
+    const wasSaved = previous.isSaved;
+    const isSaved = saved ?? !wasSaved;
+
+    if (isSaved !== wasSaved) {
+      await tx.userEngagement.update({
+        where: { userId_byteId: { userId, byteId } },
+        data: { isSaved },
+      });
+      await applyCounterDeltas(tx, byteId, { saveCount: isSaved ? 1 : -1 });
+    }
+
+    return { isSaved, wasSaved };
+  });
+}
+
+/**
+ * Record a share (counted once per user)
+ * Returns null if the byte doesn't exist
+ */
+export async function recordShare(userId: string, byteId: string, idempotencyKey?: string) {
+  return mutateEngagement(userId, byteId, `share:${byteId}`, idempotencyKey, async (tx, previous) => {
+    const firstShare = !previous.isShared;
+
+    if (firstShare) {
+      await tx.userEngagement.update({
+        where: { userId_byteId: { userId, byteId } },
+        data: { isShared: true },
+      });
+      await applyCounterDeltas(tx, byteId, { shareCount: 1 });
+    }
+
+    return { firstShare };
+  });
+}
+
+/**
+ * Record a view and its dwell time; only ever upgrades history to read
+ * Returns null if the byte doesn't exist
+ */
+export async function recordView(
+  userId: string,
+  byteId: string,
+  view: { dwellTimeMs?: number; isRead?: boolean },
+  idempotencyKey?: string
+) {
+  return mutateEngagement(userId, byteId, `view:${byteId}`, idempotencyKey, async (tx) => {
+    const dwellTimeMs = view.dwellTimeMs || 0;
+
+    const previousHistory = await tx.contentHistory.findUnique({
+      where: { userId_byteId: { userId, byteId } },
+      select: { isRead: true },
+    });
+    const wasRead: boolean = previousHistory?.isRead || false;
+
+    const engagement = await tx.userEngagement.update({
+      where: { userId_byteId: { userId, byteId } },
+      data: {
+        viewCount: { increment: 1 },
+        totalDwellTimeMs: { increment: dwellTimeMs },
+      },
+    });
+
+    // Views don't move the scores enough to rescore on every one
+    await tx.contentByte.update({
+      where: { id: byteId },
+      data: { viewCount: { increment: 1 } },
+    });
+
+    await tx.contentHistory.upsert({
+      where: { userId_byteId: { userId, byteId } },
+      create: { userId, byteId, dwellTimeMs, isRead: view.isRead || false },
+      update: {
+        shownAt: new Date(),
+        dwellTimeMs,
+        // Only upgrade to read, never downgrade
+        ...(view.isRead ? { isRead: true } : {}),
+      },
+    });
+
+    return { wasRead, totalDwellTimeMs: engagement.totalDwellTimeMs as number };
+  });
+}
+
+/**
+ * Run `apply` in a transaction holding the engagement row lock, at most once per idempotency key
+ */
+async function mutateEngagement<T>(
+  userId: string,
+  byteId: string,
+  scope: string,
+  idempotencyKey: string | undefined,
+  apply: (tx: Prisma.TransactionClient, previous: EngagementState) => Promise<T>
+): Promise<MutationResult<T> | null> {
+  if (idempotencyKey) {
+    const stored = await findStoredResult<T>(userId, scope, idempotencyKey);
+    if (stored) return stored;
+  }
+
+  const byte = await prisma.contentByte.findUnique({ where: { id: byteId }, select: { id: true } });
+  if (!byte) return null;
+
+  try {
+    const result: T = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Claimed first: a concurrent request with the same key blocks here until we commit
+      if (idempotencyKey) {
+        await tx.idempotencyKey.create({ data: { userId, scope, key: idempotencyKey } });
+      }
+
+      const previous = await lockEngagement(tx, userId, byteId);
+      const applied = await apply(tx, previous);
+
+      if (idempotencyKey) {
+        await tx.idempotencyKey.update({
+          where: { userId_scope_key: { userId, scope, key: idempotencyKey } },
+          data: { result: applied as Prisma.InputJsonValue },
+        });
+      }
+
+      return applied;
+    });
+
+    return { result, replayed: false };
+  } catch (error: any) {
+    // Lost the race to a duplicate request; it has committed by now
+    if (idempotencyKey && error?.code === 'P2002') {
+      const stored = await findStoredResult<T>(userId, scope, idempotencyKey);
+      if (stored) return stored;
+    }
+    throw error;
+  }
+}
+
+async function findStoredResult<T>(userId: string, scope: string, key: string): Promise<MutationResult<T> | null> {
+  const stored = await prisma.idempotencyKey.findUnique({
+    where: { userId_scope_key: { userId, scope, key } },
+  });
+
+  return stored?.result != null ? { result: stored.result as T, replayed: true } : null;
+}
+
+/**
+ * Create the engagement row if needed and lock it for the rest of the transaction
+ * Returns the state before the current mutation
+ */
+async function lockEngagement(tx: Prisma.TransactionClient, userId: string, byteId: string): Promise<EngagementState> {
+  const rows: EngagementState[] = await tx.$queryRaw`
+    INSERT INTO user_engagements ("id", "userId", "byteId", "updatedAt")
+    VALUES (${crypto.randomUUID()}, ${userId}, ${byteId}, NOW())
+    ON CONFLICT ("userId", "byteId") DO UPDATE SET "updatedAt" = NOW()
+    RETURNING "vote", "isSaved", "isShared", "viewCount", "totalDwellTimeMs"
+  `;
+  return rows[0];
+}
+
+/**
+ * Increment ContentByte counters and rescore from the updated row
+ */
+async function applyCounterDeltas(tx: Prisma.TransactionClient, byteId: string, deltas: Partial<Record<CounterField, number>>) {
+  const data = Object.fromEntries(
+    Object.entries(deltas)
+      .filter(([, delta]) => delta !== 0)
+      .map(([field, delta]) => [field, { increment: delta }])
+  );
+
+  if (Object.keys(data).length === 0) {
+    return tx.contentByte.findUnique({ where: { id: byteId } });
+  }
+
+  const byte = await tx.contentByte.update({ where: { id: byteId }, data });
+  return tx.contentByte.update({
+    where: { id: byteId },
+    data: computeEngagementScores(byte),
+  });
+}
+
+// =============================================================================
+// RECONCILIATION
+// =============================================================================
+
+/**
+ * Aggregate counters per byte straight from UserEngagement
+ */
+async function aggregateCounters(client: any, byteIds: string[]): Promise<Map<string, Record<CounterField, number>>> {
+  const rows: ({ byteId: string } & Record<CounterField, number>)[] = await client.$queryRaw`
+    SELECT
+      "byteId",
+      COUNT(*) FILTER (WHERE "vote" = 1)::int AS "upvotes",
+      COUNT(*) FILTER (WHERE "vote" = -1)::int AS "downvotes",
+      COALESCE(SUM("viewCount"), 0)::int AS "viewCount",
+      COUNT(*) FILTER (WHERE "isSaved")::int AS "saveCount",
+      COUNT(*) FILTER (WHERE "isShared")::int AS "shareCount"
+    FROM user_engagements
+    WHERE "byteId" = ANY(${byteIds})
+    GROUP BY "byteId"
+  `;
+
+  return new Map(rows.map(({ byteId, ...counters }) => [byteId, counters]));
+}
+
+const NO_ENGAGEMENT: Record<CounterField, number> = {
+  upvotes: 0,
+  downvotes: 0,
+  viewCount: 0,
+  saveCount: 0,
+  shareCount: 0,
+};
+
+/**
+ * Recompute ContentByte counters from UserEngagement and report (or fix) drift
+ */
+export async function reconcileEngagementCounters(options: { dryRun?: boolean } = {}): Promise<ReconcileReport> {
+  const report: ReconcileReport = { checked: 0, driftedBytes: 0, fixed: 0, drift: [] };
+  let afterId: string | undefined;
+
+  while (true) {
+    const bytes = await prisma.contentByte.findMany({
+      where: afterId ? { id: { gt: afterId } } : {},
+      select: { id: true, upvotes: true, downvotes: true, viewCount: true, saveCount: true, shareCount: true },
+      orderBy: { id: 'asc' },
+      take: RECONCILE_BATCH_SIZE,
+    });
+
+    if (bytes.length === 0) break;
+    afterId = bytes[bytes.length - 1].id;
+    report.checked += bytes.length;
+
+    const actual = await aggregateCounters(prisma, bytes.map((b: { id: string }) => b.id));
+
+    for (const byte of bytes) {
+      const counters = actual.get(byte.id) || NO_ENGAGEMENT;
+      const drifted = COUNTER_FIELDS.filter((field) => byte[field] !== counters[field]);
+      if (drifted.length === 0) continue;
+
+      report.driftedBytes++;
+      for (const field of drifted) {
+        if (report.drift.length < MAX_REPORTED_DRIFT) {
+          report.drift.push({ byteId: byte.id, field, stored: byte[field], actual: counters[field] });
+        }
+      }
+
+      if (!options.dryRun) {
+        await fixCounters(byte.id);
+        report.fixed++;
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Overwrite one byte's counters with the true aggregates
+ * Locking the ContentByte row first means any mutation still in flight either
+ * committed before the aggregate (and is counted) or increments after the fix
+ */
+async function fixCounters(byteId: string): Promise<void> {
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await tx.$queryRaw`SELECT "id" FROM content_bytes WHERE "id" = ${byteId} FOR UPDATE`;
+
+    const counters = (await aggregateCounters(tx, [byteId])).get(byteId) || NO_ENGAGEMENT;
+    const byte = await tx.contentByte.update({ where: { id: byteId }, data: counters });
+
+    await tx.contentByte.update({
+      where: { id: byteId },
+      data: computeEngagementScores(byte),
+    });
+  });
+}
+
+/**
+ * Delete idempotency keys past their retry window
+ */
+export async function pruneIdempotencyKeys(): Promise<number> {
+  const result = await prisma.idempotencyKey.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - IDEMPOTENCY_KEY_TTL_MS) } },
+  });
+  return result.count;
+}
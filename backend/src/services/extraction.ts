@@ -0,0 +1,343 @@
+/**
+ * Extraction - Turn newsletter editions into content bytes with an LLM
+ *
+ * Prompts live here; response schemas (including the byte length and
+ * quality thresholds) are in ./llm/schemas, and which provider and model run
+ * each task (extraction, categorization, audit) is decided by the registry
+ * in ./llm.
+ *
+ * Long editions are not truncated: they are split into sections
+ * (utils/editionChunker), each section is extracted on its own, and the
+ * results are merged, de-duplicated and ranked by quality. The byte budget
+ * is MAX_BYTES_PER_BUDGET for every WORDS_PER_BYTE_BUDGET words. A section
+ * that fails with a retryable error is left out; the edition fails only if
+ * every section does, or one fails permanently.
+ */
+
+import { completeTask, completeStructured, LlmTask, UsageContext } from './llm';
+import {
+  EXTRACTION_SCHEMA,
+  CATEGORIZATION_SCHEMA,
+  QUALITY_SCORE_SCHEMA,
+  ExtractionResponse,
+  CategorizationResponse,
+} from './llm/schemas';
+import { ProcessedEdition, ExtractedByte, ByteCategory } from '../types';
+import { chunkEdition, ChunkBoundary } from '../utils/editionChunker';
+import { formatFieldErrors } from '../utils/responseSchema';
+import { isRetryable } from './failureTriage';
+
+const MAX_BYTES_PER_BUDGET = 5;
+const WORDS_PER_BYTE_BUDGET = 3000;
+const DUPLICATE_SIMILARITY = 0.7; // Word-set Jaccard at which two bytes say the same thing
+
+// Extended result type that includes newsletter info and model tracking
+export interface ProcessedEditionWithSourceInfo extends ProcessedEdition {
+  newsletterInfo?: NewsletterInfo;
+  modelUsed?: string; // Model that answered, after any fallbacks
+  chunks?: ChunkBoundary[]; // Sections extracted separately, as offsets into textContent
+}
+
+// How extraction's model calls are made: what they're logged against, and
+// which model chain to use instead of the configured one
+export interface ExtractionCallOptions {
+  usage?: UsageContext;
+  models?: string | null;
+}
+
+export interface NewsletterInfo {
+  name: string;
+  website: string | null;
+}
+
+// =============================================================================
+// v3.0 CONTENT BYTE EXTRACTION
+// =============================================================================
+
+// Bump when the prompt, schema, chunking or content cleaning changes what
+// comes out, so older editions can be found and re-extracted
+// (POST /admin/editions/reprocess)
+export const EXTRACTION_VERSION = 3;
+
+const BYTE_EXTRACTION_PROMPT = `You are a master curator extracting transformative insights from newsletters. Your mission: find the ONE idea that could change how someone thinks or acts today.
+
+Think like the reader is opening a new tab, has 5 seconds, and needs something that:
+- Makes them pause and reflect
+- Challenges a belief they hold
+- Gives them a new lens to see the world
+- Inspires immediate action
+
+Return a JSON object:
+
+{
+  "summary": "A compelling 2-3 sentence summary capturing the newsletter's core value",
+  "readTimeMinutes": 5,
+  "bytes": [
+    {
+      "content": "The insight, rewritten to be punchy and memorable (1-4 sentences, max 100 words, readable in 20-30 seconds)",
+      "type": "quote|insight|statistic|action|takeaway|mental_model|counterintuitive",
+      "author": "Original author if this is a direct quote, otherwise null",
+      "context": "Brief context (5-8 words) e.g., 'on decision-making' or 'about creative work'",
+      "category": "wisdom|productivity|business|tech|life|creativity|leadership|finance|health|general",
+      "qualityScore": 0.85
+    }
+  ]
+}
+
+BYTE TYPES (pick the most fitting):
+- quote: A memorable statement worth remembering (requires author)
+- insight: A non-obvious truth that shifts perspective
+- statistic: A number that changes how you see something
+- action: A specific thing you can do TODAY
+- takeaway: A key lesson or principle
+- mental_model: A framework for thinking about problems
+- counterintuitive: Something that goes against common wisdom
+
+WHAT MAKES A GREAT BYTE:
+✓ "The best time to plant a tree was 20 years ago. The second best time is now."
+✓ "You don't rise to the level of your goals; you fall to the level of your systems."
+✓ "1% better every day = 37x better in a year"
+✓ "Ask 'What would this look like if it were easy?'"
+✗ "The author discusses various productivity techniques" (too vague)
+✗ "There are many ways to improve your life" (no substance)
+✗ "Click here to learn more about..." (promotional)
+
+EXTRACTION RULES:
+1. Quality over quantity: 2-5 EXCEPTIONAL bytes beat 10 mediocre ones
+2. REWRITE for impact: Don't just copy-paste. Distill the essence into memorable form
+3. TIMELESS over timely: Skip news, dates, "this week", "recently"
+4. STANDALONE: If it needs the article to make sense, skip it
+5. ACTIONABLE preferred: "Do X" beats "X is important"
+6. SPECIFIC beats generic: "Walk 10 mins after meals" beats "Exercise more"
+7. SKIP promotional content, CTAs, and self-references to the newsletter
+
+SCORING:
+- 0.95+: Life-changing insight, universally applicable, memorable phrasing
+- 0.85-0.94: Excellent insight, most people would save/share this
+- 0.75-0.84: Good insight, valuable to interested readers
+- 0.65-0.74: Decent but needs more context or is somewhat niche
+- Below 0.65: Don't include
+
+Return ONLY valid JSON, no markdown or explanation.`;
+
+/**
+ * Extract content bytes from a newsletter edition, section by section if it's long
+ */
+export async function extractEdition(
+  subject: string,
+  textContent: string,
+  sourceName: string,
+  extractSourceInfo: boolean = false,
+  calls: ExtractionCallOptions = {}
+): Promise<ProcessedEditionWithSourceInfo> {
+  try {
+    const chunks = chunkEdition(textContent);
+    console.log(`[AI] Extracting bytes for: ${sourceName}${chunks.length > 1 ? ` (${chunks.length} sections)` : ''}`);
+
+    // Sequential to stay inside provider rate limits. A section that fails
+    // with a retryable error is skipped while others succeed; a permanent
+    // error, or every section failing, fails the edition
+    const sections: SectionExtraction[] = [];
+    const failures: unknown[] = [];
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      try {
+        sections.push(
+          await extractSection(subject, textContent.slice(chunk.start, chunk.end), sourceName, {
+            index: i,
+            total: chunks.length,
+            heading: chunk.heading,
+          }, calls)
+        );
+      } catch (error) {
+        if (!isRetryable(error)) throw error;
+        console.warn(`[AI] Section ${i + 1} of ${chunks.length} failed, keeping the others:`, error);
+        failures.push(error);
+      }
+    }
+    if (sections.length === 0) throw failures[0];
+
+    const wordCount = textContent.split(/\s+/).filter(Boolean).length;
+    const maxBytes = MAX_BYTES_PER_BUDGET * Math.max(1, Math.ceil(wordCount / WORDS_PER_BYTE_BUDGET));
+
+    return {
+      // The opening section's summary describes the edition best
+      summary: sections[0]?.summary || 'Newsletter content processed.',
+      readTimeMinutes: chunks.length === 1 && sections[0]?.readTimeMinutes
+        ? sections[0].readTimeMinutes
+        : Math.ceil(wordCount / 200),
+      bytes: mergeSectionBytes(sections.map((section) => section.bytes), maxBytes),
+      modelUsed: sections[0]?.model,
+      chunks,
+    };
+  } catch (error) {
+    console.error('Error extracting edition:', error);
+    throw error; // Unwrapped: the queue decides from the error type whether to retry
+  }
+}
+
+interface SectionExtraction {
+  summary?: string;
+  readTimeMinutes?: number;
+  bytes: ExtractedByte[];
+  model: string;
+}
+
+async function extractSection(
+  subject: string,
+  content: string,
+  sourceName: string,
+  section: { index: number; total: number; heading?: string },
+  calls: ExtractionCallOptions
+): Promise<SectionExtraction> {
+  const sectionLine = section.total > 1
+    ? `\nSection: ${section.index + 1} of ${section.total}${section.heading ? ` ("${section.heading}")` : ''}`
+    : '';
+
+  const { value, completion, dropped } = await completeStructured<ExtractionResponse>(
+    'extraction',
+    `${BYTE_EXTRACTION_PROMPT}
+
+Newsletter: ${sourceName}
+Subject: ${subject}${sectionLine}
+
+Content:
+${content}`,
+    EXTRACTION_SCHEMA,
+    {
+      maxTokens: 2048,
+      input: { subject, sourceName, content },
+      usage: calls.usage,
+      models: calls.models,
+    }
+  );
+
+  if (dropped.length > 0) {
+    console.log(`[AI] Dropped bytes below the schema thresholds:\n${formatFieldErrors(dropped)}`);
+  }
+
+  return {
+    summary: value.summary || undefined,
+    readTimeMinutes: value.readTimeMinutes,
+    bytes: value.bytes,
+    model: completion.model,
+  };
+}
+
+/**
+ * Best bytes across sections, dropping any that repeat a better one
+ */
+function mergeSectionBytes(sections: ExtractedByte[][], maxBytes: number): ExtractedByte[] {
+  const ranked = sections.flat().sort((a, b) => b.qualityScore - a.qualityScore);
+  const kept: { byte: ExtractedByte; words: Set<string> }[] = [];
+
+  for (const byte of ranked) {
+    if (kept.length >= maxBytes) break;
+
+    const words = wordSet(byte.content);
+    if (kept.some((k) => jaccard(k.words, words) >= DUPLICATE_SIMILARITY)) continue;
+
+    kept.push({ byte, words });
+  }
+
+  return kept.map((k) => k.byte);
+}
+
+function wordSet(content: string): Set<string> {
+  return new Set(content.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  const union = a.size + b.size - shared;
+  return union === 0 ? 1 : shared / union;
+}
+
+// =============================================================================
+// NEWSLETTER SOURCE CATEGORIZATION
+// =============================================================================
+
+const CATEGORIZE_SOURCE_PROMPT = `Analyze this newsletter and provide a brief categorization. Return JSON:
+
+{
+  "description": "A 1-sentence description of what this newsletter covers",
+  "category": "tech|business|productivity|wisdom|life|creativity|leadership|finance|health|general",
+  "tags": ["tag1", "tag2", "tag3"]
+}
+
+Be concise. Tags should be 1-2 words each. Return ONLY JSON.`;
+
+export async function categorizeNewsletterSource(
+  name: string,
+  sampleContent: string,
+  usage: UsageContext = {}
+): Promise<{ description: string; category: ByteCategory; tags: string[] }> {
+  try {
+    const { value } = await completeStructured<CategorizationResponse>(
+      'categorization',
+      `${CATEGORIZE_SOURCE_PROMPT}
+
+Newsletter Name: ${name}
+Sample Content (first 2000 chars):
+${sampleContent.slice(0, 2000)}`,
+      CATEGORIZATION_SCHEMA,
+      {
+        maxTokens: 256,
+        input: { name, content: sampleContent.slice(0, 2000) },
+        usage,
+      }
+    );
+
+    return {
+      description: value.description || `Newsletter from ${name}`,
+      category: value.category,
+      tags: value.tags || [],
+    };
+  } catch (error) {
+    console.error('Error categorizing source:', error);
+    return {
+      description: `Newsletter from ${name}`,
+      category: 'general',
+      tags: [],
+    };
+  }
+}
+
+// =============================================================================
+// UTILITY FUNCTIONS
+// =============================================================================
+
+/**
+ * Check that some model in the task's chain answers
+ */
+export async function testProviderConnection(task: LlmTask = 'extraction'): Promise<boolean> {
+  try {
+    const completion = await completeTask(task, 'Say "ok"', { maxTokens: 10 });
+    return completion.text.length > 0;
+  } catch (error) {
+    console.error(`${task} connection test failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Assess quality of a piece of content (used for moderation/filtering)
+ */
+export async function assessContentQuality(content: string, usage: UsageContext = {}): Promise<number> {
+  try {
+    const { value } = await completeStructured<number>(
+      'audit',
+      `Rate this content's quality from 0-100 (just the number):
+"${content.slice(0, 500)}"`,
+      QUALITY_SCORE_SCHEMA,
+      { maxTokens: 10, input: { content: content.slice(0, 500) }, usage }
+    );
+
+    return value / 100;
+  } catch (error) {
+    return 0.5; // Default mid-range score on error
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Failure Triage - Classify processing failures and work the dead-letter queue
+ *
+ * Every failed attempt records why it failed on the edition:
+ * - failureCause:   what kind of failure (see FailureCause)
+ * - errorSignature: the error with ids and numbers masked, so the same
+ *                   problem across many editions groups together
+ * - failedResponse: the raw model answer, when it was the answer that broke
+ *
+ * Editions out of attempts (or failed permanently) are dead letters. Admins
+ * see them grouped by signature (GET /admin/dead-letters) and act on each
+ * one: retry on another model chain, fix the cleaned text and retry, or
+ * discard.
+ * Private inbox editions are left out: admins never see their text.
+ */
+
+import { prisma, jsonNull } from './db';
+import { ModelChainError, ProviderError, StructuredOutputError } from './llm';
+
+const MIN_EDITION_WORDS = 50; // Too little text for any byte to pass the extraction rules
+const MAX_SIGNATURE_LENGTH = 200;
+const MAX_FAILED_RESPONSE_LENGTH = 20_000;
+const SAMPLE_EDITIONS_PER_GROUP = 5;
+
+const PUBLIC_EDITION = { source: { ownerId: null } };
+
+export type FailureCause =
+  | 'parse_error'       // Model answer wasn't JSON, even after repair
+  | 'invalid_response'  // JSON, but fields broke the schema after repair
+  | 'rate_limit'        // Provider returned 429
+  | 'provider_error'    // Provider down, overloaded or not configured
+  | 'content_rejected'  // Provider refused the request (too long, malformed)
+  | 'content_too_short' // Edition text has nothing to extract
+  | 'worker_lost'       // Worker died during the last allowed attempt
+  | 'unknown';
+
+export const FAILURE_CAUSES: FailureCause[] = [
+  'parse_error',
+  'invalid_response',
+  'rate_limit',
+  'provider_error',
+  'content_rejected',
+  'content_too_short',
+  'worker_lost',
+  'unknown',
+];
+
+/**
+ * The edition itself can't be processed; retrying it unchanged won't help
+ */
+export class UnprocessableEditionError extends Error {
+  constructor(public readonly failureCause: FailureCause, message: string) {
+    super(message);
+    this.name = 'UnprocessableEditionError';
+  }
+}
+
+export interface FailureDetails {
+  failureCause: FailureCause;
+  errorSignature: string;
+  failedResponse: string | null;
+  failedAt: Date;
+}
+
+/**
+ * Reject editions with too little text before spending a model call on them
+ */
+export function checkEditionContent(textContent: string): void {
+  const words = textContent.split(/\s+/).filter(Boolean).length;
+  if (words < MIN_EDITION_WORDS) {
+    throw new UnprocessableEditionError(
+      'content_too_short',
+      `Edition has ${words} words; at least ${MIN_EDITION_WORDS} are needed`
+    );
+  }
+}
+
+/**
+ * Worth another attempt later? Model output that failed its repair and
+ * requests the provider rejected won't get better; anything else might.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof StructuredOutputError || error instanceof UnprocessableEditionError) return false;
+  if (error instanceof ModelChainError || error instanceof ProviderError) return error.retryable;
+  return true;
+}
+
+export function classifyFailure(error: unknown): FailureCause {
+  if (error instanceof UnprocessableEditionError) {
+    return error.failureCause;
+  }
+  if (error instanceof StructuredOutputError) {
+    return error.errors.some((e) => e.path === '$' && e.message === 'is not valid JSON')
+      ? 'parse_error'
+      : 'invalid_response';
+  }
+  if (error instanceof ModelChainError) {
+    if (error.retryAfterMs !== undefined) return 'rate_limit'; // Only set by a 429
+    return error.retryable ? 'provider_error' : 'content_rejected';
+  }
+  if (error instanceof ProviderError) {
+    if (error.status === 429) return 'rate_limit';
+    return error.retryable ? 'provider_error' : 'content_rejected';
+  }
+  return 'unknown';
+}
+
+/**
+ * Error message with the parts that differ between occurrences masked
+ */
+export function errorSignature(message: string): string {
+  return message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<id>')
+    .replace(/\breq_[A-Za-z0-9]+/g, '<request>')
+    .replace(/"[^"]{40,}"/g, '"…"')
+    .replace(/(?<![\w.:-])\d+(\.\d+)?(?![\w-])/g, 'N') // Counts and statuses, not model ids
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_SIGNATURE_LENGTH);
+}
+
+/**
+ * Edition fields that clear a recorded failure, for retries and completion
+ */
+export const NO_FAILURE = {
+  processingError: null,
+  failureCause: null,
+  errorSignature: null,
+  failedResponse: null,
+  failedAt: null,
+};
+
+export function describeFailure(error: unknown): FailureDetails {
+  const message = error instanceof Error ? error.message : 'Unknown error';
+
+  return {
+    failureCause: classifyFailure(error),
+    errorSignature: errorSignature(message),
+    failedResponse: error instanceof StructuredOutputError
+      ? error.response.slice(0, MAX_FAILED_RESPONSE_LENGTH)
+      : null,
+    failedAt: new Date(),
+  };
+}
+
+// =============================================================================
+// DEAD LETTERS
+// =============================================================================
+
+const DEAD_LETTER_SUMMARY = {
+  id: true,
+  subject: true,
+  processAttempts: true,
+  processingError: true,
+  failureCause: true,
+  failedAt: true,
+  modelOverride: true,
+  source: { select: { id: true, name: true } },
+};
+
+/**
+ * Failed editions grouped by error signature, largest group first
+ */
+export async function getDeadLetterGroups(options: { cause?: FailureCause; sourceId?: string } = {}) {
+  const where = {
+    processingStatus: 'failed',
+    ...PUBLIC_EDITION,
+    ...(options.cause && { failureCause: options.cause }),
+    ...(options.sourceId && { sourceId: options.sourceId }),
+  };
+
+  const groups = await prisma.edition.groupBy({
+    by: ['errorSignature', 'failureCause'],
+    where,
+    _count: { _all: true },
+    _max: { failedAt: true },
+    orderBy: { _count: { id: 'desc' } },
+  });
+
+  return Promise.all(
+    groups.map(async (group) => ({
+      signature: group.errorSignature,
+      cause: group.failureCause ?? 'unknown',
+      count: group._count._all,
+      lastFailedAt: group._max.failedAt,
+      editions: await prisma.edition.findMany({
+        where: { ...where, errorSignature: group.errorSignature, failureCause: group.failureCause },
+        select: DEAD_LETTER_SUMMARY,
+        orderBy: { failedAt: 'desc' },
+        take: SAMPLE_EDITIONS_PER_GROUP,
+      }),
+    }))
+  );
+}
+
+/**
+ * One dead letter with its text and the model answer that broke
+ */
+export async function getDeadLetter(editionId: string) {
+  return prisma.edition.findFirst({
+    where: { id: editionId, processingStatus: { in: ['failed', 'discarded'] }, ...PUBLIC_EDITION },
+    select: {
+      ...DEAD_LETTER_SUMMARY,
+      errorSignature: true,
+      failedResponse: true,
+      textContent: true,
+      cleanedContent: true,
+      removedSections: true,
+      cleaningProfile: true,
+      url: true,
+      processedByModel: true,
+      receivedAt: true,
+    },
+  });
+}
+
+/**
+ * Send a dead letter back to the queue, optionally on another model chain
+ * and with corrected text. The corrected text is used as the cleaned text,
+ * as is. Returns false if it isn't a dead letter.
+ */
+export async function retryDeadLetter(
+  editionId: string,
+  changes: { models?: string | null; textContent?: string } = {}
+): Promise<boolean> {
+  const result = await prisma.edition.updateMany({
+    where: { id: editionId, processingStatus: { in: ['failed', 'discarded'] }, ...PUBLIC_EDITION },
+    data: {
+      processingStatus: 'pending',
+      processAttempts: 0,
+      nextAttemptAt: null,
+      ...NO_FAILURE,
+      modelOverride: changes.models || null,
+      // Span offsets were into the old text
+      ...(changes.textContent !== undefined && { cleanedContent: changes.textContent, sponsoredSpans: jsonNull }),
+    },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Drop a dead letter; it stays for the record but leaves the failed list
+ */
+export async function discardDeadLetter(editionId: string): Promise<boolean> {
+  const result = await prisma.edition.updateMany({
+    where: { id: editionId, processingStatus: 'failed', ...PUBLIC_EDITION },
+    data: { processingStatus: 'discarded' },
+  });
+
+  return result.count > 0;
+}
@@ -0,0 +1,117 @@
+/**
+ * Feed Explainer - "Why am I seeing this?"
+ *
+ * Turns a ranked candidate (score breakdown + raw signals from FeedRanker)
+ * into a short list of human-readable reasons. Personal reasons (a due
+ * review, a subscribed source) come first, then ranking factors ordered by
+ * how much they contributed to the score. Factors that sat near neutral are
+ * left out; a byte with nothing to report gets no reason.
+ */
+
+import { RankedCandidate, ScorerName } from './feedRanker';
+import { AffinityWeight } from './preferenceModel';
+import { RecommendationReason } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_FACTORS = 3;
+const LIKED_THRESHOLD = 0.6; // Affinity weight that reads as "you like"
+
+export interface ExplainContext {
+  subscribedSourceIds: Set<string>;
+  affinities: AffinityWeight[];
+  now?: number;
+}
+
+type Factor = RecommendationReason['factors'][number];
+
+/**
+ * Explain why a byte was ranked where it was, or null if nothing stood out
+ */
+export function explainRecommendation(item: RankedCandidate<any>, context: ExplainContext): RecommendationReason | null {
+  const byte = item.byte;
+  const now = context.now ?? Date.now();
+  const sourceId: string | undefined = byte.edition?.sourceId || byte.edition?.source?.id;
+  const sourceName: string = byte.edition?.source?.name || 'this source';
+
+  const personal: Factor[] = [];
+  if (byte.isReview) {
+    personal.push({ factor: 'review', label: 'From your saved bytes, due for review' });
+  }
+  if (sourceId && context.subscribedSourceIds.has(sourceId)) {
+    personal.push({ factor: 'subscription', label: `From ${sourceName}, which you subscribe to` });
+  }
+
+  const ranked = (Object.keys(item.breakdown) as ScorerName[])
+    .sort((a, b) => (item.breakdown[b] || 0) - (item.breakdown[a] || 0))
+    .map((name) => describeSignal(name, item.signals[name] ?? 0, byte, sourceName, context, now))
+    .filter((factor): factor is Factor => factor !== null);
+
+  const factors = [...personal, ...ranked].slice(0, MAX_FACTORS);
+
+  // Chronological feeds have no breakdown: they're ordered newest first
+  if (factors.length === 0 && Object.keys(item.breakdown).length === 0) {
+    factors.push({ factor: 'recency', label: 'Newest first' });
+  }
+
+  return factors.length > 0 ? { summary: factors[0].label, factors } : null;
+}
+
+function describeSignal(
+  name: ScorerName,
+  signal: number,
+  byte: any,
+  sourceName: string,
+  context: ExplainContext,
+  now: number
+): Factor | null {
+  switch (name) {
+    case 'quality':
+      return signal >= 0.8 ? { factor: name, label: 'Rated high quality' } : null;
+    case 'engagement': {
+      if (signal < 0.5) return null;
+      const isThisWeek = now - new Date(byte.createdAt).getTime() <= 7 * DAY_MS;
+      return {
+        factor: name,
+        label: isThisWeek && byte.upvotes > 0 ? 'Highly upvoted this week' : 'Popular with readers',
+      };
+    }
+    case 'trending':
+      return signal > 0 ? { factor: name, label: 'Trending right now' } : null;
+    case 'recency':
+      return signal >= 0.9 ? { factor: name, label: 'Just published' } : null;
+    case 'categoryAffinity':
+      return signal >= LIKED_THRESHOLD ? { factor: name, label: `You like ${byte.category} bytes` } : null;
+    case 'affinity':
+      return signal >= LIKED_THRESHOLD ? describeAffinity(byte, sourceName, context) : null;
+    default:
+      // Randomness only breaks ties; not a reason worth showing
+      return null;
+  }
+}
+
+/**
+ * Name the strongest learned affinity that matched this byte
+ */
+function describeAffinity(byte: any, sourceName: string, context: ExplainContext): Factor | null {
+  const sourceId = byte.edition?.sourceId || byte.edition?.source?.id;
+  const tags = new Set<string>((byte.tags || []).map((t: string) => t.toLowerCase()));
+
+  const best = context.affinities
+    .filter((a) =>
+      (a.dimension === 'type' && a.key === byte.type) ||
+      (a.dimension === 'source' && a.key === sourceId) ||
+      (a.dimension === 'tag' && tags.has(a.key))
+    )
+    .sort((a, b) => b.weight - a.weight)[0];
+
+  if (!best || best.weight < LIKED_THRESHOLD) return null;
+
+  switch (best.dimension) {
+    case 'type':
+      return { factor: 'affinity', label: `You like ${best.key} bytes` };
+    case 'source':
+      return { factor: 'affinity', label: `You often engage with ${sourceName}` };
+    default:
+      return { factor: 'affinity', label: `You like bytes tagged "${best.key}"` };
+  }
+}
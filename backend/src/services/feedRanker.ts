@@ -0,0 +1,494 @@
+/**
+ * Feed Ranking Service
+ *
+ * Single place where feed ordering is decided. Every feed endpoint
+ * (/feed, /feed/next, /discover/*) fetches a candidate pool from the
+ * database and hands it to the ranker with a named ranking profile.
+ *
+ * Flow:
+ * 1. Feed builder fetches `limit * profile.candidateMultiplier` candidates
+ *    ordered by `profile.candidateOrderBy`
+ * 2. Each enabled scorer produces a 0-1 signal per candidate
+ * 3. Signals are combined using the profile weights
+ * 4. Diversity caps (per source / per author) are applied to the sorted list
+ *
+ * Source diversity works at both ends: the `sourceDiversity` scorer demotes
+ * a source's later bytes in the pool, so one prolific source spreads over
+ * pages, and the caps keep any one page from being dominated. The caps can't
+ * be a scorer: a scorer's signal is fixed per candidate (keyset cursors rely
+ * on it), while a cap depends on what else made the page.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ScorerName =
+  | 'quality'
+  | 'engagement'
+  | 'categoryAffinity'
+  | 'affinity'
+  | 'recency'
+  | 'randomness'
+  | 'trending'
+  | 'sourceDiversity';
+
+export type RankingProfileName =
+  | 'personalized'
+  | 'popular'
+  | 'curated'
+  | 'trending'
+  | 'onboarding';
+
+// Minimal shape the ranker needs - works with Prisma rows and mock DB rows
+export interface RankingCandidate {
+  id: string;
+  category: string;
+  type?: string;
+  tags?: string[] | null;
+  author?: string | null;
+  qualityScore?: number | null;
+  engagementScore?: number | null;
+  trendingScore?: number | null;
+  createdAt: Date;
+  edition?: {
+    sourceId?: string;
+    source?: { id: string; name: string } | null;
+  } | null;
+}
+
+export interface RankedPage<T extends RankingCandidate = RankingCandidate> {
+  items: RankedCandidate<T>[];
+  // Key of the lowest-ranked returned item (null when the page is empty)
+  nextKey: RankingKey | null;
+  // Ids ranked above nextKey that were skipped by diversity caps
+  heldBack: string[];
+}
+
+export interface RankingContext {
+  // Category weights learned from engagement (0-1)
+  preferences?: { category: string; weight: number }[];
+  // Learned type / source / tag weights (0-1, 0.5 = neutral)
+  affinities?: { dimension: string; key: string; weight: number }[];
+  // Random value per byte id, injectable so results can be reproduced
+  random?: (byteId: string) => number;
+  // Reference time for recency calculations
+  now?: number;
+  // Only return candidates ranked strictly after this key (keyset pagination)
+  after?: RankingKey;
+  // Ids held back by diversity caps on the previous page; eligible despite `after`
+  heldBack?: string[];
+}
+
+// Position of a candidate in a ranked list; ties on score are broken by id (desc)
+export interface RankingKey {
+  score: number;
+  id: string;
+}
+
+export interface Scorer {
+  name: ScorerName;
+  score(candidate: RankingCandidate, context: ResolvedRankingContext): number;
+}
+
+export interface RankingProfile {
+  name: RankingProfileName;
+  version: number;
+  // Weight per scorer; scorers without a weight are skipped
+  weights: Partial<Record<ScorerName, number>>;
+  // Weights used instead when the user has no preferences yet (cold start)
+  coldStartWeights?: Partial<Record<ScorerName, number>>;
+  // How many candidates to fetch per requested result
+  candidateMultiplier: number;
+  // Database ordering for the candidate pool
+  candidateOrderBy: { [field: string]: 'asc' | 'desc' }[];
+  diversity?: {
+    maxPerSource?: number;
+    maxPerAuthor?: number;
+    // Fill up to limit with skipped candidates when caps leave gaps
+    backfill: boolean;
+  };
+}
+
+export interface RankedCandidate<T extends RankingCandidate = RankingCandidate> {
+  byte: T;
+  score: number;
+  // Weighted contribution of each scorer to `score`
+  breakdown: Partial<Record<ScorerName, number>>;
+  // Raw 0-1 signal of each scorer, before weighting
+  signals: Partial<Record<ScorerName, number>>;
+}
+
+export interface ResolvedRankingContext {
+  categoryWeights: Map<string, number>;
+  // Keyed by `${dimension}:${key}`
+  affinityWeights: Map<string, number>;
+  isColdStart: boolean;
+  random: (byteId: string) => number;
+  now: number;
+  // Bytes from the same source ahead of each candidate in the pool, by byte id
+  sourceRepeats: Map<string, number>;
+}
+
+// =============================================================================
+// SCORERS
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ENGAGEMENT_NORMALIZER = 100; // engagementScore at which the signal saturates
+const RECENCY_WINDOW_DAYS = 30;    // Recency signal decays to zero over 30 days
+const MAX_HELD_BACK = 20;          // Keeps pagination cursors small
+const SOURCE_REPEAT_DECAY = 0.5;   // Each earlier byte from the same source halves the signal
+
+const qualityScorer: Scorer = {
+  name: 'quality',
+  // AI-assessed quality (0-1), unscored bytes treated as average
+  score: (byte) => byte.qualityScore || 0.5,
+};
+
+const engagementScorer: Scorer = {
+  name: 'engagement',
+  score: (byte) => Math.min((byte.engagementScore || 0) / ENGAGEMENT_NORMALIZER, 1),
+};
+
+const categoryAffinityScorer: Scorer = {
+  name: 'categoryAffinity',
+  score: (byte, ctx) => ctx.categoryWeights.get(byte.category) ?? 0.5,
+};
+
+const affinityScorer: Scorer = {
+  name: 'affinity',
+  // Mean of the byte's type, source and tag affinities; unknown features are neutral
+  score: (byte, ctx) => {
+    const weightOf = (dimension: string, key: string) => ctx.affinityWeights.get(`${dimension}:${key}`) ?? 0.5;
+    const signals: number[] = [];
+
+    if (byte.type) signals.push(weightOf('type', byte.type));
+
+    const sourceId = byte.edition?.sourceId || byte.edition?.source?.id;
+    if (sourceId) signals.push(weightOf('source', sourceId));
+
+    if (byte.tags && byte.tags.length > 0) {
+      const tagWeights = byte.tags.map((tag) => weightOf('tag', tag.toLowerCase()));
+      signals.push(tagWeights.reduce((sum, w) => sum + w, 0) / tagWeights.length);
+    }
+
+    return signals.length > 0 ? signals.reduce((sum, w) => sum + w, 0) / signals.length : 0.5;
+  },
+};
+
+const recencyScorer: Scorer = {
+  name: 'recency',
+  score: (byte, ctx) => {
+    const ageInDays = (ctx.now - byte.createdAt.getTime()) / DAY_MS;
+    return Math.max(0, 1 - ageInDays / RECENCY_WINDOW_DAYS);
+  },
+};
+
+const randomnessScorer: Scorer = {
+  name: 'randomness',
+  // Breaks ties and prevents the same order on every request
+  score: (byte, ctx) => ctx.random(byte.id),
+};
+
+const trendingScorer: Scorer = {
+  name: 'trending',
+  score: (byte) => byte.trendingScore || 0,
+};
+
+const sourceDiversityScorer: Scorer = {
+  name: 'sourceDiversity',
+  // First byte from a source in the pool scores 1, the next 0.5, then 0.25...
+  score: (byte, ctx) => Math.pow(SOURCE_REPEAT_DECAY, ctx.sourceRepeats.get(byte.id) ?? 0),
+};
+
+// =============================================================================
+// RANKING PROFILES
+// =============================================================================
+
+/**
+ * Named, versioned ranking profiles. Bump `version` whenever weights change
+ * so logs and experiments can tell orderings apart.
+ */
+export const RANKING_PROFILES: Record<RankingProfileName, RankingProfile> = {
+  personalized: {
+    name: 'personalized',
+    version: 3,
+    // Learned preferences kept low combined to prevent a feedback loop
+    weights: {
+      quality: 0.2,
+      engagement: 0.15,
+      categoryAffinity: 0.15,
+      affinity: 0.1,
+      recency: 0.1,
+      randomness: 0.2,
+      sourceDiversity: 0.1,
+    },
+    // New users: rely on quality + community engagement
+    coldStartWeights: { quality: 0.4, engagement: 0.25, recency: 0.1, randomness: 0.15, sourceDiversity: 0.1 },
+    candidateMultiplier: 5,
+    candidateOrderBy: [{ qualityScore: 'desc' }, { engagementScore: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+    diversity: { maxPerSource: 2, maxPerAuthor: 2, backfill: true },
+  },
+  popular: {
+    name: 'popular',
+    version: 1,
+    // High-quality new content surfaces even without engagement
+    weights: { quality: 0.4, engagement: 0.6 },
+    candidateMultiplier: 2,
+    candidateOrderBy: [{ qualityScore: 'desc' }, { engagementScore: 'desc' }, { id: 'desc' }],
+  },
+  curated: {
+    name: 'curated',
+    version: 2,
+    weights: { quality: 0.5, engagement: 0.3, recency: 0.1, sourceDiversity: 0.1 },
+    candidateMultiplier: 3,
+    candidateOrderBy: [{ qualityScore: 'desc' }, { engagementScore: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+    diversity: { maxPerSource: 2, backfill: true },
+  },
+  trending: {
+    name: 'trending',
+    version: 1,
+    weights: { trending: 1 },
+    candidateMultiplier: 1,
+    candidateOrderBy: [{ trendingScore: 'desc' }, { id: 'desc' }],
+  },
+  onboarding: {
+    name: 'onboarding',
+    version: 1,
+    weights: { engagement: 0.6, quality: 0.4 },
+    candidateMultiplier: 1,
+    candidateOrderBy: [{ engagementScore: 'desc' }, { qualityScore: 'desc' }],
+  },
+};
+
+/**
+ * Get a ranking profile by name
+ */
+export function getRankingProfile(name: RankingProfileName): RankingProfile {
+  return RANKING_PROFILES[name];
+}
+
+// =============================================================================
+// RANKER
+// =============================================================================
+
+export class FeedRanker {
+  private scorers = new Map<ScorerName, Scorer>();
+
+  constructor(scorers: Scorer[] = DEFAULT_SCORERS) {
+    scorers.forEach((scorer) => this.registerScorer(scorer));
+  }
+
+  /**
+   * Register (or replace) a scorer
+   */
+  registerScorer(scorer: Scorer): void {
+    this.scorers.set(scorer.name, scorer);
+  }
+
+  /**
+   * Score, sort and diversify candidates according to a profile.
+   * Keeps the per-scorer breakdown for every returned candidate.
+   */
+  rank<T extends RankingCandidate>(
+    candidates: T[],
+    profile: RankingProfile,
+    limit: number,
+    context: RankingContext = {}
+  ): RankedCandidate<T>[] {
+    return this.rankPage(candidates, profile, limit, context).items;
+  }
+
+  /**
+   * Rank one page for keyset pagination.
+   * Returns the key to continue from and the ids that diversity caps held
+   * back above that key, so the next page can still show them.
+   */
+  rankPage<T extends RankingCandidate>(
+    candidates: T[],
+    profile: RankingProfile,
+    limit: number,
+    context: RankingContext = {}
+  ): RankedPage<T> {
+    const ctx = resolveContext(context, candidates);
+    const weights = ctx.isColdStart && profile.coldStartWeights
+      ? profile.coldStartWeights
+      : profile.weights;
+
+    const scored = candidates.map((byte) => {
+      const breakdown: Partial<Record<ScorerName, number>> = {};
+      const signals: Partial<Record<ScorerName, number>> = {};
+      let score = 0;
+
+      for (const [name, weight] of Object.entries(weights) as [ScorerName, number][]) {
+        const scorer = this.scorers.get(name);
+        if (!scorer || !weight) continue;
+
+        const signal = scorer.score(byte, ctx);
+        signals[name] = signal;
+        breakdown[name] = signal * weight;
+        score += signal * weight;
+      }
+
+      return { byte, score, breakdown, signals };
+    });
+
+    scored.sort((a, b) => compareRanked(toKey(a), toKey(b)));
+
+    const after = context.after;
+    const heldBackBefore = new Set(context.heldBack || []);
+    const remaining = after
+      ? scored.filter((item) => compareRanked(toKey(item), after) > 0 || heldBackBefore.has(item.byte.id))
+      : scored;
+
+    const items = applyDiversity(remaining, profile, limit);
+    const nextKey = lowestRankingKey(items);
+    const selected = new Set(items.map((item) => item.byte.id));
+    const heldBack = nextKey
+      ? remaining
+          .filter((item) => !selected.has(item.byte.id) && compareRanked(toKey(item), nextKey) < 0)
+          .slice(0, MAX_HELD_BACK)
+          .map((item) => item.byte.id)
+      : [];
+
+    return { items, nextKey, heldBack };
+  }
+}
+
+const DEFAULT_SCORERS: Scorer[] = [
+  qualityScorer,
+  engagementScorer,
+  categoryAffinityScorer,
+  affinityScorer,
+  recencyScorer,
+  randomnessScorer,
+  trendingScorer,
+  sourceDiversityScorer,
+];
+
+export const feedRanker = new FeedRanker();
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Deterministic per-byte random values for a seed, so a ranked feed can be
+ * paginated without reshuffling between pages (FNV-1a hash of seed + id)
+ */
+export function createSeededRandom(seed: string): (byteId: string) => number {
+  return (byteId: string) => {
+    let hash = 0x811c9dc5;
+    const input = `${seed}:${byteId}`;
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) / 0x100000000;
+  };
+}
+
+function resolveContext(context: RankingContext, candidates: RankingCandidate[]): ResolvedRankingContext {
+  const preferences = context.preferences || [];
+
+  // Counted in pool order (the profile's candidateOrderBy), which deeper pages
+  // only extend, so a byte's count doesn't change between pages
+  const perSource = new Map<string, number>();
+  const sourceRepeats = new Map<string, number>();
+  for (const byte of candidates) {
+    const sourceId = byte.edition?.source?.id || byte.edition?.sourceId;
+    if (!sourceId) continue;
+    const seen = perSource.get(sourceId) || 0;
+    sourceRepeats.set(byte.id, seen);
+    perSource.set(sourceId, seen + 1);
+  }
+
+  return {
+    categoryWeights: new Map(preferences.map((p) => [p.category, p.weight])),
+    affinityWeights: new Map((context.affinities || []).map((a) => [`${a.dimension}:${a.key}`, a.weight])),
+    isColdStart: preferences.length === 0,
+    random: context.random || (() => Math.random()),
+    now: context.now ?? Date.now(),
+    sourceRepeats,
+  };
+}
+
+/**
+ * Key of the lowest-ranked candidate in a page, used as the next cursor.
+ * Not necessarily the last item, since diversity backfill can reorder.
+ */
+function lowestRankingKey(ranked: RankedCandidate[]): RankingKey | null {
+  let lowest: RankingKey | null = null;
+  for (const item of ranked) {
+    const key = toKey(item);
+    if (!lowest || compareRanked(key, lowest) > 0) {
+      lowest = key;
+    }
+  }
+  return lowest;
+}
+
+function toKey(item: RankedCandidate): RankingKey {
+  return { score: item.score, id: item.byte.id };
+}
+
+/**
+ * Order by score desc, then id desc so equal scores always rank the same way.
+ * Returns a positive number when `a` ranks after `b`.
+ */
+function compareRanked(a: RankingKey, b: RankingKey): number {
+  if (a.score !== b.score) return b.score - a.score;
+  if (a.id === b.id) return 0;
+  return a.id < b.id ? 1 : -1;
+}
+
+/**
+ * Limit any single source/author per batch, optionally backfilling
+ * with skipped candidates when the caps leave the page short.
+ */
+function applyDiversity<T extends RankingCandidate>(
+  scored: RankedCandidate<T>[],
+  profile: RankingProfile,
+  limit: number
+): RankedCandidate<T>[] {
+  const diversity = profile.diversity;
+  if (!diversity) {
+    return scored.slice(0, limit);
+  }
+
+  const sourceCount = new Map<string, number>();
+  const authorCount = new Map<string, number>();
+  const results: RankedCandidate<T>[] = [];
+
+  for (const item of scored) {
+    if (results.length >= limit) break;
+
+    const sourceId = getSourceKey(item.byte);
+    const author = item.byte.author || item.byte.edition?.source?.name || 'unknown';
+    const currentSourceCount = sourceCount.get(sourceId) || 0;
+    const currentAuthorCount = authorCount.get(author) || 0;
+
+    if (diversity.maxPerSource !== undefined && currentSourceCount >= diversity.maxPerSource) continue;
+    if (diversity.maxPerAuthor !== undefined && currentAuthorCount >= diversity.maxPerAuthor) continue;
+
+    results.push(item);
+    sourceCount.set(sourceId, currentSourceCount + 1);
+    authorCount.set(author, currentAuthorCount + 1);
+  }
+
+  if (diversity.backfill && results.length < limit) {
+    for (const item of scored) {
+      if (results.length >= limit) break;
+      if (!results.includes(item)) {
+        results.push(item);
+      }
+    }
+  }
+
+  return results;
+}
+
+function getSourceKey(byte: RankingCandidate): string {
+  return byte.edition?.source?.id || byte.edition?.sourceId || 'unknown';
+}
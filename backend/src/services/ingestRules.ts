@@ -0,0 +1,106 @@
+/**
+ * Ingest Rules - Admin allow/deny lists for incoming mail
+ *
+ * The classifier's domain lists are code; these rules live in the database
+ * so admins can change them without a deploy (/admin/ingest-rules).
+ *
+ * Flow:
+ * 1. `classifyIncomingEmail` loads the active rules (cached briefly) and
+ *    `classifyEmail` checks them before any heuristic
+ * 2. The most specific match decides: an exact sender beats a domain, and a
+ *    longer domain beats a shorter one
+ *    - accept: the mail goes through whatever the model says
+ *    - reject: the mail is dropped (generic inbox: kept as `filtered`)
+ *    - review: generic-inbox mail goes to the admin review queue even if the
+ *              model would reject it. Admins can't review private inbox
+ *              mail, so there the model decides.
+ * 3. The decision's EmailClassification keeps the rule id, and the rule
+ *    counts its hits, so admins see which rule caught which email. A cached
+ *    rule deleted on another instance fails the decision's foreign key; the
+ *    mail is then classified again with the rules reloaded
+ */
+
+import { prisma } from './db';
+
+export type IngestRuleMatchType = 'sender' | 'domain';
+export type IngestRuleAction = 'accept' | 'reject' | 'review';
+
+export const INGEST_RULE_MATCH_TYPES: IngestRuleMatchType[] = ['sender', 'domain'];
+export const INGEST_RULE_ACTIONS: IngestRuleAction[] = ['accept', 'reject', 'review'];
+
+export interface IngestRuleMatch {
+  id: string;
+  matchType: IngestRuleMatchType;
+  pattern: string;
+  action: IngestRuleAction;
+}
+
+const RULE_CACHE_MS = 30_000;
+
+let cachedRules: { rules: IngestRuleMatch[]; loadedAt: number } | null = null;
+
+/**
+ * Lowercased address or bare domain ("@Example.com" and "*.example.com"
+ * become "example.com"). Returns null if it isn't one.
+ */
+export function normalizePattern(matchType: IngestRuleMatchType, pattern: string): string | null {
+  const value = pattern.trim().toLowerCase();
+
+  if (matchType === 'sender') {
+    return /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value) ? value : null;
+  }
+
+  const domain = value.replace(/^\*\./, '').replace(/^@/, '');
+  return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+}
+
+/**
+ * The most specific rule matching a sender, if any
+ */
+export function matchIngestRule(senderEmail: string, rules: IngestRuleMatch[]): IngestRuleMatch | null {
+  const sender = senderEmail.toLowerCase();
+  const domain = sender.split('@')[1] || '';
+
+  const exact = rules.find((r) => r.matchType === 'sender' && r.pattern === sender);
+  if (exact) return exact;
+
+  const domainMatches = rules.filter(
+    (r) => r.matchType === 'domain' && (domain === r.pattern || domain.endsWith(`.${r.pattern}`))
+  );
+  domainMatches.sort((a, b) => b.pattern.length - a.pattern.length);
+  return domainMatches[0] ?? null;
+}
+
+/**
+ * Active rules, cached so every email doesn't query them
+ */
+export async function getActiveIngestRules(): Promise<IngestRuleMatch[]> {
+  if (cachedRules && Date.now() - cachedRules.loadedAt < RULE_CACHE_MS) {
+    return cachedRules.rules;
+  }
+
+  const rules = await prisma.ingestRule.findMany({
+    where: { isActive: true },
+    select: { id: true, matchType: true, pattern: true, action: true },
+  });
+
+  cachedRules = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+/**
+ * Drop the cache after a rule changes (other instances pick it up within RULE_CACHE_MS)
+ */
+export function invalidateIngestRules(): void {
+  cachedRules = null;
+}
+
+/**
+ * Count a match; a no-op if the rule was deleted since it was cached
+ */
+export async function recordRuleHit(ruleId: string): Promise<void> {
+  await prisma.ingestRule.updateMany({
+    where: { id: ruleId },
+    data: { hitCount: { increment: 1 }, lastMatchedAt: new Date() },
+  });
+}
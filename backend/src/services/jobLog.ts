@@ -0,0 +1,87 @@
+/**
+ * Job Log - Record background job runs with timings and row counts
+ *
+ * Flow:
+ * 1. Internal endpoint calls `runLoggedJob('recompute-scores', run)`
+ * 2. A JobRun row is created as `running` (skipped if one is already running)
+ * 3. On return the job's stats are stored with `completed`; on throw the
+ *    error is stored with `failed` and rethrown
+ */
+
+import { prisma } from './db';
+
+// A run older than this is assumed to have died with its process
+const STALE_RUN_MS = 30 * 60 * 1000;
+
+export interface JobRunResult<T> {
+  runId: string;
+  durationMs: number;
+  stats: T;
+}
+
+/**
+ * Run a job and log it; returns null if the same job is already running
+ */
+export async function runLoggedJob<T extends object>(
+  job: string,
+  run: () => Promise<T>,
+  triggeredBy: 'scheduled' | 'manual' = 'scheduled'
+): Promise<JobRunResult<T> | null> {
+  const running = await prisma.jobRun.findFirst({
+    where: {
+      job,
+      status: 'running',
+      startedAt: { gte: new Date(Date.now() - STALE_RUN_MS) },
+    },
+  });
+
+  if (running) {
+    return null;
+  }
+
+  const jobRun = await prisma.jobRun.create({ data: { job, triggeredBy } });
+  const startTime = Date.now();
+
+  try {
+    const stats = await run();
+    const durationMs = Date.now() - startTime;
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: { status: 'completed', completedAt: new Date(), durationMs, stats },
+    });
+
+    return { runId: jobRun.id, durationMs, stats };
+  } catch (error) {
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: 'failed',
+        completedAt: new Date(),
+        durationMs: Date.now() - startTime,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Time one step of a job
+ */
+export async function timeStep<T>(run: () => Promise<T>): Promise<{ result: T; durationMs: number }> {
+  const startTime = Date.now();
+  const result = await run();
+  return { result, durationMs: Date.now() - startTime };
+}
+
+/**
+ * Most recent runs, newest first
+ */
+export async function getRecentJobRuns(job?: string, limit: number = 20) {
+  return prisma.jobRun.findMany({
+    where: job ? { job } : {},
+    orderBy: { startedAt: 'desc' },
+    take: limit,
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Anthropic Provider - Claude models via the Messages API
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { ExtractionProvider, CompletionRequest, CompletionResult, ProviderError } from './provider';
+
+// The request itself is at fault; sending it again won't help
+const PERMANENT_STATUSES = new Set([400, 413, 422]);
+
+export function createAnthropicProvider(
+  apiKey: string | undefined = process.env.ANTHROPIC_API_KEY
+): ExtractionProvider {
+  // Created on first use so offline runs don't need a key
+  let client: Anthropic | null = null;
+
+  return {
+    name: 'anthropic',
+
+    isAvailable: () => !!apiKey,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      client = client || new Anthropic({ apiKey });
+
+      let message: Anthropic.Message;
+      try {
+        message = await client.messages.create({
+          model: request.model,
+          max_tokens: request.maxTokens,
+          messages: [{ role: 'user', content: request.prompt }],
+        });
+      } catch (error) {
+        throw toProviderError(error);
+      }
+
+      return {
+        text: message.content[0]?.type === 'text' ? message.content[0].text : '',
+        provider: 'anthropic',
+        model: request.model,
+        inputTokens: message.usage?.input_tokens,
+        outputTokens: message.usage?.output_tokens,
+      };
+    },
+  };
+}
+
+/**
+ * Rate limits, overload (529), server errors and dropped connections are
+ * retryable; so are auth errors, which are fixed by config, not by the content
+ */
+function toProviderError(error: unknown): ProviderError {
+  if (!(error instanceof Anthropic.APIError)) {
+    return new ProviderError(error instanceof Error ? error.message : 'Unknown error', true);
+  }
+
+  const retryAfter = parseFloat(error.headers?.get('retry-after') ?? '');
+
+  return new ProviderError(
+    error.message,
+    error.status === undefined || !PERMANENT_STATUSES.has(error.status),
+    error.status,
+    isNaN(retryAfter) ? undefined : retryAfter * 1000
+  );
+}
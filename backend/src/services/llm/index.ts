@@ -0,0 +1,189 @@
+/**
+ * LLM Registry - Pick a provider and model per task, with fallbacks
+ *
+ * Each task (extraction, categorization, audit) has an ordered model list:
+ * the first entry is the primary, the rest are tried in order when it fails
+ * or its provider isn't available. Entries are `provider:model`.
+ *
+ * Config (environment):
+ *   LLM_EXTRACTION_MODELS="anthropic:claude-sonnet-4-20250514,anthropic:claude-haiku-4-5"
+ *   LLM_CATEGORIZATION_MODELS=...
+ *   LLM_AUDIT_MODELS=...
+ *   LLM_OFFLINE=true   - Every task uses the deterministic fixture provider
+ *
+ * Flow:
+ * 1. Caller runs `completeTask('extraction', prompt, { maxTokens, input })`
+ * 2. Registry resolves the task's model chain and tries each in order
+ * 3. The result says which provider and model answered
+ *
+ * Tasks that answer in JSON use `completeStructured` instead, which
+ * validates against a schema and asks for one repair (./structured).
+ *
+ * Every attempt is logged with its tokens, cost and latency (./usage), and
+ * waits for its provider's rate limiter (./rateLimiter).
+ */
+
+import { ExtractionProvider, CompletionResult, LlmTask, ProviderError } from './provider';
+import { createAnthropicProvider } from './anthropicProvider';
+import { createFixtureProvider } from './fixtureProvider';
+import { completeStructuredWith, StructuredResult } from './structured';
+import { recordUsage, UsageContext } from './usage';
+import { acquireProviderSlot, pauseProvider } from './rateLimiter';
+import { FieldSchema } from '../../utils/responseSchema';
+
+export type { ExtractionProvider, CompletionRequest, CompletionResult, LlmTask } from './provider';
+export type { StructuredResult } from './structured';
+export { StructuredOutputError } from './structured';
+export { ProviderError } from './provider';
+export { getLlmMetrics } from './metrics';
+export type { UsageContext, BudgetStatus, UsagePeriod } from './usage';
+export { getBudgetStatus, getUsageRollups } from './usage';
+
+export interface ModelSpec {
+  provider: string;
+  model: string;
+}
+
+const DEFAULT_MODELS: Record<LlmTask, string> = {
+  extraction: 'anthropic:claude-sonnet-4-20250514',
+  categorization: 'anthropic:claude-sonnet-4-20250514',
+  audit: 'anthropic:claude-sonnet-4-6',
+};
+
+const MODELS_ENV: Record<LlmTask, string> = {
+  extraction: 'LLM_EXTRACTION_MODELS',
+  categorization: 'LLM_CATEGORIZATION_MODELS',
+  audit: 'LLM_AUDIT_MODELS',
+};
+
+const OFFLINE_MODEL = 'fixture:fixture-v1';
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 30_000; // A 429 without Retry-After
+
+/**
+ * Every model in the task's chain failed. Retryable if any of them might
+ * succeed later (rate limited, overloaded, not configured right now).
+ */
+export class ModelChainError extends Error {
+  constructor(
+    task: LlmTask,
+    failures: string[],
+    public readonly retryable: boolean,
+    public readonly retryAfterMs?: number
+  ) {
+    super(`No model could complete ${task}: ${failures.join('; ')}`);
+    this.name = 'ModelChainError';
+  }
+}
+
+const providers = new Map<string, ExtractionProvider>();
+
+/**
+ * Add or replace a provider
+ */
+export function registerProvider(provider: ExtractionProvider): void {
+  providers.set(provider.name, provider);
+}
+
+registerProvider(createAnthropicProvider());
+registerProvider(createFixtureProvider());
+
+function parseModelSpec(spec: string): ModelSpec {
+  const separator = spec.indexOf(':');
+  // Bare model ids are Anthropic models, as before providers existed
+  return separator === -1
+    ? { provider: 'anthropic', model: spec }
+    : { provider: spec.slice(0, separator), model: spec.slice(separator + 1) };
+}
+
+/**
+ * Primary model first, then fallbacks. `override` (same format as the env
+ * lists) replaces the configured chain, e.g. to retry an edition elsewhere.
+ */
+export function getModelChain(task: LlmTask, override?: string | null): ModelSpec[] {
+  const configured = process.env.LLM_OFFLINE === 'true'
+    ? OFFLINE_MODEL
+    : override || process.env[MODELS_ENV[task]] || DEFAULT_MODELS[task];
+
+  return parseModelChain(configured);
+}
+
+export function parseModelChain(chain: string): ModelSpec[] {
+  return chain
+    .split(',')
+    .map((spec) => spec.trim())
+    .filter(Boolean)
+    .map(parseModelSpec);
+}
+
+/**
+ * Names of registered providers, for validating model chains from admins
+ */
+export function getProviderNames(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Run a task on the first model in its chain that succeeds
+ */
+export async function completeTask(
+  task: LlmTask,
+  prompt: string,
+  options: { maxTokens: number; input?: Record<string, string>; usage?: UsageContext; models?: string | null }
+): Promise<CompletionResult> {
+  const { usage, models, ...request } = options;
+  const failures: string[] = [];
+  let retryable = false;
+  let retryAfterMs: number | undefined;
+
+  for (const { provider: providerName, model } of getModelChain(task, models)) {
+    const provider = providers.get(providerName);
+
+    if (!provider) {
+      failures.push(`${providerName}:${model} (unknown provider)`);
+      continue;
+    }
+    if (!provider.isAvailable()) {
+      failures.push(`${providerName}:${model} (unavailable)`);
+      retryable = true;
+      continue;
+    }
+
+    await acquireProviderSlot(providerName);
+
+    const startTime = Date.now();
+    try {
+      const completion = await provider.complete({ task, model, prompt, ...request });
+      await recordUsage({ task, provider: providerName, model, latencyMs: Date.now() - startTime, completion, usage });
+      return completion;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await recordUsage({ task, provider: providerName, model, latencyMs: Date.now() - startTime, error: message, usage });
+      console.warn(`[LLM] ${task} failed on ${providerName}:${model}: ${message}`);
+      failures.push(`${providerName}:${model} (${message})`);
+
+      // Errors that aren't the provider's verdict (network, SDK bugs) may pass
+      const providerError = error instanceof ProviderError ? error : null;
+      retryable = retryable || !providerError || providerError.retryable;
+
+      if (providerError?.status === 429) {
+        const pauseMs = providerError.retryAfterMs ?? DEFAULT_RATE_LIMIT_PAUSE_MS;
+        pauseProvider(providerName, pauseMs);
+        retryAfterMs = Math.max(retryAfterMs ?? 0, pauseMs);
+      }
+    }
+  }
+
+  throw new ModelChainError(task, failures, retryable, retryAfterMs);
+}
+
+/**
+ * Run a task whose answer must match a schema, with one repair attempt
+ */
+export function completeStructured<T>(
+  task: LlmTask,
+  prompt: string,
+  schema: FieldSchema,
+  options: { maxTokens: number; input?: Record<string, string>; usage?: UsageContext; models?: string | null }
+): Promise<StructuredResult<T>> {
+  return completeStructuredWith<T>(completeTask, task, prompt, schema, options);
+}
@@ -0,0 +1,82 @@
+/**
+ * LLM Metrics - How often structured responses needed rescuing
+ *
+ * In-memory counters per task since the process started: which JSON parse
+ * strategy succeeded, how often validation failed, and how repairs went.
+ * A rising `cleaned` or repair count usually means a prompt or model change
+ * made the output worse.
+ */
+
+import { ParseStrategy } from '../../utils/jsonParser';
+import { LlmTask } from './provider';
+
+export interface TaskMetrics {
+  responses: number;
+  parseStrategies: Record<ParseStrategy, number>;
+  parseFailures: number;
+  validationFailures: number;
+  repairsAttempted: number;
+  repairsSucceeded: number;
+  repairsFailed: number;
+  itemsDropped: number;
+}
+
+export type LlmMetricEvent =
+  | { type: 'parsed'; strategy: ParseStrategy }
+  | { type: 'parse_failed' }
+  | { type: 'validation_failed' }
+  | { type: 'repair_attempted' }
+  | { type: 'repair_succeeded' }
+  | { type: 'repair_failed' }
+  | { type: 'items_dropped'; count: number };
+
+const startedAt = new Date();
+const metrics = new Map<LlmTask, TaskMetrics>();
+
+function emptyMetrics(): TaskMetrics {
+  return {
+    responses: 0,
+    parseStrategies: { direct: 0, code_block: 0, extracted: 0, cleaned: 0, comments_removed: 0 },
+    parseFailures: 0,
+    validationFailures: 0,
+    repairsAttempted: 0,
+    repairsSucceeded: 0,
+    repairsFailed: 0,
+    itemsDropped: 0,
+  };
+}
+
+export function recordLlmMetric(task: LlmTask, event: LlmMetricEvent): void {
+  const m = metrics.get(task) || emptyMetrics();
+  metrics.set(task, m);
+
+  switch (event.type) {
+    case 'parsed':
+      m.responses++;
+      m.parseStrategies[event.strategy]++;
+      break;
+    case 'parse_failed':
+      m.responses++;
+      m.parseFailures++;
+      break;
+    case 'validation_failed':
+      m.validationFailures++;
+      break;
+    case 'repair_attempted':
+      m.repairsAttempted++;
+      break;
+    case 'repair_succeeded':
+      m.repairsSucceeded++;
+      break;
+    case 'repair_failed':
+      m.repairsFailed++;
+      break;
+    case 'items_dropped':
+      m.itemsDropped += event.count;
+      break;
+  }
+}
+
+export function getLlmMetrics(): { since: string; tasks: Partial<Record<LlmTask, TaskMetrics>> } {
+  return { since: startedAt.toISOString(), tasks: Object.fromEntries(metrics) };
+}
@@ -0,0 +1,53 @@
+/**
+ * LLM Provider - Interface every model backend implements
+ *
+ * Callers never talk to a provider directly; they ask the registry
+ * (`completeTask` in ./index.ts) to run a task, and the registry walks the
+ * task's configured primary and fallback models.
+ */
+
+// What the model is being asked to do; each task has its own model list
+export type LlmTask = 'extraction' | 'categorization' | 'audit';
+
+export interface CompletionRequest {
+  task: LlmTask;
+  model: string;          // Provider-specific model id, e.g. "claude-sonnet-4-20250514"
+  prompt: string;
+  maxTokens: number;
+  // Structured inputs behind the prompt; offline providers build responses from these
+  input?: Record<string, string>;
+}
+
+export interface CompletionResult {
+  text: string;
+  provider: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface ExtractionProvider {
+  readonly name: string;
+
+  // False when the provider can't run here (e.g. no API key); the registry skips it
+  isAvailable(): boolean;
+
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+/**
+ * A provider call that failed. Retryable errors (rate limits, overload,
+ * outages) are worth trying again later; the rest (a request the API
+ * rejects, e.g. content too long) will fail the same way every time.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number // Provider asked us to wait this long
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
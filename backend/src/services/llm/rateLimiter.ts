@@ -0,0 +1,95 @@
+/**
+ * Rate Limiter - Token bucket per provider
+ *
+ * Every call waits for a token from its provider's bucket. Buckets refill
+ * continuously at the configured requests per minute and hold at most
+ * BURST_SECONDS worth, so concurrent queue workers spread their calls out
+ * instead of bursting into a 429. A 429 empties the bucket and pauses the
+ * provider for as long as it asked (Retry-After).
+ *
+ * Config (environment):
+ *   LLM_RATE_LIMITS="anthropic=50,fixture=0"   - requests per minute; 0 = unlimited
+ *
+ * Buckets are per process: with several backend instances, divide the
+ * provider's limit between them.
+ */
+
+const DEFAULT_RATE_LIMITS: Record<string, number> = {
+  anthropic: 50,
+  fixture: 0,
+};
+const BURST_SECONDS = 10;
+
+interface Bucket {
+  tokens: number;
+  capacity: number;
+  perMs: number; // Tokens added per millisecond
+  updatedAt: number;
+  pausedUntil: number;
+}
+
+const buckets = new Map<string, Bucket | null>(); // null = unlimited
+
+function parseRateLimits(): Record<string, number> {
+  const limits = { ...DEFAULT_RATE_LIMITS };
+
+  for (const entry of (process.env.LLM_RATE_LIMITS || '').split(',')) {
+    const [provider, value] = entry.split('=').map((part) => part.trim());
+    const perMinute = parseFloat(value);
+    if (provider && !isNaN(perMinute)) limits[provider] = perMinute;
+  }
+
+  return limits;
+}
+
+function getBucket(provider: string): Bucket | null {
+  if (!buckets.has(provider)) {
+    const perMinute = parseRateLimits()[provider] ?? 0;
+
+    buckets.set(provider, perMinute > 0
+      ? {
+          tokens: 1,
+          capacity: Math.max(1, Math.floor((perMinute * BURST_SECONDS) / 60)),
+          perMs: perMinute / 60_000,
+          updatedAt: Date.now(),
+          pausedUntil: 0,
+        }
+      : null);
+  }
+
+  return buckets.get(provider);
+}
+
+/**
+ * Wait until the provider may take another request
+ */
+export async function acquireProviderSlot(provider: string): Promise<void> {
+  const bucket = getBucket(provider);
+  if (!bucket) return;
+
+  for (;;) {
+    const now = Date.now();
+    bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.perMs);
+    bucket.updatedAt = now;
+
+    if (now >= bucket.pausedUntil && bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+
+    const waitMs = Math.max(bucket.pausedUntil - now, Math.ceil((1 - bucket.tokens) / bucket.perMs));
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+}
+
+/**
+ * The provider rate-limited us: stop sending until it's ready again
+ */
+export function pauseProvider(provider: string, ms: number): void {
+  const bucket = getBucket(provider);
+  if (!bucket) return;
+
+  bucket.tokens = 0;
+  bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + ms);
+  console.warn(`[LLM] ${provider} rate limited, pausing ${Math.round(ms / 1000)}s`);
+}
@@ -0,0 +1,137 @@
+/**
+ * Response Schemas - What each task's JSON answer must look like
+ *
+ * Thresholds that used to be hard-coded in the byte validator live in
+ * BYTE_RULES. A byte that breaks them is dropped, not repaired. A response
+ * whose bytes all score below minQualityScore is a valid empty answer; it
+ * only counts as invalid when every byte is malformed.
+ */
+
+import { FieldSchema } from '../../utils/responseSchema';
+import { ByteType, ByteCategory, ExtractedByte } from '../../types';
+
+export const BYTE_RULES = {
+  minContentLength: 30,
+  maxContentLength: 500,
+  minQualityScore: 0.65,
+  defaultQualityScore: 0.7, // When the model leaves the score out
+};
+
+export const BYTE_TYPES: readonly ByteType[] = [
+  'quote',
+  'insight',
+  'statistic',
+  'action',
+  'takeaway',
+  'mental_model',
+  'counterintuitive',
+];
+
+export const BYTE_CATEGORIES: readonly ByteCategory[] = [
+  'wisdom',
+  'productivity',
+  'business',
+  'tech',
+  'life',
+  'creativity',
+  'leadership',
+  'finance',
+  'health',
+  'general',
+];
+
+const CATEGORY_FIELD: FieldSchema = { type: 'enum', values: BYTE_CATEGORIES, fallback: 'general' };
+
+// =============================================================================
+// EXTRACTION
+// =============================================================================
+
+export interface ExtractionResponse {
+  summary: string | null;
+  readTimeMinutes?: number;
+  bytes: ExtractedByte[];
+}
+
+export const EXTRACTION_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    summary: { type: 'string', nullable: true },
+    readTimeMinutes: { type: 'number', optional: true, min: 1 },
+    bytes: {
+      type: 'array',
+      dropInvalidItems: true,
+      items: {
+        type: 'object',
+        fields: {
+          content: {
+            type: 'string',
+            minLength: BYTE_RULES.minContentLength,
+            maxLength: BYTE_RULES.maxContentLength,
+          },
+          type: { type: 'enum', values: BYTE_TYPES, fallback: 'insight' },
+          author: { type: 'string', nullable: true },
+          context: { type: 'string', nullable: true },
+          category: CATEGORY_FIELD,
+          qualityScore: {
+            type: 'number',
+            clamp: [0, 1],
+            dropBelow: BYTE_RULES.minQualityScore,
+            default: BYTE_RULES.defaultQualityScore,
+          },
+        },
+      },
+    },
+  },
+};
+
+// =============================================================================
+// CATEGORIZATION
+// =============================================================================
+
+export interface CategorizationResponse {
+  description: string | null;
+  category: ByteCategory;
+  tags?: string[];
+}
+
+export const CATEGORIZATION_SCHEMA: FieldSchema = {
+  type: 'object',
+  fields: {
+    description: { type: 'string', nullable: true },
+    category: CATEGORY_FIELD,
+    tags: {
+      type: 'array',
+      optional: true,
+      maxItems: 5,
+      dropInvalidItems: true,
+      items: { type: 'string', minLength: 1 },
+    },
+  },
+};
+
+// =============================================================================
+// AUDIT
+// =============================================================================
+
+export interface AuditScore {
+  id: string;
+  score: number;
+  reason: string | null;
+}
+
+// Batch audit: one 0-1 score per byte
+export const AUDIT_BATCH_SCHEMA: FieldSchema = {
+  type: 'array',
+  dropInvalidItems: true,
+  items: {
+    type: 'object',
+    fields: {
+      id: { type: 'string', minLength: 1 },
+      score: { type: 'number', clamp: [0, 1] },
+      reason: { type: 'string', nullable: true },
+    },
+  },
+};
+
+// Single-item quality check: a bare 0-100 number
+export const QUALITY_SCORE_SCHEMA: FieldSchema = { type: 'number', clamp: [0, 100] };
@@ -0,0 +1,120 @@
+/**
+ * Structured Completions - JSON answers checked against a schema
+ *
+ * Flow:
+ * 1. Run the task and parse the JSON (utils/jsonParser strategies)
+ * 2. Validate against the task's schema (utils/responseSchema)
+ * 3. If parsing or validation failed, send ONE repair request with the
+ *    previous answer and the field errors
+ * 4. Still invalid → StructuredOutputError with the field errors
+ *
+ * Every step is counted in ./metrics.
+ */
+
+import { parseAIResponseWithStrategy } from '../../utils/jsonParser';
+import { FieldSchema, FieldError, validateResponse, formatFieldErrors } from '../../utils/responseSchema';
+import { CompletionResult, LlmTask } from './provider';
+import { recordLlmMetric } from './metrics';
+import { UsageContext } from './usage';
+
+export interface StructuredResult<T> {
+  value: T;
+  completion: CompletionResult; // The completion the value came from
+  repaired: boolean;
+  dropped: FieldError[]; // Array items left out for breaking the schema
+}
+
+export class StructuredOutputError extends Error {
+  constructor(
+    task: LlmTask,
+    public readonly errors: FieldError[],
+    public readonly response: string // The repaired answer that still failed
+  ) {
+    super(`Invalid ${task} response after repair:\n${formatFieldErrors(errors)}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+type Complete = (
+  task: LlmTask,
+  prompt: string,
+  options: { maxTokens: number; input?: Record<string, string>; usage?: UsageContext; models?: string | null }
+) => Promise<CompletionResult>;
+
+export async function completeStructuredWith<T>(
+  complete: Complete,
+  task: LlmTask,
+  prompt: string,
+  schema: FieldSchema,
+  options: { maxTokens: number; input?: Record<string, string>; usage?: UsageContext; models?: string | null }
+): Promise<StructuredResult<T>> {
+  const first = await complete(task, prompt, options);
+  const checked = check<T>(task, schema, first.text);
+
+  if (checked.value !== null) {
+    return { value: checked.value, completion: first, repaired: false, dropped: checked.dropped };
+  }
+
+  recordLlmMetric(task, { type: 'repair_attempted' });
+  console.warn(`[LLM] ${task} response from ${first.model} invalid, requesting repair:\n${formatFieldErrors(checked.errors)}`);
+
+  // No structured input: providers that build answers from it would just repeat themselves
+  const repair = await complete(task, buildRepairPrompt(prompt, first.text, checked.errors), {
+    maxTokens: options.maxTokens,
+    usage: options.usage,
+    models: options.models,
+  });
+  const repairedCheck = check<T>(task, schema, repair.text);
+
+  if (repairedCheck.value === null) {
+    recordLlmMetric(task, { type: 'repair_failed' });
+    throw new StructuredOutputError(task, repairedCheck.errors, repair.text);
+  }
+
+  recordLlmMetric(task, { type: 'repair_succeeded' });
+  return { value: repairedCheck.value, completion: repair, repaired: true, dropped: repairedCheck.dropped };
+}
+
+function check<T>(
+  task: LlmTask,
+  schema: FieldSchema,
+  text: string
+): { value: T | null; errors: FieldError[]; dropped: FieldError[] } {
+  const parsed = parseAIResponseWithStrategy(text);
+
+  if (parsed.strategy === null) {
+    recordLlmMetric(task, { type: 'parse_failed' });
+    return { value: null, errors: [{ path: '$', message: 'is not valid JSON' }], dropped: [] };
+  }
+  recordLlmMetric(task, { type: 'parsed', strategy: parsed.strategy });
+
+  const result = validateResponse<T>(schema, parsed.value);
+
+  if (result.errors.length > 0) {
+    recordLlmMetric(task, { type: 'validation_failed' });
+  }
+  if (result.dropped.length > 0) {
+    recordLlmMetric(task, { type: 'items_dropped', count: countItems(result.dropped) });
+  }
+
+  return result;
+}
+
+// One item can fail several fields; count `$.bytes[2]` once
+function countItems(dropped: FieldError[]): number {
+  return new Set(dropped.map((e) => e.path.match(/^.*?\[\d+\]/)?.[0] ?? e.path)).size;
+}
+
+function buildRepairPrompt(prompt: string, previous: string, errors: FieldError[]): string {
+  return `${prompt}
+
+---
+
+Your previous response was:
+${previous.slice(0, 8000)}
+
+It did not match the required format:
+${formatFieldErrors(errors)}
+
+Return the corrected response. Keep everything that was valid, fix only these problems, and return ONLY the JSON.`;
+}
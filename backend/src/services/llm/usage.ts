@@ -0,0 +1,163 @@
+/**
+ * LLM Usage - Token and cost accounting for every model call
+ *
+ * The registry (`completeTask`) records one AiUsage row per attempt: the
+ * primary model, each fallback it fell through to, and repair requests. The
+ * caller says what the call was for (edition, source, bytes) through
+ * `options.usage`.
+ *
+ * Cost is estimated from list prices per million tokens. The daily budget
+ * (LLM_DAILY_BUDGET_USD) is compared with today's spend (UTC); the
+ * processing queue stops for the day once it's used up.
+ */
+
+import { prisma } from '../db';
+import { CompletionResult, LlmTask } from './provider';
+
+export interface UsageContext {
+  editionId?: string;
+  sourceId?: string;
+  byteIds?: string[];
+}
+
+export interface BudgetStatus {
+  dailyBudgetUsd: number | null; // null = no budget configured
+  spentTodayUsd: number;
+  remainingUsd: number | null;
+  exhausted: boolean;
+}
+
+export type UsagePeriod = 'day' | 'week';
+
+// USD per million tokens [input, output]; first matching prefix wins
+const PRICES_PER_MTOK: [string, number, number][] = [
+  ['claude-opus', 15, 75],
+  ['claude-sonnet', 3, 15],
+  ['claude-haiku-4', 1, 5],
+  ['claude-3-5-haiku', 0.8, 4],
+  ['claude-3-haiku', 0.25, 1.25],
+];
+// Unknown models are priced like Sonnet so they still count against the budget
+const DEFAULT_PRICE: [number, number] = [3, 15];
+const FREE_PROVIDERS = new Set(['fixture']);
+
+export function estimateCostUsd(
+  provider: string,
+  model: string,
+  inputTokens: number = 0,
+  outputTokens: number = 0
+): number {
+  if (FREE_PROVIDERS.has(provider)) return 0;
+
+  const entry = PRICES_PER_MTOK.find(([prefix]) => model.startsWith(prefix));
+  const [inputPrice, outputPrice] = entry ? [entry[1], entry[2]] : DEFAULT_PRICE;
+  return (inputTokens * inputPrice + outputTokens * outputPrice) / 1_000_000;
+}
+
+/**
+ * Log one model call. Never throws: accounting must not fail the call itself.
+ */
+export async function recordUsage(entry: {
+  task: LlmTask;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  completion?: CompletionResult;
+  error?: string;
+  usage?: UsageContext;
+}): Promise<void> {
+  const { completion } = entry;
+
+  try {
+    await prisma.aiUsage.create({
+      data: {
+        task: entry.task,
+        provider: entry.provider,
+        model: entry.model,
+        inputTokens: completion?.inputTokens,
+        outputTokens: completion?.outputTokens,
+        costUsd: estimateCostUsd(entry.provider, entry.model, completion?.inputTokens, completion?.outputTokens),
+        latencyMs: entry.latencyMs,
+        success: !!completion,
+        errorMessage: entry.error?.slice(0, 1000),
+        editionId: entry.usage?.editionId,
+        sourceId: entry.usage?.sourceId,
+        byteIds: entry.usage?.byteIds ?? [],
+      },
+    });
+  } catch (error) {
+    console.warn(`[LLM] Could not record ${entry.task} usage:`, error instanceof Error ? error.message : error);
+  }
+}
+
+export function getDailyBudgetUsd(): number | null {
+  const budget = parseFloat(process.env.LLM_DAILY_BUDGET_USD || '');
+  return isNaN(budget) || budget <= 0 ? null : budget;
+}
+
+/**
+ * Today's (UTC) spend against the daily budget
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus> {
+  const startOfDay = new Date();
+  startOfDay.setUTCHours(0, 0, 0, 0);
+
+  const spent = await prisma.aiUsage.aggregate({
+    where: { createdAt: { gte: startOfDay } },
+    _sum: { costUsd: true },
+  });
+
+  const dailyBudgetUsd = getDailyBudgetUsd();
+  const spentTodayUsd = spent._sum.costUsd ?? 0;
+
+  return {
+    dailyBudgetUsd,
+    spentTodayUsd,
+    remainingUsd: dailyBudgetUsd === null ? null : Math.max(0, dailyBudgetUsd - spentTodayUsd),
+    exhausted: dailyBudgetUsd !== null && spentTodayUsd >= dailyBudgetUsd,
+  };
+}
+
+/**
+ * Calls, tokens and cost per day or week, by task and by source. Calls
+ * without a source (categorizing a new sender, audit batches) are grouped
+ * under a null source. Private inbox sources are counted under their id
+ * but not named.
+ */
+export async function getUsageRollups(period: UsagePeriod, since: Date) {
+  const [byTask, bySource] = await Promise.all([
+    prisma.$queryRaw`
+      SELECT
+        date_trunc(${period}, "createdAt") AS "period",
+        "task",
+        COUNT(*)::int AS "calls",
+        COUNT(*) FILTER (WHERE NOT "success")::int AS "failures",
+        COALESCE(SUM("inputTokens"), 0)::int AS "inputTokens",
+        COALESCE(SUM("outputTokens"), 0)::int AS "outputTokens",
+        COALESCE(SUM("costUsd"), 0)::float AS "costUsd",
+        AVG("latencyMs")::int AS "avgLatencyMs"
+      FROM ai_usage
+      WHERE "createdAt" >= ${since}
+      GROUP BY 1, 2
+      ORDER BY 1 DESC, 2
+    `,
+    prisma.$queryRaw`
+      SELECT
+        date_trunc(${period}, u."createdAt") AS "period",
+        u."sourceId",
+        CASE WHEN s."ownerId" IS NULL THEN s."name" ELSE 'Private inbox' END AS "sourceName",
+        COUNT(*)::int AS "calls",
+        COUNT(DISTINCT u."editionId")::int AS "editions",
+        COALESCE(SUM(u."inputTokens"), 0)::int AS "inputTokens",
+        COALESCE(SUM(u."outputTokens"), 0)::int AS "outputTokens",
+        COALESCE(SUM(u."costUsd"), 0)::float AS "costUsd"
+      FROM ai_usage u
+      LEFT JOIN newsletter_sources s ON s."id" = u."sourceId"
+      WHERE u."createdAt" >= ${since}
+      GROUP BY 1, 2, 3
+      ORDER BY 1 DESC, "costUsd" DESC
+    `,
+  ]);
+
+  return { byTask, bySource };
+}
@@ -0,0 +1,70 @@
+/**
+ * Mute Rules - Per-user hiding of sources, authors, categories and keywords
+ *
+ * Rules are stored per user with an optional expiry and turned into a
+ * Prisma `NOT` fragment that every feed query spreads into its `where`.
+ * Author and keyword matches are case-insensitive.
+ *
+ * Users who turned recommendations off (enableRecommendations) have
+ * sponsored bytes muted the same way.
+ */
+
+import { prisma } from './db';
+import { MuteRuleType } from '../types';
+
+export const MUTE_RULE_TYPES: MuteRuleType[] = ['source', 'author', 'category', 'keyword'];
+
+// Keeps the generated NOT clause (and the settings list) bounded
+export const MAX_MUTE_RULES = 200;
+
+interface MuteRuleLike {
+  type: string;
+  value: string;
+}
+
+/**
+ * Load the user's rules that haven't expired
+ */
+export async function getActiveMuteRules(userId: string) {
+  return prisma.muteRule.findMany({
+    where: {
+      userId,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Build a Prisma ContentByte `where` fragment that drops muted bytes
+ * Returns an empty object when there is nothing to mute
+ */
+export function buildMuteFilter(rules: MuteRuleLike[], options: { hideSponsored?: boolean } = {}) {
+  const valuesOf = (type: MuteRuleType) => rules.filter((r) => r.type === type).map((r) => r.value);
+
+  const sourceIds = valuesOf('source');
+  const categories = valuesOf('category');
+  const conditions: object[] = [
+    ...(sourceIds.length > 0 ? [{ edition: { sourceId: { in: sourceIds } } }] : []),
+    ...(categories.length > 0 ? [{ category: { in: categories } }] : []),
+    // `author` is nullable; the null check keeps NOT from also dropping author-less bytes
+    ...valuesOf('author').map((author) => ({
+      AND: [{ author: { not: null } }, { author: { equals: author, mode: 'insensitive' } }],
+    })),
+    ...valuesOf('keyword').map((keyword) => ({ content: { contains: keyword, mode: 'insensitive' } })),
+    ...(options.hideSponsored ? [{ isSponsored: true }] : []),
+  ];
+
+  return conditions.length > 0 ? { NOT: conditions } : {};
+}
+
+/**
+ * Mute filter for a user's active rules and recommendation setting
+ */
+export async function getMuteFilter(userId: string) {
+  const [rules, user] = await Promise.all([
+    getActiveMuteRules(userId),
+    prisma.user.findUnique({ where: { id: userId }, select: { enableRecommendations: true } }),
+  ]);
+  return buildMuteFilter(rules, { hideSponsored: user ? !user.enableRecommendations : false });
+}
@@ -0,0 +1,283 @@
+/**
+ * Preference Model - Learned per-user affinities from engagement
+ *
+ * Every engagement signal (vote, save, share, read, quick skip) adds signed
+ * evidence to each feature of the byte: its category, type, source and tags.
+ * Evidence decays with a 30-day half-life, so old tastes fade, and is
+ * squashed into a 0-1 weight where 0.5 means no opinion.
+ *
+ * Flow:
+ * 1. Engagement endpoints call `learnPreference(userId, byteId, strength)`
+ * 2. Personalized feed reads `getAffinityWeights` for the ranker
+ * 3. GET /me/preferences exposes the profile via `getPersonalizationProfile`
+ *
+ * Category weights from the old model (UserPreference) are carried over once
+ * by `importLegacyPreferences` (POST /internal/import-preferences).
+ */
+
+import crypto from 'crypto';
+import { prisma } from './db';
+import {
+  AffinityDimension,
+  AffinityWeightResponse,
+  ByteCategory,
+  PersonalizationProfile,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HALF_LIFE_DAYS = 30;
+const SCORE_SCALE = 3;   // Evidence at which a weight reaches ~0.88 (or ~0.12)
+const TAG_SHARE = 0.5;   // Tags are noisier than the other features
+const TOP_N = 10;
+const IMPORT_BATCH_SIZE = 1000;
+const MAX_IMPORTED_WEIGHT = 0.95; // Old weights hit 0/1 after ~20 votes; that much evidence isn't certainty
+
+// Signal strengths; negative values push weights below neutral
+export const PREFERENCE_SIGNALS = {
+  vote: 1,              // Per step: downvote → upvote counts twice
+  save: 1.5,
+  share: 1,
+  readBase: 0.2,        // Read at all (tab active 5+ seconds)
+  readDwellBonus: 0.3,  // Scaled by total dwell, saturating at READ_DWELL_CAP_MS
+  quickSkip: -0.3,
+};
+
+export const READ_DWELL_CAP_MS = 30000;
+export const QUICK_SKIP_MS = 3000;
+
+export interface AffinityWeight {
+  dimension: AffinityDimension;
+  key: string;
+  weight: number;
+  signals: number;
+}
+
+/**
+ * Map decayed evidence onto a 0-1 weight (0.5 = neutral)
+ */
+export function affinityWeight(score: number): number {
+  return 0.5 + 0.5 * Math.tanh(score / SCORE_SCALE);
+}
+
+/**
+ * Evidence that maps back onto a weight (inverse of affinityWeight)
+ */
+export function scoreForWeight(weight: number): number {
+  const clamped = Math.min(MAX_IMPORTED_WEIGHT, Math.max(1 - MAX_IMPORTED_WEIGHT, weight));
+  return SCORE_SCALE * Math.atanh(2 * clamped - 1);
+}
+
+/**
+ * Evidence left after decaying from `since` to `now` (mirrored in learnPreference's SQL)
+ */
+export function decayScore(score: number, since: Date, now: number): number {
+  const elapsedDays = Math.max(0, now - since.getTime()) / DAY_MS;
+  return score * Math.pow(0.5, elapsedDays / HALF_LIFE_DAYS);
+}
+
+/**
+ * Strength of a read signal given the user's total dwell time on the byte
+ */
+export function readSignalStrength(totalDwellTimeMs: number): number {
+  return PREFERENCE_SIGNALS.readBase +
+    PREFERENCE_SIGNALS.readDwellBonus * Math.min(totalDwellTimeMs / READ_DWELL_CAP_MS, 1);
+}
+
+export interface PreferenceSignal {
+  dimension: AffinityDimension;
+  key: string;
+  delta: number;
+}
+
+/**
+ * Evidence a signal of `strength` adds to each feature of a byte
+ * Tags are lowercased and deduplicated, and get TAG_SHARE of the signal
+ */
+export function preferenceSignals(
+  byte: { category: string; type: string; tags?: string[] | null; edition?: { sourceId: string } | null },
+  strength: number
+): PreferenceSignal[] {
+  return [
+    { dimension: 'category' as const, key: byte.category, share: 1 },
+    { dimension: 'type' as const, key: byte.type, share: 1 },
+    ...(byte.edition?.sourceId ? [{ dimension: 'source' as const, key: byte.edition.sourceId, share: 1 }] : []),
+    ...[...new Set<string>((byte.tags || []).map((tag) => tag.toLowerCase()))].map((tag) => ({
+      dimension: 'tag' as const,
+      key: tag,
+      share: TAG_SHARE,
+    })),
+  ].map((f) => ({ dimension: f.dimension, key: f.key, delta: strength * f.share }));
+}
+
+/**
+ * Add a signal to every feature of a byte
+ * Decay and increment happen in the upsert itself, so concurrent signals
+ * for the same feature add up instead of overwriting each other
+ */
+export async function learnPreference(userId: string, byteId: string, strength: number): Promise<void> {
+  if (strength === 0) return;
+
+  const byte = await prisma.contentByte.findUnique({
+    where: { id: byteId },
+    select: {
+      category: true,
+      type: true,
+      tags: true,
+      edition: { select: { sourceId: true } },
+    },
+  });
+
+  if (!byte) return;
+
+  const now = new Date();
+  const halfLifeSeconds = (HALF_LIFE_DAYS * DAY_MS) / 1000;
+
+  await prisma.$transaction(
+    preferenceSignals(byte, strength).map((signal) => prisma.$executeRaw`
+      INSERT INTO user_affinities ("id", "userId", "dimension", "key", "score", "signalCount", "decayedAt")
+      VALUES (${crypto.randomUUID()}, ${userId}, ${signal.dimension}, ${signal.key}, ${signal.delta}, 1, ${now})
+      ON CONFLICT ("userId", "dimension", "key") DO UPDATE SET
+        "score" = user_affinities."score" * power(
+          0.5,
+          GREATEST(0, EXTRACT(EPOCH FROM (EXCLUDED."decayedAt" - user_affinities."decayedAt"))) / ${halfLifeSeconds}
+        ) + EXCLUDED."score",
+        "signalCount" = user_affinities."signalCount" + 1,
+        "decayedAt" = GREATEST(user_affinities."decayedAt", EXCLUDED."decayedAt")
+    `)
+  );
+}
+
+/**
+ * Current (decayed) weights for every feature the user has signals for
+ */
+export async function getAffinityWeights(userId: string): Promise<AffinityWeight[]> {
+  const rows = await prisma.userAffinity.findMany({ where: { userId } });
+  const now = Date.now();
+
+  return rows.map((row) => ({
+    dimension: row.dimension as AffinityDimension,
+    key: row.key,
+    weight: affinityWeight(decayScore(row.score, row.decayedAt, now)),
+    signals: row.signalCount,
+  }));
+}
+
+/**
+ * Full preference profile for GET /me/preferences
+ */
+export async function getPersonalizationProfile(userId: string): Promise<PersonalizationProfile> {
+  const [weights, voteCounts, favorites] = await Promise.all([
+    getAffinityWeights(userId),
+    prisma.userEngagement.groupBy({
+      by: ['vote'],
+      where: { userId, vote: { not: 0 } },
+      _count: { _all: true },
+    }),
+    prisma.userEngagement.findMany({
+      where: { userId, OR: [{ vote: 1 }, { isSaved: true }] },
+      select: { byte: { select: { category: true } } },
+      orderBy: { updatedAt: 'desc' },
+      take: 500,
+    }),
+  ]);
+
+  const byWeight = (a: AffinityWeight, b: AffinityWeight) => b.weight - a.weight;
+  const ofDimension = (dimension: AffinityDimension) =>
+    weights.filter((w) => w.dimension === dimension).sort(byWeight);
+
+  const categories = ofDimension('category');
+  const sources = ofDimension('source').slice(0, TOP_N);
+
+  const sourceNames = new Map<string, string>(
+    (
+      await prisma.newsletterSource.findMany({
+        where: { id: { in: sources.map((s) => s.key) } },
+        select: { id: true, name: true },
+      })
+    ).map((s) => [s.id, s.name])
+  );
+
+  const upvotes = voteCounts.find((v) => v.vote === 1)?._count._all || 0;
+  const downvotes = voteCounts.find((v) => v.vote === -1)?._count._all || 0;
+  const totalVotes = upvotes + downvotes;
+
+  const favoriteCounts = new Map<string, number>();
+  for (const f of favorites) {
+    if (!f.byte) continue;
+    favoriteCounts.set(f.byte.category, (favoriteCounts.get(f.byte.category) || 0) + 1);
+  }
+
+  const toResponse = (w: AffinityWeight): AffinityWeightResponse => ({
+    key: w.key,
+    weight: Math.round(w.weight * 1000) / 1000,
+    signals: w.signals,
+  });
+
+  return {
+    preferences: categories.map((c) => ({
+      category: c.key as ByteCategory,
+      weight: Math.round(c.weight * 1000) / 1000,
+    })),
+    topCategories: categories
+      .filter((c) => c.weight > 0.5)
+      .slice(0, 3)
+      .map((c) => c.key as ByteCategory),
+    engagementHistory: {
+      totalVotes,
+      upvoteRatio: totalVotes > 0 ? Math.round((upvotes / totalVotes) * 100) / 100 : 0,
+      favoriteCategories: [...favoriteCounts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([category]) => category as ByteCategory),
+    },
+    affinities: {
+      types: ofDimension('type').map(toResponse),
+      sources: sources.map((s) => ({ ...toResponse(s), label: sourceNames.get(s.key) })),
+      tags: ofDimension('tag').slice(0, TOP_N).map(toResponse),
+    },
+  };
+}
+
+/**
+ * Turn UserPreference category weights into category affinities, so users
+ * keep their ranking after the switch instead of starting cold. The evidence
+ * decays from the preference's last update. Categories that already have an
+ * affinity keep it, so running this again changes nothing.
+ */
+export async function importLegacyPreferences(): Promise<{ read: number; imported: number }> {
+  let read = 0;
+  let imported = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const preferences = await prisma.userPreference.findMany({
+      select: { id: true, userId: true, category: true, weight: true, updatedAt: true },
+      orderBy: { id: 'asc' },
+      take: IMPORT_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (preferences.length === 0) break;
+
+    read += preferences.length;
+    cursor = preferences[preferences.length - 1].id;
+
+    // Neutral weights carry no opinion
+    const rows = preferences
+      .filter((p) => p.weight !== 0.5)
+      .map((p) => ({
+        userId: p.userId,
+        dimension: 'category',
+        key: p.category,
+        score: scoreForWeight(p.weight),
+        signalCount: 0,
+        decayedAt: p.updatedAt,
+      }));
+
+    if (rows.length > 0) {
+      const result = await prisma.userAffinity.createMany({ data: rows, skipDuplicates: true });
+      imported += result.count;
+    }
+  }
+
+  return { read, imported };
+}
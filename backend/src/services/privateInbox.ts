@@ -0,0 +1,137 @@
+/**
+ * Private Inbox - Per-user forwarding addresses for newsletters nobody curates
+ *
+ * Paid and internal newsletters will never be curated, so a user can turn on
+ * a personal address (User.inboxEmail) and forward them there.
+ *
+ * Flow:
+ * 1. PUT /me/inbox { enabled: true } gives the user an address (kept when
+ *    the inbox is turned off, so turning it back on restores it)
+ * 2. Mail to the address (webhooks) creates a private NewsletterSource per
+ *    sender, owned by the user (ownerId), and queues the edition as usual
+ * 3. The queue extracts bytes; they reach the owner's /feed/next alongside
+ *    curated bytes and the subscribed feed, and nowhere else:
+ *    - shared feeds, discover and admin spread PUBLIC_BYTES (utils/liveBytes)
+ *    - dedup only compares them with the same user's private bytes
+ *
+ * Private sources keep NewsletterSource.senderEmail unique by namespacing the
+ * sender with the owner: two users forwarding the same newsletter get
+ * separate sources, and neither collides with a curated one.
+ */
+
+import { prisma } from './db';
+import { generateInboxEmail } from './utils';
+
+const PRIVATE_SENDER_PREFIX = 'private:';
+
+export interface PrivateInboxStatus {
+  enabled: boolean;
+  address: string | null;
+  sources: {
+    id: string;
+    name: string;
+    senderEmail: string;
+    category: string;
+    editions: number;
+    pendingEditions: number;
+    failedEditions: number;
+    lastReceivedAt: Date | null;
+  }[];
+}
+
+/**
+ * NewsletterSource.senderEmail for a sender in a user's private inbox
+ */
+export function privateSenderKey(ownerId: string, senderEmail: string): string {
+  return `${PRIVATE_SENDER_PREFIX}${ownerId}:${senderEmail}`;
+}
+
+/**
+ * The sender's own address, from a private source's senderEmail
+ */
+export function senderFromKey(senderKey: string): string {
+  if (!senderKey.startsWith(PRIVATE_SENDER_PREFIX)) return senderKey;
+  return senderKey.slice(senderKey.indexOf(':', PRIVATE_SENDER_PREFIX.length) + 1);
+}
+
+/**
+ * Turn the private inbox on or off. Turning it on for the first time assigns
+ * an address. Returns null if the user doesn't exist.
+ */
+export async function setPrivateInboxEnabled(
+  userId: string,
+  enabled: boolean
+): Promise<{ enabled: boolean; address: string | null } | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { name: true, inboxEmail: true },
+  });
+  if (!user) return null;
+
+  const address = enabled && !user.inboxEmail ? await generateInboxEmail(user.name) : user.inboxEmail;
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { privateInboxEnabled: enabled, inboxEmail: address },
+    select: { privateInboxEnabled: true, inboxEmail: true },
+  });
+
+  return { enabled: updated.privateInboxEnabled, address: updated.inboxEmail };
+}
+
+/**
+ * The user's inbox settings and the private sources mail has created
+ */
+export async function getPrivateInbox(userId: string): Promise<PrivateInboxStatus | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { privateInboxEnabled: true, inboxEmail: true },
+  });
+  if (!user) return null;
+
+  const sources = await prisma.newsletterSource.findMany({
+    where: { ownerId: userId },
+    select: { id: true, name: true, senderEmail: true, category: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const counts = await prisma.edition.groupBy({
+    by: ['sourceId', 'processingStatus'],
+    where: { source: { ownerId: userId } },
+    _count: { _all: true },
+    _max: { receivedAt: true },
+  });
+
+  return {
+    enabled: user.privateInboxEnabled,
+    address: user.privateInboxEnabled ? user.inboxEmail : null,
+    sources: sources.map((source) => {
+      const rows = counts.filter((c) => c.sourceId === source.id);
+      const count = (status: string) =>
+        rows.filter((c) => c.processingStatus === status).reduce((sum: number, c) => sum + c._count._all, 0);
+      const received = rows.map((c) => c._max.receivedAt).filter(Boolean) as Date[];
+
+      return {
+        id: source.id,
+        name: source.name,
+        senderEmail: senderFromKey(source.senderEmail),
+        category: source.category,
+        editions: rows.reduce((sum: number, c) => sum + c._count._all, 0),
+        pendingEditions: count('pending') + count('processing'),
+        failedEditions: count('failed'),
+        lastReceivedAt: received.length > 0 ? new Date(Math.max(...received.map((d) => d.getTime()))) : null,
+      };
+    }),
+  };
+}
+
+/**
+ * Delete one of the user's private sources with its editions and bytes.
+ * Returns false if the user doesn't own such a source.
+ */
+export async function deletePrivateSource(userId: string, sourceId: string): Promise<boolean> {
+  const result = await prisma.newsletterSource.deleteMany({
+    where: { id: sourceId, ownerId: userId },
+  });
+  return result.count > 0;
+}
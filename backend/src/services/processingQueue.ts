@@ -2,30 +2,71 @@
  * Processing Queue Service
  *
  * Manages the queue of newsletters waiting to be processed by AI.
- * Uses Claude Sonnet 4 for content extraction.
+ * Extraction runs on the model chain configured in ./llm (primary + fallbacks).
  *
  * Flow:
  * 1. Webhook stores email with status "pending"
- * 2. Cron job calls processBatch() every 5 minutes
- * 3. Each batch processes up to 10 editions
- * 4. Status updated to "completed" or "failed"
+ * 2. Cron job calls processBatch() every 5 minutes, on any number of instances
+ * 3. QUEUE_CONCURRENCY workers each lease one edition at a time
+ *    (leaseOwner + leaseExpiresAt, claimed with SKIP LOCKED) until
+ *    QUEUE_BATCH_SIZE editions are done or none are due. Leases are renewed
+ *    while the edition is being worked on; an expired lease means its worker
+ *    died and the edition can be claimed again. Bytes are saved in the same
+ *    transaction that renews the lease, so a worker that lost its lease
+ *    writes nothing
+ * 4. Status updated to "completed", or on error:
+ *    - retryable (rate limits, overload, outages): back to "pending" with
+ *      exponential backoff in nextAttemptAt, until MAX_ATTEMPTS
+ *    - permanent (the content can't be extracted): "failed" right away
+ *    Either way the cause is classified and recorded (./failureTriage), and
+ *    failed editions are triaged from the admin dead-letter view
+ * 5. Once the daily AI budget (LLM_DAILY_BUDGET_USD) is spent, the batch
+ *    stops and the rest stay "pending" until tomorrow
+ *
+ * Model calls are paced per provider by ./llm/rateLimiter, not by the queue.
+ *
+ * Extraction reads the edition with its boilerplate stripped (./contentCleaner),
+ * cleaned on the first attempt and kept in Edition.cleanedContent. Bytes from
+ * sponsored editions or affiliate passages are tagged (./sponsorDetection).
+ *
+ * Completed editions can be queued again after an extraction change
+ * (queueReprocess); their new bytes are reconciled with the old ones in
+ * ./reextraction.
  */
 
-import { prisma } from './db';
-import { processEditionWithClaude } from './claude';
+import os from 'os';
+import type { Prisma } from '@prisma/client';
+import { prisma, jsonNull } from './db';
+import { extractEdition, EXTRACTION_VERSION, ExtractionCallOptions } from './extraction';
+import { planReextraction, applyReextraction, ReextractionPlan } from './reextraction';
+import { verifyAttributions } from './attribution';
+import { locatePassage } from '../utils/passageLocator';
+import { getBudgetStatus, ModelChainError, ProviderError } from './llm';
+import { checkEditionContent, describeFailure, isRetryable, NO_FAILURE } from './failureTriage';
+import { cleanEdition, CleanedEdition } from './contentCleaner';
+import { EditionSponsorship, SponsoredSpan, isSponsoredSubject, tagSponsoredBytes } from './sponsorDetection';
+import { senderFromKey } from './privateInbox';
 
 // Configuration
-const MAX_BATCH_SIZE = 10; // Max editions per batch
-const MAX_ATTEMPTS = 3;    // Max retry attempts before marking as failed
-const PROCESSING_DELAY_MS = 2000; // Delay between requests (2s for safety)
+const BATCH_SIZE = parseInt(process.env.QUEUE_BATCH_SIZE || '') || 10; // Max editions per processBatch() call
+const CONCURRENCY = parseInt(process.env.QUEUE_CONCURRENCY || '') || 2; // Editions worked on at once per instance
+const MAX_ATTEMPTS = 5;               // Attempts before a retryable failure becomes "failed"
+const LEASE_MS = 10 * 60 * 1000;      // A worker that hasn't renewed in this long is presumed dead
+const LEASE_RENEW_MS = LEASE_MS / 3;
+const BACKOFF_BASE_MS = 60 * 1000;    // 1m, 2m, 4m, 8m... between attempts
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
 
-export type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed';
+// Identifies this process's leases; unique per instance and restart
+const WORKER_ID = `${process.env.WORKER_ID || os.hostname()}:${process.pid}:${Math.random().toString(36).slice(2, 8)}`;
+
+export type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'discarded';
 
 export interface QueueStats {
   pending: number;
   processing: number;
   completed: number;
   failed: number;
+  discarded: number;
   total: number;
 }
 
@@ -34,17 +75,19 @@ export interface ProcessingResult {
   success: boolean;
   bytesExtracted: number;
   error?: string;
+  retryAt?: Date; // Set when a failed attempt will be retried
 }
 
 /**
  * Get queue statistics
  */
 export async function getQueueStats(): Promise<QueueStats> {
-  const [pending, processing, completed, failed] = await Promise.all([
+  const [pending, processing, completed, failed, discarded] = await Promise.all([
     prisma.edition.count({ where: { processingStatus: 'pending' } }),
     prisma.edition.count({ where: { processingStatus: 'processing' } }),
     prisma.edition.count({ where: { processingStatus: 'completed' } }),
     prisma.edition.count({ where: { processingStatus: 'failed' } }),
+    prisma.edition.count({ where: { processingStatus: 'discarded' } }),
   ]);
 
   return {
@@ -52,47 +95,125 @@ export async function getQueueStats(): Promise<QueueStats> {
     processing,
     completed,
     failed,
-    total: pending + processing + completed + failed,
+    discarded,
+    total: pending + processing + completed + failed + discarded,
   };
 }
 
 /**
- * Get next batch of editions to process
+ * Lease the oldest edition that's due: pending and past its backoff, or
+ * abandoned by a worker whose lease expired. Safe to run from many instances.
  */
-export async function getNextBatch(limit: number = MAX_BATCH_SIZE) {
-  // First, reset any stale "processing" status (stuck for > 10 minutes)
-  const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000);
-  await prisma.edition.updateMany({
-    where: {
-      processingStatus: 'processing',
-      receivedAt: { lt: tenMinutesAgo },
-    },
-    data: {
-      processingStatus: 'pending',
-    },
-  });
+async function claimNextEdition() {
+  const claimed: { id: string }[] = await prisma.$queryRaw`
+    UPDATE editions
+    SET "processingStatus" = 'processing',
+        "leaseOwner" = ${WORKER_ID},
+        "leaseExpiresAt" = NOW() + make_interval(secs => ${LEASE_MS / 1000}),
+        "processAttempts" = "processAttempts" + 1
+    WHERE "id" = (
+      SELECT "id" FROM editions
+      WHERE "processAttempts" < ${MAX_ATTEMPTS}
+        AND (
+          ("processingStatus" = 'pending' AND ("nextAttemptAt" IS NULL OR "nextAttemptAt" <= NOW()))
+          OR ("processingStatus" = 'processing' AND ("leaseExpiresAt" IS NULL OR "leaseExpiresAt" < NOW()))
+        )
+      ORDER BY "receivedAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `;
+
+  if (claimed.length === 0) return null;
 
-  // Get pending editions, prioritizing older ones
   // Include source with website field to determine if we need to extract source info
-  return prisma.edition.findMany({
-    where: {
-      processingStatus: 'pending',
-      processAttempts: { lt: MAX_ATTEMPTS },
-    },
+  return prisma.edition.findUnique({
+    where: { id: claimed[0].id },
     include: {
       source: {
         select: {
           id: true,
           name: true,
           website: true,
+          senderEmail: true,
         },
       },
     },
-    orderBy: { receivedAt: 'asc' },
-    take: limit,
   });
 }
 
+/**
+ * Editions whose last allowed attempt died with its worker
+ */
+async function failAbandonedEditions(): Promise<number> {
+  const result = await prisma.edition.updateMany({
+    where: {
+      processingStatus: 'processing',
+      processAttempts: { gte: MAX_ATTEMPTS },
+      leaseExpiresAt: { lt: new Date() },
+    },
+    data: {
+      processingStatus: 'failed',
+      processingError: 'Worker stopped responding on the last attempt',
+      failureCause: 'worker_lost',
+      errorSignature: 'Worker stopped responding on the last attempt',
+      failedResponse: null,
+      failedAt: new Date(),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    },
+  });
+
+  if (result.count > 0) {
+    console.log(`[Queue] Marked ${result.count} abandoned editions as failed`);
+  }
+  return result.count;
+}
+
+/**
+ * Keep the lease alive while `work` runs
+ */
+async function withLease<T>(editionId: string, work: () => Promise<T>): Promise<T> {
+  const timer = setInterval(() => {
+    prisma.$executeRaw`
+      UPDATE editions
+      SET "leaseExpiresAt" = NOW() + make_interval(secs => ${LEASE_MS / 1000})
+      WHERE "id" = ${editionId} AND "leaseOwner" = ${WORKER_ID}
+    `.catch((error: unknown) => console.warn(`[Queue] Lease renewal failed for ${editionId}:`, error));
+  }, LEASE_RENEW_MS);
+  timer.unref();
+
+  try {
+    return await work();
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+/**
+ * Another worker claimed the edition after this worker's lease expired
+ */
+class LeaseLostError extends Error {
+  constructor(editionId: string) {
+    super(`Lease on ${editionId} was lost`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+/**
+ * Renew this worker's lease from inside `tx`. The update also locks the
+ * edition row until the transaction ends, so no one can claim it meanwhile.
+ */
+async function renewLeaseIn(tx: Prisma.TransactionClient, editionId: string): Promise<void> {
+  const renewed: number = await tx.$executeRaw`
+    UPDATE editions
+    SET "leaseExpiresAt" = NOW() + make_interval(secs => ${LEASE_MS / 1000})
+    WHERE "id" = ${editionId} AND "leaseOwner" = ${WORKER_ID}
+  `;
+  if (renewed === 0) throw new LeaseLostError(editionId);
+}
+
 /**
  * Process a single edition
  */
@@ -100,30 +221,35 @@ export async function processEdition(
   edition: {
     id: string;
     subject: string;
+    rawContent: string;
     textContent: string;
-    source: { name: string; id: string; website: string | null };
+    cleanedContent?: string | null;
+    isSponsored?: boolean;
+    sponsorId?: string | null;
+    sponsoredSpans?: unknown;
+    modelOverride?: string | null; // Model chain an admin picked when retrying a dead letter
+    source: { name: string; id: string; website: string | null; senderEmail: string };
   }
 ): Promise<ProcessingResult> {
-  const { id, subject, textContent, source } = edition;
+  const { id, subject, source } = edition;
 
   try {
-    // Mark as processing
-    await prisma.edition.update({
-      where: { id },
-      data: {
-        processingStatus: 'processing',
-        processAttempts: { increment: 1 },
-      },
-    });
+    const { text: textContent, sponsorship } = edition.cleanedContent != null
+      ? { text: edition.cleanedContent, sponsorship: storedSponsorship(edition) }
+      : await cleanAndStore(edition);
+    checkEditionContent(textContent);
 
     // Check if we need to extract source info (only for sources without website)
     const needSourceInfo = source.website === null;
 
     console.log(`[Queue] Processing: "${subject}" from ${source.name}${needSourceInfo ? ' (extracting source info)' : ''}`);
 
-    // Process with Claude AI
+    // Extract bytes with the configured model chain
     // Pass extractSourceInfo flag if source doesn't have website yet
-    const result = await processEditionWithClaude(subject, textContent, source.name, needSourceInfo);
+    const { result, bytes } = await extractCheckedBytes(subject, textContent, source.name, sponsorship, needSourceInfo, {
+      usage: { editionId: id, sourceId: source.id },
+      models: edition.modelOverride,
+    });
 
     // Update source with extracted info if available
     if (needSourceInfo && result.newsletterInfo) {
@@ -148,40 +274,47 @@ export async function processEdition(
       }
     }
 
-    // Save extracted bytes
-    if (result.bytes.length > 0) {
-      await prisma.contentByte.createMany({
-        data: result.bytes.map((byte) => ({
-          editionId: id,
-          content: byte.content,
-          type: byte.type,
-          author: byte.author,
-          context: byte.context,
-          category: byte.category,
-          qualityScore: byte.qualityScore,
-        })),
-      });
+    // Save extracted bytes. A re-extraction updates the bytes it restates and
+    // archives the rest; new ones fold into near-duplicates of existing bytes.
+    // Only while this worker still holds the lease
+    const plan = await planReextraction(id, bytes);
+    const saved = await applyReextraction(id, plan, EXTRACTION_VERSION, (tx) => renewLeaseIn(tx, id));
+    if (saved.kept > 0 || saved.archived > 0) {
+      console.log(`[Queue] Re-extraction: ${saved.kept} kept, ${saved.archived} archived, ${plan.added.length} new`);
+    }
+    if (saved.added.merged > 0 || saved.added.flagged > 0) {
+      console.log(`[Queue] Near-duplicates: ${saved.added.merged} merged, ${saved.added.flagged} flagged for review`);
     }
 
-    // Update edition status with model tracking
-    await prisma.edition.update({
-      where: { id },
+    // Update edition status with model tracking, and release the lease
+    const completed = await prisma.edition.updateMany({
+      where: { id, leaseOwner: WORKER_ID },
       data: {
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        nextAttemptAt: null,
         processingStatus: 'completed',
         isProcessed: true,
         processedAt: new Date(),
         summary: result.summary,
         readTimeMinutes: result.readTimeMinutes,
         processedByModel: result.modelUsed || 'unknown',
-        processingError: null,
+        chunkBoundaries: result.chunks,
+        extractionVersion: EXTRACTION_VERSION,
+        ...NO_FAILURE,
+        modelOverride: null,
       },
     });
+    if (completed.count === 0) {
+      // The lease was renewed with the bytes, so completing took longer than LEASE_MS
+      console.warn(`[Queue] Lease on ${id} was lost before completion`);
+    }
 
-    // Update source stats
+    // Update source stats (re-extracted bytes were already counted)
     await prisma.newsletterSource.update({
       where: { id: source.id },
       data: {
-        totalEngagement: { increment: result.bytes.length },
+        totalEngagement: { increment: plan.added.length },
       },
     });
 
@@ -194,17 +327,31 @@ export async function processEdition(
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`[Queue] ✗ Failed: ${errorMessage}`);
 
-    // Check if we've exceeded max attempts
-    const edition = await prisma.edition.findUnique({ where: { id } });
-    const attempts = (edition?.processAttempts || 0) + 1;
+    // The edition is the new owner's now; leave its status alone
+    if (error instanceof LeaseLostError) {
+      console.warn(`[Queue] ${errorMessage}; bytes not saved`);
+      return { editionId: id, success: false, bytesExtracted: 0, error: errorMessage };
+    }
+
+    const retryable = isRetryable(error);
+
+    // The claim already counted this attempt
+    const edition = await prisma.edition.findUnique({ where: { id }, select: { processAttempts: true } });
+    const attempts = edition?.processAttempts ?? MAX_ATTEMPTS;
+    const retryAt = retryable && attempts < MAX_ATTEMPTS ? new Date(Date.now() + backoffMs(attempts, error)) : null;
+
+    console.error(`[Queue] ✗ Failed (${retryAt ? `retry at ${retryAt.toISOString()}` : retryable ? 'out of attempts' : 'permanent'}): ${errorMessage}`);
 
-    await prisma.edition.update({
-      where: { id },
+    await prisma.edition.updateMany({
+      where: { id, leaseOwner: WORKER_ID },
       data: {
-        processingStatus: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+        processingStatus: retryAt ? 'pending' : 'failed',
         processingError: errorMessage,
+        ...describeFailure(error),
+        nextAttemptAt: retryAt,
+        leaseOwner: null,
+        leaseExpiresAt: null,
       },
     });
 
@@ -213,61 +360,184 @@ export async function processEdition(
       success: false,
       bytesExtracted: 0,
       error: errorMessage,
+      retryAt: retryAt ?? undefined,
     };
   }
 }
 
 /**
- * Process a batch of editions
- * Respects rate limits by adding delays between requests
+ * Strip the edition's boilerplate and find where it's sponsored. Pure, so
+ * tests can run the pipeline on saved editions without a database.
+ */
+export function prepareEdition(edition: {
+  subject: string;
+  rawContent: string;
+  textContent: string;
+  isSponsored?: boolean;
+  sponsorId?: string | null;
+  source: { senderEmail: string };
+}): { cleaned: CleanedEdition; sponsorship: EditionSponsorship } {
+  const cleaned = cleanEdition(edition.rawContent, edition.textContent, senderFromKey(edition.source.senderEmail));
+
+  const isSponsored = !!edition.isSponsored || isSponsoredSubject(edition.subject);
+  const sponsorSection = cleaned.removed.find((r) => r.kind === 'sponsor' && r.sponsorId);
+  const sponsorship: EditionSponsorship = {
+    isSponsored,
+    sponsorId: isSponsored ? edition.sponsorId ?? sponsorSection?.sponsorId ?? null : null,
+    spans: cleaned.sponsoredSpans,
+  };
+
+  return { cleaned, sponsorship };
+}
+
+/**
+ * Clean the edition and keep the text, what was removed and where sponsored
+ * passages are on the edition. Runs once per edition; reprocessing clears it
+ * so cleaner changes apply.
+ */
+async function cleanAndStore(edition: Parameters<typeof prepareEdition>[0] & { id: string }): Promise<{
+  text: string;
+  sponsorship: EditionSponsorship;
+}> {
+  const { cleaned, sponsorship } = prepareEdition(edition);
+
+  await prisma.edition.update({
+    where: { id: edition.id },
+    data: {
+      cleanedContent: cleaned.text,
+      removedSections: cleaned.removed,
+      cleaningProfile: cleaned.profile,
+      isSponsored: sponsorship.isSponsored,
+      sponsorId: sponsorship.sponsorId,
+      sponsoredSpans: sponsorship.spans,
+    },
+  });
+
+  if (cleaned.removed.length > 0) {
+    console.log(`[Queue] Cleaned ${cleaned.removed.length} boilerplate sections${cleaned.profile ? ` (${cleaned.profile})` : ''}`);
+  }
+  return { text: cleaned.text, sponsorship };
+}
+
+/**
+ * Sponsorship recorded when the edition was cleaned
+ */
+function storedSponsorship(edition: {
+  isSponsored?: boolean;
+  sponsorId?: string | null;
+  sponsoredSpans?: unknown;
+}): EditionSponsorship {
+  return {
+    isSponsored: !!edition.isSponsored,
+    sponsorId: edition.sponsorId ?? null,
+    spans: Array.isArray(edition.sponsoredSpans) ? (edition.sponsoredSpans as SponsoredSpan[]) : [],
+  };
+}
+
+// Exponential with ±20% jitter so editions that failed together don't retry together
+function backoffMs(attempts: number, error: unknown): number {
+  const exponential = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * Math.pow(2, attempts - 1));
+  const retryAfter = error instanceof ModelChainError || error instanceof ProviderError ? error.retryAfterMs ?? 0 : 0;
+  return Math.max(retryAfter, exponential * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Process due editions with CONCURRENCY workers, up to BATCH_SIZE in total
  */
 export async function processBatch(): Promise<{
   processed: number;
   succeeded: number;
   failed: number;
+  retrying: number;
   results: ProcessingResult[];
+  budgetExhausted?: boolean;
 }> {
-  const batch = await getNextBatch();
-
-  if (batch.length === 0) {
-    console.log('[Queue] No pending editions to process');
-    return { processed: 0, succeeded: 0, failed: 0, results: [] };
-  }
-
-  console.log(`[Queue] Processing batch of ${batch.length} editions...`);
+  await failAbandonedEditions();
 
   const results: ProcessingResult[] = [];
-  let succeeded = 0;
-  let failed = 0;
+  let claimed = 0;
+  let budgetExhausted = false;
+
+  const worker = async () => {
+    while (claimed < BATCH_SIZE && !budgetExhausted) {
+      // Leave the rest pending rather than failing them
+      const budget = await getBudgetStatus();
+      if (budget.exhausted) {
+        if (!budgetExhausted) {
+          console.log(`[Queue] Daily AI budget used ($${budget.spentTodayUsd.toFixed(2)} of $${budget.dailyBudgetUsd}), stopping`);
+        }
+        budgetExhausted = true;
+        break;
+      }
 
-  for (let i = 0; i < batch.length; i++) {
-    const edition = batch[i];
+      claimed++; // Reserved before the await so workers don't overshoot the batch
+      const edition = await claimNextEdition();
+      if (!edition) {
+        claimed--;
+        break;
+      }
 
-    // Add delay between requests to respect rate limits (except for first)
-    if (i > 0) {
-      await sleep(PROCESSING_DELAY_MS);
+      results.push(await withLease(edition.id, () => processEdition(edition)));
     }
+  };
 
-    const result = await processEdition(edition);
-    results.push(result);
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
 
-    if (result.success) {
-      succeeded++;
-    } else {
-      failed++;
-    }
+  if (results.length === 0 && !budgetExhausted) {
+    console.log('[Queue] No pending editions to process');
   }
 
-  console.log(`[Queue] Batch complete: ${succeeded} succeeded, ${failed} failed`);
+  const succeeded = results.filter((r) => r.success).length;
+  const retrying = results.filter((r) => r.retryAt).length;
+  const failed = results.length - succeeded - retrying;
+
+  if (results.length > 0) {
+    console.log(`[Queue] Batch complete: ${succeeded} succeeded, ${retrying} retrying, ${failed} failed`);
+  }
 
   return {
-    processed: batch.length,
+    processed: results.length,
     succeeded,
     failed,
+    retrying,
     results,
+    ...(budgetExhausted ? { budgetExhausted: true } : {}),
   };
 }
 
+/**
+ * Extract an edition's bytes, then check quotes against the edition text,
+ * remember where each byte came from (a verified quote's span, else the best
+ * match) and tag bytes drawn from sponsored copy
+ */
+export async function extractCheckedBytes(
+  subject: string,
+  textContent: string,
+  sourceName: string,
+  sponsorship: EditionSponsorship,
+  needSourceInfo: boolean,
+  calls: ExtractionCallOptions
+) {
+  const result = await extractEdition(subject, textContent, sourceName, needSourceInfo, calls);
+
+  const checked = verifyAttributions(result.bytes, textContent, sourceName).map((byte) => ({
+    ...byte,
+    passage: byte.attributionEvidence ?? locatePassage(byte.content, textContent),
+  }));
+  const unattributed = checked.filter((b) => b.attributionStatus === 'downgraded' || b.attributionStatus === 'unverified');
+  if (unattributed.length > 0) {
+    console.log(`[Queue] Quotes without verified attribution: ${unattributed.length}`);
+  }
+
+  const bytes = tagSponsoredBytes(checked, sponsorship);
+  const sponsored = bytes.filter((b) => b.isSponsored).length;
+  if (sponsored > 0) {
+    console.log(`[Queue] Sponsored bytes: ${sponsored}${sponsorship.isSponsored ? ' (sponsored edition)' : ''}`);
+  }
+
+  return { result, bytes };
+}
+
 /**
  * Reset failed editions to pending (for retry)
  */
@@ -279,7 +549,8 @@ export async function resetFailedEditions(): Promise<number> {
     data: {
       processingStatus: 'pending',
       processAttempts: 0,
-      processingError: null,
+      nextAttemptAt: null,
+      ...NO_FAILURE,
     },
   });
 
@@ -296,12 +567,125 @@ export async function markEditionPending(editionId: string): Promise<void> {
     data: {
       processingStatus: 'pending',
       processAttempts: 0,
-      processingError: null,
+      nextAttemptAt: null,
+      ...NO_FAILURE,
     },
   });
 }
 
-// Helper function
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+// =============================================================================
+// RE-EXTRACTION
+// =============================================================================
+
+export interface ReprocessFilter {
+  sourceId?: string;
+  from?: Date;            // publishedAt range
+  to?: Date;
+  beforeVersion?: number; // Editions extracted with an older version (default: EXTRACTION_VERSION)
+  limit?: number;
+  publicOnly?: boolean; // Leave out private inbox editions
+}
+
+export interface ReprocessPreview {
+  editionId: string;
+  subject: string;
+  source: string;
+  extractionVersion: number | null;
+  kept: { id: string; previous: string; next: string; score: number }[];
+  archived: { id: string; content: string; engagement: number }[];
+  added: string[];
+  error?: string;
+}
+
+/**
+ * Completed editions matching the filter, oldest first
+ */
+export async function findEditionsToReprocess(filter: ReprocessFilter) {
+  const beforeVersion = filter.beforeVersion ?? EXTRACTION_VERSION;
+
+  return prisma.edition.findMany({
+    where: {
+      processingStatus: 'completed',
+      ...(filter.sourceId && { sourceId: filter.sourceId }),
+      ...(filter.publicOnly && { source: { ownerId: null } }),
+      ...((filter.from || filter.to) && {
+        publishedAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+      }),
+      OR: [{ extractionVersion: null }, { extractionVersion: { lt: beforeVersion } }],
+    },
+    include: {
+      source: { select: { id: true, name: true, website: true, senderEmail: true } },
+    },
+    orderBy: { publishedAt: 'asc' },
+    take: filter.limit,
+  });
+}
+
+/**
+ * Put matching editions back in the queue; processEdition diffs the new
+ * bytes against the old ones instead of adding to them
+ */
+export async function queueReprocess(filter: ReprocessFilter): Promise<number> {
+  const editions = await findEditionsToReprocess(filter);
+  if (editions.length === 0) return 0;
+
+  const result = await prisma.edition.updateMany({
+    where: { id: { in: editions.map((e: { id: string }) => e.id) } },
+    data: {
+      processingStatus: 'pending',
+      processAttempts: 0,
+      nextAttemptAt: null,
+      ...NO_FAILURE,
+      cleanedContent: null, // Cleaned again with the current rules
+      removedSections: jsonNull,
+      cleaningProfile: null,
+      sponsoredSpans: jsonNull,
+    },
+  });
+
+  console.log(`[Queue] Queued ${result.count} editions for re-extraction`);
+  return result.count;
+}
+
+/**
+ * Dry run: extract matching editions now and report what reprocessing would
+ * keep, archive and add. Runs the model but writes nothing. Private inbox
+ * editions are queued like any other but never previewed to an admin.
+ */
+export async function previewReprocess(filter: ReprocessFilter): Promise<ReprocessPreview[]> {
+  const editions = await findEditionsToReprocess({ ...filter, publicOnly: true });
+  const previews: ReprocessPreview[] = [];
+
+  for (const edition of editions) {
+    const preview: ReprocessPreview = {
+      editionId: edition.id,
+      subject: edition.subject,
+      source: edition.source.name,
+      extractionVersion: edition.extractionVersion,
+      kept: [],
+      archived: [],
+      added: [],
+    };
+
+    try {
+      const { cleaned, sponsorship } = prepareEdition(edition);
+      const { bytes } = await extractCheckedBytes(edition.subject, cleaned.text, edition.source.name, sponsorship, false, {
+        usage: { editionId: edition.id, sourceId: edition.source.id },
+      });
+      const plan: ReextractionPlan = await planReextraction(edition.id, bytes);
+
+      preview.kept = plan.kept.map((k) => ({ id: k.id, previous: k.previous, next: k.byte.content, score: k.score }));
+      preview.archived = plan.archived;
+      preview.added = plan.added.map((b) => b.content);
+    } catch (error) {
+      preview.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    previews.push(preview);
+  }
+
+  return previews;
 }
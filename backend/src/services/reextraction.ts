@@ -0,0 +1,191 @@
+/**
+ * Re-extraction - Reconcile a fresh extraction with an edition's saved bytes
+ *
+ * When the extraction prompt or pipeline changes (EXTRACTION_VERSION), old
+ * editions can be run again. Inserting the new bytes next to the old ones
+ * would duplicate everything and split engagement, so the new bytes are
+ * diffed against the edition's live bytes first.
+ *
+ * Flow:
+ * 1. processEdition extracts and checks the bytes as usual
+ * 2. `planReextraction` pairs each new byte with the old byte it restates:
+ *    MinHash similarity, or the two came from the same source passage
+ * 3. `applyReextraction`:
+ *    - kept:     old byte takes the new phrasing, keeping its id and engagement
+ *    - archived: old bytes nothing restates get `archivedAt` and drop out of
+ *                feeds (utils/liveBytes); saves and history still resolve
+ *    - added:    new bytes nothing matched go through saveBytesWithDedup
+ *    All three run in one transaction, after the caller's `guard` (the
+ *    queue checks it still holds the edition's lease there)
+ *
+ * A first extraction is the same path with no old bytes: everything is added.
+ */
+
+import type { Prisma } from '@prisma/client';
+import { prisma, jsonNull } from './db';
+import { saveBytesWithDedup, DedupResult } from './dedup';
+import { ExtractedByte } from '../types';
+import { fingerprint, signatureSimilarity } from '../utils/minhash';
+import { LIVE_BYTES } from '../utils/liveBytes';
+
+const SAME_BYTE_SIMILARITY = 0.5; // Rewordings of one idea by a different prompt score lower than dedup's merges
+const SAME_PASSAGE_OVERLAP = 0.6; // Share of the shorter passage both bytes were taken from
+const SAVE_TIMEOUT_MS = 30_000; // Interactive transaction limit; dedup lookups for every new byte run inside it
+
+export interface KeptByte {
+  id: string;
+  previous: string;
+  byte: ExtractedByte;
+  score: number; // Match strength (0-1)
+}
+
+export interface ArchivedByte {
+  id: string;
+  content: string;
+  engagement: number; // Votes, saves and shares the byte had collected
+}
+
+export interface ReextractionPlan {
+  kept: KeptByte[];
+  archived: ArchivedByte[];
+  added: ExtractedByte[];
+}
+
+export interface ReextractionResult {
+  kept: number;
+  archived: number;
+  added: DedupResult;
+}
+
+/**
+ * Pair new bytes with the edition's live bytes. Reads only; nothing is written.
+ */
+export async function planReextraction(editionId: string, bytes: ExtractedByte[]): Promise<ReextractionPlan> {
+  const existing = await prisma.contentByte.findMany({
+    where: { editionId, ...LIVE_BYTES },
+    select: {
+      id: true,
+      content: true,
+      fingerprint: true,
+      passageStart: true,
+      passageEnd: true,
+      upvotes: true,
+      downvotes: true,
+      saveCount: true,
+      shareCount: true,
+    },
+  });
+
+  const incoming = bytes.map((byte) => ({ byte, signature: fingerprint(byte.content).signature }));
+
+  // Every pair that could be the same byte, strongest first
+  const pairs: { oldIndex: number; newIndex: number; score: number }[] = [];
+  existing.forEach((old: any, oldIndex: number) => {
+    const signature = old.fingerprint.length > 0 ? old.fingerprint : fingerprint(old.content).signature;
+    const passage = old.passageStart !== null ? { start: old.passageStart, end: old.passageEnd } : null;
+
+    incoming.forEach(({ byte, signature: newSignature }, newIndex) => {
+      const similarity = signatureSimilarity(signature, newSignature);
+      const samePassage = passageOverlap(passage, byte.passage) >= SAME_PASSAGE_OVERLAP;
+      const score = samePassage ? Math.max(similarity, SAME_BYTE_SIMILARITY) : similarity;
+      if (score >= SAME_BYTE_SIMILARITY) pairs.push({ oldIndex, newIndex, score });
+    });
+  });
+  pairs.sort((a, b) => b.score - a.score);
+
+  const plan: ReextractionPlan = { kept: [], archived: [], added: [] };
+  const matchedOld = new Set<number>();
+  const matchedNew = new Set<number>();
+
+  for (const pair of pairs) {
+    if (matchedOld.has(pair.oldIndex) || matchedNew.has(pair.newIndex)) continue;
+    matchedOld.add(pair.oldIndex);
+    matchedNew.add(pair.newIndex);
+
+    const old = existing[pair.oldIndex];
+    plan.kept.push({ id: old.id, previous: old.content, byte: bytes[pair.newIndex], score: pair.score });
+  }
+
+  existing.forEach((old: any, index: number) => {
+    if (matchedOld.has(index)) return;
+    plan.archived.push({
+      id: old.id,
+      content: old.content,
+      engagement: old.upvotes + old.downvotes + old.saveCount + old.shareCount,
+    });
+  });
+
+  plan.added = bytes.filter((_, index) => !matchedNew.has(index));
+
+  return plan;
+}
+
+/**
+ * Write a plan: rephrase kept bytes, archive replaced ones, save the rest.
+ * `guard` runs first in the same transaction; if it throws, nothing is written.
+ */
+export async function applyReextraction(
+  editionId: string,
+  plan: ReextractionPlan,
+  extractionVersion: number,
+  guard?: (tx: Prisma.TransactionClient) => Promise<void>
+): Promise<ReextractionResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await guard?.(tx);
+
+    if (plan.archived.length > 0) {
+      await tx.contentByte.updateMany({
+        where: { id: { in: plan.archived.map((b) => b.id) } },
+        data: { archivedAt: new Date() },
+      });
+    }
+
+    for (const { id, byte } of plan.kept) {
+      const fp = fingerprint(byte.content);
+      const current = await tx.contentByte.findUnique({ where: { id }, select: { moderationStatus: true } });
+
+      await tx.contentByte.update({
+        where: { id },
+        data: {
+          content: byte.content,
+          type: byte.type,
+          author: byte.author ?? null,
+          context: byte.context ?? null,
+          category: byte.category,
+          qualityScore: byte.qualityScore,
+          isAudited: false, // New phrasing hasn't been audited
+          attributionStatus: byte.attributionStatus ?? null,
+          attributionEvidence: byte.attributionEvidence ?? jsonNull,
+          passageStart: byte.passage?.start ?? null,
+          passageEnd: byte.passage?.end ?? null,
+          // Detection only adds the tag; one set by hand stays
+          ...(byte.isSponsored && { isSponsored: true, sponsorId: byte.sponsorId ?? null }),
+          fingerprint: fp.signature,
+          lshBands: fp.bands,
+          extractionVersion,
+          // Don't undo an admin's decision; only raise a flag on approved bytes
+          ...(byte.moderationStatus === 'flagged' && current?.moderationStatus === 'approved' && {
+            moderationStatus: 'flagged',
+          }),
+        },
+      });
+    }
+
+    const added = await saveBytesWithDedup(tx, editionId, plan.added, extractionVersion);
+
+    return { kept: plan.kept.length, archived: plan.archived.length, added };
+  }, { timeout: SAVE_TIMEOUT_MS });
+}
+
+/**
+ * Share of the shorter passage covered by both (0 when either is unknown)
+ */
+function passageOverlap(
+  a: { start: number; end: number } | null | undefined,
+  b: { start: number; end: number } | null | undefined
+): number {
+  if (!a || !b) return 0;
+  const shared = Math.min(a.end, b.end) - Math.max(a.start, b.start);
+  const shorter = Math.min(a.end - a.start, b.end - b.start);
+  return shared > 0 && shorter > 0 ? shared / shorter : 0;
+}
@@ -0,0 +1,108 @@
+/**
+ * Score Recompute - Scheduled bulk refresh of derived scores
+ *
+ * Engagement mutations only rescore the byte they touch, so trending scores
+ * never decay once votes stop, and source aggregates drift. This job fixes
+ * both in a few set-based UPDATEs.
+ *
+ * Flow (POST /internal/recompute-scores, hourly from the cron worker):
+ * 1. Trending: rescore bytes from the last TRENDING_WINDOW_DAYS with the
+ *    same formula as `computeEngagementScores`; older bytes drop to 0
+ * 2. Sources: totalInsights and avgEngagementScore over live, non-rejected
+ *    bytes (not merged away or archived; see utils/liveBytes)
+ * 3. Sources: subscriberCount from active subscriptions
+ */
+
+import { prisma } from './db';
+import { ENGAGEMENT_WEIGHTS, TRENDING_GRAVITY } from './engagement';
+import { timeStep } from './jobLog';
+
+const TRENDING_WINDOW_DAYS = 7;
+
+interface StepStats {
+  rows: number;
+  durationMs: number;
+}
+
+export interface RecomputeScoresStats {
+  trending: StepStats;
+  expiredTrending: StepStats;
+  sourceAggregates: StepStats;
+  subscriberCounts: StepStats;
+}
+
+/**
+ * Recompute trending scores, per-source aggregates and subscriber counts
+ */
+export async function recomputeScores(): Promise<RecomputeScoresStats> {
+  const windowStart = new Date(Date.now() - TRENDING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const w = ENGAGEMENT_WEIGHTS;
+
+  const trending = await timeStep<number>(() => prisma.$executeRaw`
+    UPDATE content_bytes
+    SET
+      "engagementScore" = scored.engagement,
+      "trendingScore" = scored.engagement / POWER(
+        EXTRACT(EPOCH FROM (NOW() - content_bytes."createdAt")) / 3600 + 2,
+        ${TRENDING_GRAVITY}::float8
+      )
+    FROM (
+      SELECT
+        "id",
+        "upvotes" * ${w.upvotes}::float8
+          + "downvotes" * ${w.downvotes}::float8
+          + "viewCount" * ${w.viewCount}::float8
+          + "saveCount" * ${w.saveCount}::float8
+          + "shareCount" * ${w.shareCount}::float8 AS engagement
+      FROM content_bytes
+      WHERE "createdAt" >= ${windowStart}
+    ) AS scored
+    WHERE content_bytes."id" = scored."id"
+  `);
+
+  // Out of every trending surface; zeroed once rather than rescored forever
+  const expiredTrending = await timeStep<number>(() => prisma.$executeRaw`
+    UPDATE content_bytes
+    SET "trendingScore" = 0
+    WHERE "createdAt" < ${windowStart} AND "trendingScore" <> 0
+  `);
+
+  const sourceAggregates = await timeStep<number>(() => prisma.$executeRaw`
+    UPDATE newsletter_sources AS s
+    SET
+      "totalInsights" = COALESCE(agg.total, 0),
+      "avgEngagementScore" = COALESCE(agg.avg_score, 0)
+    FROM newsletter_sources AS src
+    LEFT JOIN (
+      SELECT e."sourceId", COUNT(*)::int AS total, AVG(b."engagementScore") AS avg_score
+      FROM content_bytes b
+      JOIN editions e ON e."id" = b."editionId"
+      WHERE b."moderationStatus" <> 'rejected'
+        AND b."duplicateStatus" <> 'merged'
+        AND b."archivedAt" IS NULL
+      GROUP BY e."sourceId"
+    ) AS agg ON agg."sourceId" = src."id"
+    WHERE s."id" = src."id"
+  `);
+
+  const subscriberCounts = await timeStep<number>(() => prisma.$executeRaw`
+    UPDATE newsletter_sources AS s
+    SET "subscriberCount" = (
+      SELECT COUNT(*)::int
+      FROM user_subscriptions us
+      WHERE us."sourceId" = s."id" AND us."isActive" = true
+    )
+  `);
+
+  const toStats = (step: { result: number; durationMs: number }): StepStats => ({
+    rows: step.result,
+    durationMs: step.durationMs,
+  });
+
+  return {
+    trending: toStats(trending),
+    expiredTrending: toStats(expiredTrending),
+    sourceAggregates: toStats(sourceAggregates),
+    subscriberCounts: toStats(subscriberCounts),
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Spaced Repetition - Resurface saved and upvoted bytes on an SM-2 schedule
+ *
+ * Flow:
+ * 1. User saves or upvotes a byte → ReviewSchedule created, due in 1 day
+ * 2. /feed/next mixes due reviews into the new-tab stream (user.reviewRatio)
+ * 3. User answers "Remembered it" or "Show again sooner" → SM-2 moves the
+ *    due date out (or back to tomorrow) and adjusts the ease factor
+ * 4. Unsaving and removing the upvote drops the schedule
+ *
+ * Schedules are kept for every user; only users with enableSpacedRepetition
+ * get reviews mixed into their feed.
+ */
+
+import { prisma } from './db';
+import { getMuteFilter } from './muteRules';
+import { LIVE_BYTES, PUBLIC_BYTES } from '../utils/liveBytes';
+import { ReviewOutcome } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+// SM-2 grades answers 0-5; our two buttons map onto a pass and a fail
+const OUTCOME_QUALITY: Record<ReviewOutcome, number> = {
+  remembered: 4,
+  again: 1,
+};
+
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+}
+
+/**
+ * Apply one SM-2 review to a schedule
+ */
+export function nextReviewState(state: ReviewState, outcome: ReviewOutcome): ReviewState {
+  const quality = OUTCOME_QUALITY[outcome];
+  const easeFactor = Math.max(
+    MIN_EASE,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  // Failed recall starts the interval ladder over
+  if (quality < 3) {
+    return { easeFactor, intervalDays: 1, repetitions: 0 };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = 1;
+  } else if (repetitions === 2) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(state.intervalDays * easeFactor);
+  }
+
+  return { easeFactor, intervalDays, repetitions };
+}
+
+/**
+ * Create or drop a byte's schedule to match the user's engagement
+ * A byte stays scheduled while it is saved or upvoted
+ */
+export async function syncReviewSchedule(userId: string, byteId: string): Promise<void> {
+  const engagement = await prisma.userEngagement.findUnique({
+    where: { userId_byteId: { userId, byteId } },
+  });
+
+  if (engagement && (engagement.isSaved || engagement.vote === 1)) {
+    await prisma.reviewSchedule.upsert({
+      where: { userId_byteId: { userId, byteId } },
+      create: { userId, byteId, dueAt: new Date(Date.now() + DAY_MS) },
+      update: {}, // Keep existing progress
+    });
+  } else {
+    await prisma.reviewSchedule.deleteMany({ where: { userId, byteId } });
+  }
+}
+
+/**
+ * Schedule everything the user saved or upvoted before opting in
+ */
+export async function backfillReviewSchedules(userId: string): Promise<number> {
+  const engagements = await prisma.userEngagement.findMany({
+    where: {
+      userId,
+      OR: [{ isSaved: true }, { vote: 1 }],
+    },
+    select: { byteId: true },
+  });
+
+  const dueAt = new Date(Date.now() + DAY_MS);
+  const result = await prisma.reviewSchedule.createMany({
+    data: engagements.map((e) => ({ userId, byteId: e.byteId, dueAt })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+/**
+ * Record the user's answer for a review
+ * Returns null if the byte has no schedule
+ */
+export async function recordReview(userId: string, byteId: string, outcome: ReviewOutcome) {
+  const schedule = await prisma.reviewSchedule.findUnique({
+    where: { userId_byteId: { userId, byteId } },
+  });
+
+  if (!schedule) {
+    return null;
+  }
+
+  const next = nextReviewState(schedule, outcome);
+  const now = new Date();
+
+  return prisma.reviewSchedule.update({
+    where: { id: schedule.id },
+    data: {
+      ...next,
+      dueAt: new Date(now.getTime() + next.intervalDays * DAY_MS),
+      lastReviewedAt: now,
+      lastShownAt: null,
+    },
+  });
+}
+
+/**
+ * How many of `count` new-tab slots go to reviews
+ * Each slot is a review with probability `ratio`
+ */
+export function countReviewSlots(count: number, ratio: number, random: () => number = Math.random): number {
+  let slots = 0;
+  for (let i = 0; i < count; i++) {
+    if (random() < ratio) slots++;
+  }
+  return slots;
+}
+
+/**
+ * Take up to `limit` due reviews, oldest due first, and mark them shown
+ * Reviews handed out since `reservedSince` are skipped so two tabs don't
+ * get the same one before it's answered; the claim is one UPDATE with
+ * SKIP LOCKED, so concurrent requests never take the same schedule
+ * Bytes the feed wouldn't serve (merged, archived, private, muted, sponsored
+ * with recommendations off) stay scheduled but aren't handed out
+ */
+export async function takeDueReviews(userId: string, limit: number, reservedSince: Date) {
+  if (limit <= 0) {
+    return [];
+  }
+
+  const now = new Date();
+  const candidates: { id: string }[] = await prisma.reviewSchedule.findMany({
+    where: {
+      userId,
+      dueAt: { lte: now },
+      OR: [{ lastShownAt: null }, { lastShownAt: { lt: reservedSince } }],
+      // Same exclusions as fresh bytes: merged/archived, private, muted, hidden sponsored
+      byte: {
+        ...(await getMuteFilter(userId)),
+        ...LIVE_BYTES,
+        ...PUBLIC_BYTES,
+        moderationStatus: { not: 'rejected' },
+      },
+    },
+    select: { id: true },
+  });
+
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  // Re-check the reservation under the row lock: another tab may have won it
+  const claimed: { id: string }[] = await prisma.$queryRaw`
+    UPDATE review_schedules
+    SET "lastShownAt" = ${now}
+    WHERE "id" IN (
+      SELECT "id" FROM review_schedules
+      WHERE "id" = ANY(${candidates.map((c) => c.id)})
+        AND ("lastShownAt" IS NULL OR "lastShownAt" < ${reservedSince})
+      ORDER BY "dueAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `;
+
+  if (claimed.length === 0) {
+    return [];
+  }
+
+  const schedules = await prisma.reviewSchedule.findMany({
+    where: { id: { in: claimed.map((c) => c.id) } },
+    include: {
+      byte: {
+        include: {
+          edition: { include: { source: true } },
+          engagements: { where: { userId }, take: 1 },
+        },
+      },
+    },
+    orderBy: { dueAt: 'asc' },
+  });
+
+  return schedules.map((s) => ({ ...s.byte, isReview: true }));
+}
+
+/**
+ * Spread reviews evenly through a list of fresh bytes
+ */
+export function interleaveReviews<T>(fresh: T[], reviews: T[]): T[] {
+  const mixed = [...fresh];
+  reviews.forEach((review, i) => {
+    const position = Math.round(((i + 1) * (fresh.length + reviews.length)) / (reviews.length + 1)) - 1;
+    mixed.splice(Math.min(Math.max(position, 0), mixed.length), 0, review);
+  });
+  return mixed;
+}
@@ -0,0 +1,144 @@
+/**
+ * Sponsor Detection - Find paid content in an edition
+ *
+ * Sponsorship shows up three ways, and each is handled differently:
+ * - Sponsor sections ("Today's sponsor", "Presented by"…): the content
+ *   cleaner removes them, so nothing is extracted from them. They're listed
+ *   in Edition.removedSections with their sponsorId.
+ * - Affiliate links in the edition's own writing (Amazon tags, affiliate
+ *   networks, ?via= / ?fpr= codes): the paragraph stays, its span in the
+ *   cleaned text goes in Edition.sponsoredSpans
+ * - Sponsored editions (the subject says so, or the scraper flagged it):
+ *   Edition.isSponsored
+ *
+ * `tagSponsoredBytes` marks bytes from a sponsored edition, or whose passage
+ * overlaps a sponsored span, as isSponsored with the sponsorId. Users with
+ * enableRecommendations off never see them (services/muteRules).
+ *
+ * Fixture tests: test/sponsorDetection.test.ts (saved editions in test/fixtures/sponsors)
+ */
+
+export interface SponsoredSpan {
+  start: number; // Offsets into Edition.cleanedContent
+  end: number;
+  sponsorId: string;
+}
+
+export interface EditionSponsorship {
+  isSponsored: boolean;
+  sponsorId: string | null;
+  spans: SponsoredSpan[];
+}
+
+const SPONSOR_LABEL = /^(?:sponsored by|presented by|brought to you by|in partnership with|together with|today['’]?s sponsor|this (?:week|issue)['’]?s sponsor|our sponsors?\b|(?:a )?(?:quick )?(?:word|message) from (?:our|today['’]?s|this week['’]?s) sponsors?|from our sponsors?|sponsored\b|\(sponsored\)|partner (?:post|content))/i;
+
+// Labels that name the sponsor right after them ("Presented by Acme")
+const NAMING_LABEL = /^(?:sponsored by|presented by|brought to you by|in partnership with|together with|today['’]?s sponsor:)\s+(.+)/i;
+
+const SPONSORED_SUBJECT = /[[(]\s*(?:sponsored|ad|partner)\s*[\])]|^(?:sponsored|partner post|ad)\s*[:|-]/i;
+
+// Affiliate networks: host -> query param holding the merchant's URL, if any
+const AFFILIATE_NETWORKS: [host: RegExp, network: string, destinationParam?: string][] = [
+  [/(?:^|\.)shareasale\.com$/, 'shareasale', 'urllink'],
+  [/(?:^|\.)awin1\.com$/, 'awin', 'ued'],
+  [/(?:^|\.)(?:anrdoezrs\.net|jdoqocy\.com|tkqlhce\.com|dpbolvw\.net|kqzyfj\.com)$/, 'cj', 'url'],
+  [/^click\.linksynergy\.com$/, 'rakuten', 'murl'],
+  [/^go\.(?:skimresources|redirectingat)\.com$/, 'skimlinks', 'url'],
+  [/(?:^|\.)(?:sjv\.io|pxf\.io)$/, 'impact', 'u'],
+  [/(?:^|\.)partnerstack\.com$/, 'partnerstack'],
+];
+
+// Referral codes from affiliate tools (Rewardful, FirstPromoter, generic programs)
+const AFFILIATE_PARAMS = ['via', 'fpr', 'aff', 'affiliate', 'aff_id', 'affiliate_id', 'affid'];
+const AFFILIATE_UTM_MEDIUM = /^(?:affiliate|sponsor(?:ed|ship)?|paid|partner(?:ship)?)$/i;
+
+const MAX_SPONSOR_NAME = 40;
+
+/**
+ * Does the text open with a sponsor label ("Today's sponsor", "Presented by")?
+ */
+export function isSponsorLabel(text: string): boolean {
+  return SPONSOR_LABEL.test(text);
+}
+
+export function isSponsoredSubject(subject: string): boolean {
+  return SPONSORED_SUBJECT.test(subject.trim());
+}
+
+/**
+ * sponsorId for an affiliate link (the merchant's domain when the link
+ * says, else the program), or null if it isn't one
+ */
+export function affiliateSponsor(href: string): string | null {
+  const url = parseUrl(href);
+  if (!url) return null;
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+
+  if (host === 'amzn.to' || (/(?:^|\.)amazon\.[a-z.]+$/.test(host) && url.searchParams.has('tag'))) {
+    return 'amazon';
+  }
+
+  for (const [pattern, network, destinationParam] of AFFILIATE_NETWORKS) {
+    if (!pattern.test(host)) continue;
+    const destination = destinationParam && parseUrl(url.searchParams.get(destinationParam) || '');
+    return destination ? domainOf(destination) : network;
+  }
+
+  const medium = url.searchParams.get('utm_medium');
+  if (AFFILIATE_PARAMS.some((p) => url.searchParams.has(p)) || (medium && AFFILIATE_UTM_MEDIUM.test(medium))) {
+    return domainOf(url);
+  }
+
+  return null;
+}
+
+/**
+ * sponsorId for a sponsor section: the name after its label, else the
+ * first link's merchant or domain
+ */
+export function sponsorFromSection(text: string, links: string[]): string | null {
+  const named = NAMING_LABEL.exec(text.trim())?.[1].split(/[.!?:\n|–—]/)[0].trim();
+  if (named && named.length <= MAX_SPONSOR_NAME) {
+    const slug = named.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    if (slug) return slug;
+  }
+
+  for (const link of links) {
+    const url = parseUrl(link);
+    if (url) return affiliateSponsor(link) ?? domainOf(url);
+  }
+  return null;
+}
+
+/**
+ * Mark bytes from a sponsored edition, or drawn from a sponsored span
+ */
+export function tagSponsoredBytes<T extends { passage?: { start: number; end: number } | null }>(
+  bytes: T[],
+  sponsorship: EditionSponsorship
+): (T & { isSponsored: boolean; sponsorId: string | null })[] {
+  return bytes.map((byte) => {
+    if (sponsorship.isSponsored) {
+      return { ...byte, isSponsored: true, sponsorId: sponsorship.sponsorId };
+    }
+
+    const { passage } = byte;
+    const span = passage && sponsorship.spans.find((s) => s.start < passage.end && passage.start < s.end);
+    return span
+      ? { ...byte, isSponsored: true, sponsorId: span.sponsorId }
+      : { ...byte, isSponsored: false, sponsorId: null };
+  });
+}
+
+function parseUrl(href: string): URL | null {
+  try {
+    const url = new URL(href.replace(/&amp;/g, '&'));
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function domainOf(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '');
+}
@@ -125,6 +125,21 @@ export function htmlToText(html: string): string {
     .trim();
 }
 
+/**
+ * Find the "View in browser" / "Read online" link in a newsletter's HTML
+ */
+export function extractWebVersionUrl(html: string): string | null {
+  const link = /<a\b[^>]*href=["'](https?:\/\/[^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+  const label = /view\s+(?:this\s+(?:email|post)\s+)?(?:in\s+(?:your\s+)?browser|online)|read\s+(?:it\s+)?online|web\s+version|open\s+in\s+browser/i;
+
+  for (const match of html.matchAll(link)) {
+    if (label.test(htmlToText(match[2]))) {
+      return match[1].replace(/&amp;/g, '&');
+    }
+  }
+  return null;
+}
+
 /**
  * Verify Mailgun webhook signature
  */
@@ -85,9 +85,44 @@ export interface ContentByteResponse {
     isSaved: boolean;
   };
   isSponsored: boolean;
+  isReview?: boolean; // Resurfaced by spaced repetition
+  reason?: RecommendationReason; // Only with ?explain=true
+  editionUrl?: string | null; // Web version of the edition this came from
+  hasContext?: boolean; // GET /feed/bytes/:id/context can show the source passage
   createdAt: Date;
 }
 
+// GET /feed/bytes/:id/context
+export interface ByteContextResponse {
+  byteId: string;
+  passage: {
+    before: string[]; // Paragraphs before the passage
+    lead: string;     // Passage paragraph, up to the passage
+    text: string;     // The passage the byte came from
+    trail: string;    // Passage paragraph, after the passage
+    after: string[];  // Paragraphs after the passage
+  } | null; // Null when the passage couldn't be located
+  edition: {
+    id: string;
+    subject: string;
+    publishedAt: Date;
+    url: string | null;
+  };
+  source: {
+    name: string;
+    website: string | null;
+  };
+}
+
+// "Why am I seeing this?" - main ranking factors, strongest first
+export interface RecommendationReason {
+  summary: string;
+  factors: {
+    factor: string; // Scorer name, or subscription / review / recency
+    label: string;  // e.g. "From Farnam Street, which you subscribe to"
+  }[];
+}
+
 export interface FeedResponse {
   bytes: ContentByteResponse[];
   nextCursor: string | null;
@@ -109,6 +144,34 @@ export interface ViewInput {
   isRead?: boolean; // True if user actually read (tab active 5+ seconds)
 }
 
+export interface SaveInput {
+  saved?: boolean; // Desired state; omitted = toggle
+}
+
+export type ReviewOutcome = 'remembered' | 'again';
+
+export interface ReviewInput {
+  outcome: ReviewOutcome;
+}
+
+export type MuteRuleType = 'source' | 'author' | 'category' | 'keyword';
+
+export interface MuteRuleInput {
+  type: MuteRuleType;
+  value: string;
+  label?: string;
+  expiresInDays?: number; // Omit to mute until removed
+}
+
+export interface MuteRuleResponse {
+  id: string;
+  type: MuteRuleType;
+  value: string;
+  label: string | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
 export interface EngagementStats {
   totalUpvotes: number;
   totalDownvotes: number;
@@ -128,6 +191,23 @@ export interface ExtractedByte {
   context?: string;
   category: ByteCategory;
   qualityScore: number; // 0-1 AI confidence
+  // Set on quotes by the attribution check (services/attribution)
+  attributionStatus?: AttributionStatus;
+  attributionEvidence?: AttributionEvidence | null;
+  moderationStatus?: string;
+  passage?: { start: number; end: number } | null; // Offsets in the cleaned edition text
+  // Set when the byte comes from a sponsored edition or passage (services/sponsorDetection)
+  isSponsored?: boolean;
+  sponsorId?: string | null;
+}
+
+export type AttributionStatus = 'verified' | 'corrected' | 'downgraded' | 'unverified';
+
+export interface AttributionEvidence {
+  start: number; // Offsets of the quoted span in Edition.textContent
+  end: number;
+  text: string;
+  speaker: string | null; // Who the text around the span credits
 }
 
 export interface ProcessedEdition {
@@ -165,6 +245,15 @@ export interface UserPreferenceResponse {
   weight: number;
 }
 
+export type AffinityDimension = 'category' | 'type' | 'source' | 'tag';
+
+export interface AffinityWeightResponse {
+  key: string;
+  label?: string; // Source name for source affinities
+  weight: number; // 0-1, 0.5 = neutral
+  signals: number;
+}
+
 export interface PersonalizationProfile {
   preferences: UserPreferenceResponse[];
   topCategories: ByteCategory[];
@@ -173,6 +262,11 @@ export interface PersonalizationProfile {
     upvoteRatio: number;
     favoriteCategories: ByteCategory[];
   };
+  affinities: {
+    types: AffinityWeightResponse[];
+    sources: AffinityWeightResponse[];
+    tags: AffinityWeightResponse[];
+  };
 }
 
 // =============================================================================
@@ -0,0 +1,143 @@
+/**
+ * Edition Chunker
+ *
+ * Splits a long edition's plain text into sections small enough for one
+ * extraction call. Sections end on paragraph boundaries, preferably right
+ * before a heading, so each one reads as a coherent part of the essay.
+ * Paragraphs longer than a whole section are split between sentences.
+ *
+ * Boundaries are character offsets into the original text and are stored on
+ * the Edition (`chunkBoundaries`).
+ */
+
+export interface ChunkBoundary {
+  start: number;   // Inclusive offset into textContent
+  end: number;     // Exclusive offset
+  heading?: string; // Heading the section opens with, if any
+}
+
+export interface ChunkOptions {
+  maxChars?: number; // Hard cap per section
+  minChars?: number; // Don't end a section at a heading before this size
+}
+
+const DEFAULT_MAX_CHARS = 12000;
+const DEFAULT_MIN_CHARS = 4000;
+const MAX_HEADING_LENGTH = 80;
+
+interface Block {
+  start: number;
+  end: number;
+  isHeading: boolean;
+}
+
+/**
+ * Split text into sections; short text comes back as a single section
+ */
+export function chunkEdition(text: string, options: ChunkOptions = {}): ChunkBoundary[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const minChars = options.minChars ?? DEFAULT_MIN_CHARS;
+
+  if (text.length <= maxChars) {
+    return [withHeading(text, { start: 0, end: text.length })];
+  }
+
+  const chunks: ChunkBoundary[] = [];
+  let current: { start: number; end: number } | null = null;
+
+  for (const block of splitBlocks(text, maxChars)) {
+    if (current) {
+      const size = block.end - current.start;
+      const headingBreak = block.isHeading && current.end - current.start >= minChars;
+
+      if (size > maxChars || headingBreak) {
+        chunks.push(withHeading(text, current));
+        current = null;
+      }
+    }
+
+    current = current ? { start: current.start, end: block.end } : { start: block.start, end: block.end };
+  }
+
+  if (current) {
+    chunks.push(withHeading(text, current));
+  }
+
+  return chunks;
+}
+
+/**
+ * Offsets of each blank-line-separated paragraph, trailing whitespace excluded
+ */
+export function paragraphRanges(text: string): { start: number; end: number }[] {
+  const paragraph = /\S[\s\S]*?(?=\n\s*\n|$)/g;
+
+  return Array.from(text.matchAll(paragraph), (match) => ({
+    start: match.index!,
+    end: match.index! + match[0].trimEnd().length,
+  }));
+}
+
+/**
+ * Paragraph blocks with their offsets; oversized paragraphs are cut between sentences
+ */
+function splitBlocks(text: string, maxChars: number): Block[] {
+  const blocks: Block[] = [];
+
+  for (const { start, end } of paragraphRanges(text)) {
+    if (end - start <= maxChars) {
+      blocks.push({ start, end, isHeading: isHeading(text.slice(start, end)) });
+      continue;
+    }
+
+    blocks.push(...splitSentences(text, start, end, maxChars));
+  }
+
+  return blocks;
+}
+
+function splitSentences(text: string, start: number, end: number, maxChars: number): Block[] {
+  const blocks: Block[] = [];
+  const sentence = /[^.!?]+(?:[.!?]+|$)\s*/g;
+  let blockStart = start;
+  let blockEnd = start;
+
+  for (const match of text.slice(start, end).matchAll(sentence)) {
+    const sentenceEnd = start + match.index! + match[0].length;
+
+    if (sentenceEnd - blockStart > maxChars && blockEnd > blockStart) {
+      blocks.push({ start: blockStart, end: blockEnd, isHeading: false });
+      blockStart = blockEnd;
+    }
+
+    // A single sentence over the cap gets a hard cut
+    while (sentenceEnd - blockStart > maxChars) {
+      blocks.push({ start: blockStart, end: blockStart + maxChars, isHeading: false });
+      blockStart += maxChars;
+    }
+
+    blockEnd = sentenceEnd;
+  }
+
+  if (blockEnd > blockStart) {
+    blocks.push({ start: blockStart, end: blockEnd, isHeading: false });
+  }
+
+  return blocks;
+}
+
+/**
+ * Short single line without closing punctuation, or a markdown heading
+ */
+function isHeading(paragraph: string): boolean {
+  const line = paragraph.trim();
+  if (line.includes('\n') || line.length > MAX_HEADING_LENGTH) return false;
+  return /^#{1,6}\s/.test(line) || !/[.!?,;:"')\]]$/.test(line);
+}
+
+function withHeading(text: string, range: { start: number; end: number }): ChunkBoundary {
+  const firstLine = text.slice(range.start, range.end).trim().split('\n')[0];
+  return isHeading(firstLine)
+    ? { ...range, heading: firstLine.replace(/^#{1,6}\s+/, '') }
+    : range;
+}
@@ -0,0 +1,155 @@
+/**
+ * Opaque Feed Cursors
+ *
+ * Cursors are base64url-encoded JSON so clients treat them as opaque strings.
+ * Each feed type paginates on its own key, always tie-broken by byte id:
+ * - new / subscribed: (createdAt, id)
+ * - trending:         (trendingScore, id)
+ * - popular:          (ranked score, id) + page number for candidate over-fetch
+ * - personalized:     (ranked score, id) + page number, random seed and
+ *                     reference time, so page 2 is ranked exactly like page 1
+ *
+ * Ranked cursors also carry the ids that diversity caps held back, so they
+ * can still appear on the next page instead of being skipped for good.
+ *
+ * Ranked feeds rank a candidate pool that grows with the page number, so
+ * they end after MAX_RANKED_PAGES; cursors claiming a deeper page are rejected.
+ */
+
+import { FeedType } from '../types';
+
+const CURSOR_VERSION = 1;
+
+// Page 10 of a 50-byte personalized feed already ranks 2,500 candidates
+export const MAX_RANKED_PAGES = 10;
+
+export type FeedCursor =
+  | { type: 'new' | 'subscribed'; createdAt: string; id: string }
+  | { type: 'trending'; score: number; id: string }
+  | { type: 'popular'; score: number; id: string; page: number; heldBack: string[] }
+  | {
+      type: 'personalized';
+      score: number;
+      id: string;
+      page: number;
+      heldBack: string[];
+      seed: string;
+      asOf: number;
+    };
+
+type KeysetCursor = Extract<FeedCursor, { type: 'new' | 'subscribed' | 'trending' }>;
+
+/**
+ * Encode a cursor into an opaque string
+ */
+export function encodeFeedCursor(cursor: FeedCursor | null): string | null {
+  if (!cursor) return null;
+  const json = JSON.stringify({ v: CURSOR_VERSION, ...cursor });
+  return Buffer.from(json, 'utf8').toString('base64url');
+}
+
+/**
+ * Decode an opaque cursor string
+ * Returns null if the cursor is malformed or belongs to a different feed type
+ */
+export function decodeFeedCursor(raw: string, feedType: FeedType): FeedCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+
+    if (!parsed || parsed.v !== CURSOR_VERSION || parsed.type !== feedType) {
+      return null;
+    }
+    if (typeof parsed.id !== 'string') {
+      return null;
+    }
+
+    switch (parsed.type) {
+      case 'new':
+      case 'subscribed':
+        if (typeof parsed.createdAt !== 'string' || isNaN(Date.parse(parsed.createdAt))) return null;
+        return { type: parsed.type, createdAt: parsed.createdAt, id: parsed.id };
+      case 'trending':
+        if (typeof parsed.score !== 'number') return null;
+        return { type: 'trending', score: parsed.score, id: parsed.id };
+      case 'popular':
+        if (typeof parsed.score !== 'number' || !isPageIndex(parsed.page) || !isIdList(parsed.heldBack)) {
+          return null;
+        }
+        return { type: 'popular', score: parsed.score, id: parsed.id, page: parsed.page, heldBack: parsed.heldBack };
+      case 'personalized':
+        if (
+          typeof parsed.score !== 'number' ||
+          !isPageIndex(parsed.page) ||
+          !isIdList(parsed.heldBack) ||
+          typeof parsed.seed !== 'string' ||
+          typeof parsed.asOf !== 'number'
+        ) {
+          return null;
+        }
+        return {
+          type: 'personalized',
+          score: parsed.score,
+          id: parsed.id,
+          page: parsed.page,
+          heldBack: parsed.heldBack,
+          seed: parsed.seed,
+          asOf: parsed.asOf,
+        };
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a ranked feed has a page after `pageIndex`
+ */
+export function hasNextRankedPage(pageIndex: number): boolean {
+  return pageIndex < MAX_RANKED_PAGES - 1;
+}
+
+/**
+ * Cursor for the page after `last`, for feeds paginated in the database
+ */
+export function keysetCursor(
+  type: KeysetCursor['type'],
+  last: { id: string; createdAt: Date; trendingScore?: number | null }
+): KeysetCursor {
+  return type === 'trending'
+    ? { type, score: last.trendingScore ?? 0, id: last.id }
+    : { type, createdAt: last.createdAt.toISOString(), id: last.id };
+}
+
+/**
+ * Rows strictly after the cursor, for feeds ordered by (createdAt desc, id desc)
+ * or, for trending, (trendingScore desc, id desc)
+ */
+export function keysetWhere(cursor: KeysetCursor) {
+  if (cursor.type === 'trending') {
+    return {
+      OR: [
+        { trendingScore: { lt: cursor.score } },
+        { trendingScore: cursor.score, id: { lt: cursor.id } },
+      ],
+    };
+  }
+
+  const createdAt = new Date(cursor.createdAt);
+  return {
+    OR: [
+      { createdAt: { lt: createdAt } },
+      { createdAt, id: { lt: cursor.id } },
+    ],
+  };
+}
+
+// The cursor's own page, which must leave room for a next one
+function isPageIndex(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && hasNextRankedPage(value as number);
+}
+
+function isIdList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length <= 50 && value.every((id) => typeof id === 'string');
+}
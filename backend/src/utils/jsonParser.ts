@@ -6,21 +6,43 @@
  * - Missing closing backticks
  * - Extra whitespace
  * - Multiple JSON objects in response
+ *
+ * Strategies run from least to most invasive and the first one that parses
+ * wins; which one it was is reported so we can track how often responses
+ * need rescuing (services/llm/metrics).
  */
 
+export type ParseStrategy = 'direct' | 'code_block' | 'extracted' | 'cleaned' | 'comments_removed';
+
+export interface ParsedResponse<T> {
+  value: T | null;
+  strategy: ParseStrategy | null; // Null when nothing parsed
+}
+
 /**
  * Extract and parse JSON from AI response text
  * Handles markdown code blocks and various edge cases
  */
 export function parseAIResponse<T = any>(responseText: string): T | null {
+  return parseAIResponseWithStrategy<T>(responseText).value;
+}
+
+/**
+ * Same as parseAIResponse, plus which strategy produced the value
+ */
+export function parseAIResponseWithStrategy<T = any>(responseText: string): ParsedResponse<T> {
   if (!responseText || typeof responseText !== 'string') {
     console.error('[JSONParser] Empty or invalid response');
-    return null;
+    return { value: null, strategy: null };
   }
 
   let jsonStr = responseText.trim();
 
-  // Strategy 1: Try to extract from markdown code block
+  // Strategy 1: The response is already plain JSON
+  const direct = tryParse<T>(jsonStr);
+  if (direct.ok) return { value: direct.value, strategy: 'direct' };
+
+  // Strategy 2: Try to extract from markdown code block
   // Handle various code block formats: ```json, ```, ```JSON, etc.
   const codeBlockPatterns = [
     /```json\s*([\s\S]*?)```/i,           // ```json ... ```
@@ -41,7 +63,7 @@ export function parseAIResponse<T = any>(responseText: string): T | null {
     }
   }
 
-  // Strategy 2: If still has backticks, strip them aggressively
+  // If still has backticks, strip them aggressively
   if (jsonStr.includes('```')) {
     jsonStr = jsonStr
       .replace(/```json/gi, '')
@@ -49,6 +71,9 @@ export function parseAIResponse<T = any>(responseText: string): T | null {
       .trim();
   }
 
+  const fromCodeBlock = tryParse<T>(jsonStr);
+  if (fromCodeBlock.ok) return { value: fromCodeBlock.value, strategy: 'code_block' };
+
   // Strategy 3: Find the JSON object/array in the string
   // Look for the outermost { } or [ ]
   const jsonObjectMatch = jsonStr.match(/\{[\s\S]*\}/);
@@ -65,77 +90,41 @@ export function parseAIResponse<T = any>(responseText: string): T | null {
     jsonStr = jsonArrayMatch[0];
   }
 
+  const extracted = tryParse<T>(jsonStr);
+  if (extracted.ok) return { value: extracted.value, strategy: 'extracted' };
+
   // Strategy 4: Clean up common issues
   jsonStr = jsonStr
     .replace(/,\s*}/g, '}')      // Remove trailing commas in objects
     .replace(/,\s*]/g, ']')      // Remove trailing commas in arrays
     .replace(/[\x00-\x1F\x7F]/g, ' '); // Remove control characters
 
-  // Try to parse
-  try {
-    return JSON.parse(jsonStr) as T;
-  } catch (firstError) {
-    // Strategy 5: Try to fix common JSON syntax errors
-    try {
-      // Sometimes AI adds comments - remove them
-      const noComments = jsonStr
-        .replace(/\/\/[^\n]*/g, '')  // Remove // comments
-        .replace(/\/\*[\s\S]*?\*\//g, ''); // Remove /* */ comments
-
-      return JSON.parse(noComments) as T;
-    } catch (secondError) {
-      // Log detailed error for debugging
-      console.error('[JSONParser] Failed to parse JSON');
-      console.error('[JSONParser] Original length:', responseText.length);
-      console.error('[JSONParser] Cleaned length:', jsonStr.length);
-      console.error('[JSONParser] First 200 chars:', jsonStr.substring(0, 200));
-      console.error('[JSONParser] Last 200 chars:', jsonStr.substring(jsonStr.length - 200));
-      console.error('[JSONParser] Error:', secondError);
-
-      return null;
-    }
-  }
-}
+  const cleaned = tryParse<T>(jsonStr);
+  if (cleaned.ok) return { value: cleaned.value, strategy: 'cleaned' };
 
-/**
- * Validate extracted bytes from AI response
- */
-export interface RawByte {
-  content?: string;
-  type?: string;
-  author?: string | null;
-  context?: string | null;
-  category?: string;
-  qualityScore?: number;
-}
+  // Strategy 5: Sometimes AI adds comments - remove them
+  const noComments = jsonStr
+    .replace(/\/\/[^\n]*/g, '')  // Remove // comments
+    .replace(/\/\*[\s\S]*?\*\//g, ''); // Remove /* */ comments
+
+  const uncommented = tryParse<T>(noComments);
+  if (uncommented.ok) return { value: uncommented.value, strategy: 'comments_removed' };
+
+  // Log detailed error for debugging
+  console.error('[JSONParser] Failed to parse JSON');
+  console.error('[JSONParser] Original length:', responseText.length);
+  console.error('[JSONParser] Cleaned length:', jsonStr.length);
+  console.error('[JSONParser] First 200 chars:', jsonStr.substring(0, 200));
+  console.error('[JSONParser] Last 200 chars:', jsonStr.substring(jsonStr.length - 200));
+  console.error('[JSONParser] Error:', uncommented.error);
 
-export interface ValidatedByte {
-  content: string;
-  type: string;
-  author: string | null;
-  context: string | null;
-  category: string;
-  qualityScore: number;
+  return { value: null, strategy: null };
 }
 
-export function validateBytes(rawBytes: RawByte[]): ValidatedByte[] {
-  if (!Array.isArray(rawBytes)) {
-    return [];
+function tryParse<T>(text: string): { ok: boolean; value?: T; error?: unknown } {
+  try {
+    return { ok: true, value: JSON.parse(text) as T };
+  } catch (error) {
+    return { ok: false, error };
   }
-
-  return rawBytes
-    .filter((byte): byte is RawByte & { content: string } => {
-      if (!byte || typeof byte.content !== 'string') return false;
-      const len = byte.content.length;
-      const score = byte.qualityScore ?? 0.65;
-      return len >= 30 && len <= 500 && score >= 0.65;
-    })
-    .map((byte) => ({
-      content: byte.content.trim(),
-      type: byte.type || 'insight',
-      author: byte.author || null,
-      context: byte.context || null,
-      category: byte.category || 'general',
-      qualityScore: Math.min(1, Math.max(0, byte.qualityScore || 0.7)),
-    }));
 }
@@ -0,0 +1,18 @@
+/**
+ * Live Bytes
+ *
+ * Prisma ContentByte `where` fragment for bytes that may still be served.
+ * Two kinds of rows stay in the table for their engagement history but
+ * never reach users:
+ * - merged near-duplicate copies (services/dedup)
+ * - bytes archived when their edition was re-extracted (services/reextraction)
+ */
+
+export const LIVE_BYTES = { duplicateStatus: { not: 'merged' }, archivedAt: null };
+
+/**
+ * Bytes from public sources. Bytes from a user's private inbox
+ * (services/privateInbox) only reach that user, through /feed/next and the
+ * subscribed feed; every shared surface (feeds, discover, admin) spreads this.
+ */
+export const PUBLIC_BYTES = { edition: { source: { ownerId: null } } };
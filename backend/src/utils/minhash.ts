@@ -0,0 +1,119 @@
+/**
+ * MinHash Fingerprints
+ *
+ * A byte's fingerprint is a MinHash signature over character shingles of its
+ * normalized text. Two signatures agree in roughly the same fraction of
+ * positions as the texts' shingle sets overlap (Jaccard similarity), so a
+ * reworded or re-punctuated copy of a quote still scores high.
+ *
+ * Signatures are also cut into LSH bands: texts that share any band are
+ * candidates worth comparing, which keeps lookups to an indexed array match
+ * instead of a scan over every byte.
+ */
+
+export const SIGNATURE_SIZE = 64;
+const BANDS = 16; // 16 bands of 4 rows: pairs above ~0.5 similarity usually share a band
+const ROWS_PER_BAND = SIGNATURE_SIZE / BANDS;
+const SHINGLE_SIZE = 5;
+
+export interface Fingerprint {
+  signature: number[];
+  bands: string[]; // Empty when the text is too short to shingle: never a dedup candidate
+}
+
+// Fixed seeds so fingerprints stay comparable across deploys
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(0x9e3779b9 + i * 0x85ebca6b));
+
+/**
+ * Lowercase, no accents or punctuation, single spaces; letters and digits of
+ * any script are kept
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function fingerprint(text: string): Fingerprint {
+  const normalized = normalizeText(text);
+  const signature = minhash(shingles(normalized));
+  const bands: string[] = [];
+
+  // A few characters (or none, e.g. only punctuation) would match every other
+  // short text; the signature is still kept for comparing restated bytes
+  if (normalized.length < SHINGLE_SIZE) return { signature, bands };
+
+  for (let band = 0; band < BANDS; band++) {
+    let hash = 0x811c9dc5;
+    for (const value of signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND)) {
+      hash = mix32(hash ^ value);
+    }
+    bands.push(`${band}:${(hash >>> 0).toString(36)}`);
+  }
+
+  return { signature, bands };
+}
+
+/**
+ * Estimated Jaccard similarity of the two texts (0-1)
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+}
+
+function shingles(text: string): Set<number> {
+  const result = new Set<number>();
+  if (text.length <= SHINGLE_SIZE) {
+    result.add(fnv1a(text));
+    return result;
+  }
+
+  for (let i = 0; i + SHINGLE_SIZE <= text.length; i++) {
+    result.add(fnv1a(text.slice(i, i + SHINGLE_SIZE)));
+  }
+  return result;
+}
+
+// Stored as signed 32-bit so signatures fit a Postgres integer[]
+function minhash(shingleHashes: Set<number>): number[] {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0x7fffffff);
+
+  for (const shingle of shingleHashes) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+
+  return signature;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
+
+// murmur3 finalizer
+function mix32(value: number): number {
+  let h = value | 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h | 0;
+}
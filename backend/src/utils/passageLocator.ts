@@ -0,0 +1,131 @@
+/**
+ * Passage Locator
+ *
+ * Finds where in an edition's text a byte came from, so readers can jump to
+ * the surrounding article. Bytes are rewritten for punch, so this doesn't
+ * look for an exact match: it scores every run of 1-3 consecutive sentences
+ * in a paragraph by how many of the byte's content words it contains, and
+ * keeps the best run if it covers enough of them.
+ *
+ * Quotes don't need this; the attribution check already found their exact span.
+ */
+
+import { paragraphRanges } from './editionChunker';
+
+export interface PassageRange {
+  start: number; // Inclusive offset into Edition.textContent
+  end: number;   // Exclusive offset
+}
+
+export interface PassageContext {
+  before: string[]; // Whole paragraphs before the passage
+  lead: string;     // Start of the passage's paragraph, up to the passage
+  text: string;     // The passage itself
+  trail: string;    // Rest of the paragraph after the passage
+  after: string[];  // Whole paragraphs after the passage
+}
+
+const MAX_SENTENCES = 3;
+const MIN_SHARED_WORDS = 3;
+const MIN_COVERAGE = 0.4; // Share of the byte's content words the passage must contain
+const MAX_LEAD_CHARS = 600; // Email text often has no paragraph breaks; don't return the whole edition
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'is', 'it', 'its', 'not', 'of', 'on', 'or', 'so', 'than', 'that', 'the',
+  'their', 'them', 'they', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who', 'will', 'with',
+  'you', 'your',
+]);
+
+/**
+ * Best-matching passage for a byte, or null when nothing in the text is close
+ */
+export function locatePassage(content: string, text: string): PassageRange | null {
+  const target = contentWords(content);
+  if (target.size < MIN_SHARED_WORDS) return null;
+
+  let best: { range: PassageRange; score: number } | null = null;
+
+  for (const paragraph of paragraphRanges(text)) {
+    const sentences = sentenceRanges(text, paragraph);
+
+    for (let first = 0; first < sentences.length; first++) {
+      for (let last = first; last < Math.min(sentences.length, first + MAX_SENTENCES); last++) {
+        const range = { start: sentences[first].start, end: sentences[last].end };
+        const words = contentWords(text.slice(range.start, range.end));
+
+        let shared = 0;
+        for (const word of target) {
+          if (words.has(word)) shared++;
+        }
+
+        const coverage = shared / target.size;
+        if (shared < MIN_SHARED_WORDS || coverage < MIN_COVERAGE) continue;
+
+        // Coverage first; among equal coverage, the tighter passage wins
+        const score = coverage - words.size * 0.001;
+        if (!best || score > best.score) {
+          best = { range, score };
+        }
+      }
+    }
+  }
+
+  return best?.range ?? null;
+}
+
+/**
+ * The passage with the rest of its paragraph and `around` paragraphs on each side
+ */
+export function passageContext(text: string, passage: PassageRange, around: number = 2): PassageContext {
+  const paragraphs = paragraphRanges(text);
+  const first = Math.max(0, paragraphs.findIndex((p) => p.end > passage.start));
+  const lastIndex = paragraphs.findIndex((p) => p.end >= passage.end);
+  const last = lastIndex === -1 ? paragraphs.length - 1 : lastIndex;
+
+  const slice = (range: { start: number; end: number }) => text.slice(range.start, range.end);
+
+  return {
+    before: paragraphs.slice(Math.max(0, first - around), first).map(slice),
+    lead: clip(text.slice(paragraphs[first]?.start ?? passage.start, passage.start), 'lead'),
+    text: text.slice(passage.start, passage.end),
+    trail: clip(text.slice(passage.end, paragraphs[last]?.end ?? passage.end), 'trail'),
+    after: paragraphs.slice(last + 1, last + 1 + around).map(slice),
+  };
+}
+
+// Keep the MAX_LEAD_CHARS nearest the passage, cut at a word
+function clip(text: string, side: 'lead' | 'trail'): string {
+  if (text.length <= MAX_LEAD_CHARS) return text;
+
+  if (side === 'lead') {
+    const tail = text.slice(-MAX_LEAD_CHARS);
+    return '…' + tail.slice(tail.indexOf(' ') + 1);
+  }
+  const head = text.slice(0, MAX_LEAD_CHARS);
+  return head.slice(0, head.lastIndexOf(' ')) + '…';
+}
+
+function sentenceRanges(text: string, paragraph: PassageRange): PassageRange[] {
+  const sentence = /[^.!?]+(?:[.!?]+["'”’)]*|$)/g;
+  const ranges: PassageRange[] = [];
+
+  for (const match of text.slice(paragraph.start, paragraph.end).matchAll(sentence)) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const start = paragraph.start + match.index! + leading;
+    const end = paragraph.start + match.index! + match[0].trimEnd().length;
+    if (end > start) ranges.push({ start, end });
+  }
+
+  return ranges;
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * Response Schema Validation
+ *
+ * A small schema language for LLM JSON responses. Validation returns the
+ * cleaned value plus field-level errors (`$.bytes[2].content: ...`) that can
+ * be sent back to the model in a repair request.
+ *
+ * Arrays can drop invalid items instead of failing. Only when every item is
+ * malformed do the item errors count as errors.
+ *
+ * Thresholds (`dropBelow`) are not errors at all: a byte below the quality
+ * threshold is a valid answer we don't keep. Its array item is always
+ * dropped and never sent back for repair, even when nothing is left.
+ */
+
+export type FieldSchema =
+  | { type: 'string'; optional?: boolean; nullable?: boolean; minLength?: number; maxLength?: number; trim?: boolean }
+  | { type: 'enum'; values: readonly string[]; fallback?: string; optional?: boolean }
+  | {
+      type: 'number';
+      optional?: boolean;
+      min?: number;
+      max?: number;
+      default?: number;
+      clamp?: readonly [number, number];
+      dropBelow?: number; // Lower values drop the enclosing array item
+    }
+  | { type: 'array'; items: FieldSchema; optional?: boolean; maxItems?: number; dropInvalidItems?: boolean }
+  | { type: 'object'; fields: Record<string, FieldSchema>; optional?: boolean };
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: T | null; // Null when there are errors
+  errors: FieldError[];
+  dropped: FieldError[]; // Why array items were dropped
+}
+
+/**
+ * Validate and clean a parsed response
+ */
+export function validateResponse<T>(schema: FieldSchema, input: unknown): ValidationResult<T> {
+  const errors: FieldError[] = [];
+  const dropped: FieldError[] = [];
+  const value = validateField(schema, input, '$', errors, dropped, dropped);
+
+  return { value: errors.length === 0 ? (value as T) : null, errors, dropped };
+}
+
+/**
+ * Errors as bullet lines for a repair prompt or log
+ */
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map((e) => `- ${e.path}: ${e.message}`).join('\n');
+}
+
+function validateField(
+  schema: FieldSchema,
+  input: unknown,
+  path: string,
+  errors: FieldError[],
+  dropped: FieldError[],
+  belowThreshold: FieldError[] // Reasons to drop the enclosing array item
+): unknown {
+  if (input === undefined || input === null) {
+    if (schema.type === 'number' && schema.default !== undefined) return schema.default;
+    if (schema.type === 'enum' && schema.fallback !== undefined) return schema.fallback;
+    if (schema.type === 'string' && schema.nullable) return null;
+    if (schema.optional) return undefined;
+
+    errors.push({ path, message: 'is required' });
+    return undefined;
+  }
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof input !== 'string') {
+        errors.push({ path, message: `must be a string, got ${typeof input}` });
+        return undefined;
+      }
+      const value = schema.trim === false ? input : input.trim();
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push({ path, message: `must be at least ${schema.minLength} characters (got ${value.length})` });
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push({ path, message: `must be at most ${schema.maxLength} characters (got ${value.length})` });
+      }
+      // Empty optional strings read as "not provided"
+      return value === '' && schema.nullable ? null : value;
+    }
+
+    case 'enum': {
+      if (typeof input === 'string' && schema.values.includes(input)) return input;
+      if (schema.fallback !== undefined) return schema.fallback;
+
+      errors.push({ path, message: `must be one of ${schema.values.join(', ')}` });
+      return undefined;
+    }
+
+    case 'number': {
+      const parsed = typeof input === 'string' && input.trim() !== '' ? Number(input) : input;
+      if (typeof parsed !== 'number' || Number.isNaN(parsed)) {
+        errors.push({ path, message: `must be a number, got ${JSON.stringify(input)}` });
+        return undefined;
+      }
+      // Clamped first: out-of-range but meaningful values (a 1.2 score) are kept
+      const value = schema.clamp ? Math.min(schema.clamp[1], Math.max(schema.clamp[0], parsed)) : parsed;
+      if (schema.min !== undefined && value < schema.min) {
+        errors.push({ path, message: `must be at least ${schema.min} (got ${value})` });
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        errors.push({ path, message: `must be at most ${schema.max} (got ${value})` });
+      }
+      if (schema.dropBelow !== undefined && value < schema.dropBelow) {
+        belowThreshold.push({ path, message: `is below the threshold of ${schema.dropBelow} (got ${value})` });
+      }
+      return value;
+    }
+
+    case 'array': {
+      if (!Array.isArray(input)) {
+        errors.push({ path, message: 'must be an array' });
+        return undefined;
+      }
+
+      const items: unknown[] = [];
+      const itemErrors: FieldError[] = [];
+      let wellFormed = 0;
+
+      input.forEach((item, i) => {
+        const errorsForItem: FieldError[] = [];
+        const belowForItem: FieldError[] = [];
+        const value = validateField(schema.items, item, `${path}[${i}]`, errorsForItem, dropped, belowForItem);
+
+        if (errorsForItem.length > 0) {
+          itemErrors.push(...errorsForItem);
+          return;
+        }
+        wellFormed++;
+        if (belowForItem.length > 0) {
+          dropped.push(...belowForItem);
+        } else {
+          items.push(value);
+        }
+      });
+
+      if (schema.dropInvalidItems && (wellFormed > 0 || input.length === 0)) {
+        dropped.push(...itemErrors);
+      } else {
+        errors.push(...itemErrors);
+      }
+
+      return schema.maxItems !== undefined ? items.slice(0, schema.maxItems) : items;
+    }
+
+    case 'object': {
+      if (typeof input !== 'object' || Array.isArray(input)) {
+        errors.push({ path, message: 'must be an object' });
+        return undefined;
+      }
+
+      const value: Record<string, unknown> = {};
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        value[key] = validateField(
+          fieldSchema,
+          (input as Record<string, unknown>)[key],
+          `${path}.${key}`,
+          errors,
+          dropped,
+          belowThreshold
+        );
+      }
+      return value;
+    }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Seen-Byte Exclusion
+ *
+ * Builds a Prisma `where` fragment that drops bytes a user has already seen.
+ * The exclusion runs inside the database as an anti-join against
+ * content_history and user_engagements, so the query stays the same size no
+ * matter how long the user's history grows (no `notIn` list of every id).
+ *
+ * A byte counts as seen when the user has read it, voted on it or saved it.
+ */
+
+export interface SeenFilterOptions {
+  // Also exclude bytes shown to the user (read or not) since this time
+  shownSince?: Date;
+}
+
+/**
+ * Prisma ContentByte `where` fragment excluding bytes the user has seen
+ */
+export function unseenByUser(userId: string, options: SeenFilterOptions = {}) {
+  const historyMatch = options.shownSince
+    ? { userId, OR: [{ isRead: true }, { shownAt: { gte: options.shownSince } }] }
+    : { userId, isRead: true };
+
+  return {
+    history: { none: historyMatch },
+    engagements: {
+      none: {
+        userId,
+        OR: [
+          { vote: { not: 0 } }, // User voted (liked or disliked)
+          { isSaved: true },     // User saved/bookmarked
+        ],
+      },
+    },
+  };
+}
@@ -0,0 +1,65 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractEdition } from '../src/services/extraction';
+import { registerProvider, ProviderError } from '../src/services/llm';
+import { createFixtureProvider } from '../src/services/llm/fixtureProvider';
+
+const fixture = createFixtureProvider(undefined);
+
+// Fixture answers, except for sections containing a marker
+registerProvider({
+  name: 'flaky',
+  isAvailable: () => true,
+  async complete(request) {
+    const content = request.input?.content ?? '';
+    if (content.includes('OUTAGE')) throw new ProviderError('Service unavailable', true, 503);
+    if (content.includes('REJECTED')) throw new ProviderError('Bad request', false, 400);
+    return fixture.complete(request);
+  },
+});
+
+// Sentences with little vocabulary in common, so section bytes aren't merged as repeats
+function paragraph(seed: number): string {
+  return Array.from({ length: 6 }, (_, s) => {
+    const words = Array.from({ length: 10 }, (_, w) => `w${(seed * 131 + s * 37 + w * 17) % 997}`);
+    return `Lesson ${seed}-${s} says ${words.join(' ')}.`;
+  }).join(' ');
+}
+
+// Three headed parts of ~5000 characters: one extraction section each
+function edition(markers: string[]): string {
+  return markers
+    .map((marker, part) => {
+      const paragraphs = Array.from({ length: 14 }, (_, i) => paragraph(part * 100 + i));
+      return [`Part ${part + 1}`, ...(marker ? [`${marker} ${paragraphs[0]}`] : []), ...paragraphs.slice(1)].join('\n\n');
+    })
+    .join('\n\n');
+}
+
+describe('chunked extraction', () => {
+  before(() => {
+    delete process.env.LLM_OFFLINE;
+  });
+
+  const calls = { models: 'flaky:v1' };
+
+  test('a section that fails with a retryable error is skipped', async () => {
+    const text = edition(['', 'OUTAGE', '']);
+    const result = await extractEdition('Lessons', text, 'Source', false, calls);
+
+    assert.equal(result.chunks!.length, 3);
+    assert.ok(result.bytes.length > 0);
+    assert.ok(result.bytes.every((byte) => !/Lesson 1\d\d-/.test(byte.content)));
+    assert.ok(result.bytes.some((byte) => byte.content.startsWith('Lesson 2')));
+  });
+
+  test('the edition fails when every section fails', async () => {
+    const text = edition(['OUTAGE', 'OUTAGE', 'OUTAGE']);
+    await assert.rejects(extractEdition('Lessons', text, 'Source', false, calls), { name: 'ModelChainError' });
+  });
+
+  test('a permanent error fails the edition', async () => {
+    const text = edition(['', 'REJECTED', '']);
+    await assert.rejects(extractEdition('Lessons', text, 'Source', false, calls), { name: 'ModelChainError' });
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FeedCursor,
+  MAX_RANKED_PAGES,
+  decodeFeedCursor,
+  encodeFeedCursor,
+  hasNextRankedPage,
+  keysetCursor,
+  keysetWhere,
+} from '../src/utils/feedCursor';
+import { feedRanker, getRankingProfile, createSeededRandom, RankingCandidate } from '../src/services/feedRanker';
+import { FeedType } from '../src/types';
+
+const NOW = Date.UTC(2026, 0, 15);
+
+interface Row extends RankingCandidate {
+  trendingScore: number;
+  qualityScore: number;
+  engagementScore: number;
+}
+
+const encode = (cursor: FeedCursor) => encodeFeedCursor(cursor)!;
+const forge = (payload: object) => Buffer.from(JSON.stringify({ v: 1, ...payload })).toString('base64url');
+
+describe('cursor encoding', () => {
+  const cursors: FeedCursor[] = [
+    { type: 'new', createdAt: new Date(NOW).toISOString(), id: 'b1' },
+    { type: 'subscribed', createdAt: new Date(NOW).toISOString(), id: 'b2' },
+    { type: 'trending', score: 0.42, id: 'b3' },
+    { type: 'popular', score: 0.7, id: 'b4', page: 0, heldBack: ['b9'] },
+    { type: 'personalized', score: 0.61, id: 'b5', page: 2, heldBack: [], seed: 'a1b2c3d4', asOf: NOW },
+  ];
+
+  for (const cursor of cursors) {
+    test(`${cursor.type} cursors round-trip`, () => {
+      const raw = encode(cursor);
+      assert.match(raw, /^[A-Za-z0-9_-]+$/);
+      assert.deepEqual(decodeFeedCursor(raw, cursor.type), cursor);
+    });
+  }
+
+  test('a cursor only decodes for the feed type that issued it', () => {
+    const raw = encode(cursors[0]);
+    for (const type of ['subscribed', 'trending', 'popular', 'personalized'] as FeedType[]) {
+      assert.equal(decodeFeedCursor(raw, type), null);
+    }
+  });
+
+  test('tampered cursors are rejected', () => {
+    const tampered = [
+      'not-a-cursor',
+      encode(cursors[2]).slice(0, -4),
+      forge({ type: 'new', createdAt: 'yesterday', id: 'b1' }),
+      forge({ type: 'new', createdAt: new Date(NOW).toISOString(), id: 7 }),
+      forge({ type: 'trending', score: '0.4', id: 'b3' }),
+      forge({ type: 'popular', score: 0.7, id: 'b4', page: 1.5, heldBack: [] }),
+      forge({ type: 'popular', score: 0.7, id: 'b4', page: 0, heldBack: Array(51).fill('x') }),
+      forge({ type: 'personalized', score: 0.6, id: 'b5', page: 0, heldBack: [], asOf: NOW }),
+      Buffer.from(JSON.stringify({ v: 2, ...cursors[0] })).toString('base64url'),
+    ];
+    const types: FeedType[] = ['new', 'new', 'new', 'new', 'trending', 'popular', 'popular', 'personalized', 'new'];
+
+    tampered.forEach((raw, i) => assert.equal(decodeFeedCursor(raw, types[i]), null, raw));
+  });
+
+  test('ranked cursors past the maximum depth are rejected', () => {
+    const page = (n: number) => forge({ type: 'popular', score: 0.7, id: 'b4', page: n, heldBack: [] });
+
+    assert.notEqual(decodeFeedCursor(page(MAX_RANKED_PAGES - 2), 'popular'), null);
+    assert.equal(decodeFeedCursor(page(MAX_RANKED_PAGES - 1), 'popular'), null);
+    assert.equal(decodeFeedCursor(page(1e9), 'popular'), null);
+    assert.equal(decodeFeedCursor(page(-1), 'popular'), null);
+    assert.equal(
+      decodeFeedCursor(forge({ type: 'personalized', score: 0, id: 'b', page: 1e9, heldBack: [], seed: 's', asOf: NOW }), 'personalized'),
+      null
+    );
+  });
+
+  test('ranked feeds stop issuing cursors at the maximum depth', () => {
+    assert.equal(hasNextRankedPage(0), true);
+    assert.equal(hasNextRankedPage(MAX_RANKED_PAGES - 2), true);
+    assert.equal(hasNextRankedPage(MAX_RANKED_PAGES - 1), false);
+  });
+});
+
+// =============================================================================
+// PAGINATION
+// =============================================================================
+
+// Rows with ties on every sort key, so only the id tie-break keeps order stable
+function rows(): Row[] {
+  return Array.from({ length: 14 }, (_, i) => ({
+    id: `byte-${String(i).padStart(2, '0')}`,
+    category: 'wisdom',
+    createdAt: new Date(NOW - Math.floor(i / 3) * 60_000),
+    trendingScore: 1 - Math.floor(i / 4) * 0.1,
+    qualityScore: 1 - Math.floor(i / 4) * 0.1,
+    engagementScore: 50 - Math.floor(i / 4) * 10,
+    edition: { sourceId: `source-${i % 5}`, source: { id: `source-${i % 5}`, name: `Source ${i % 5}` } },
+  }));
+}
+
+// Just enough of Prisma's where semantics for keysetWhere
+function matches(row: Record<string, any>, where: Record<string, any>): boolean {
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'OR') return condition.some((branch: Record<string, any>) => matches(row, branch));
+    if (condition !== null && typeof condition === 'object' && !(condition instanceof Date)) {
+      return compare(row[field], condition.lt) < 0;
+    }
+    return compare(row[field], condition) === 0;
+  });
+}
+
+function compare(a: any, b: any): number {
+  const [x, y] = a instanceof Date ? [a.getTime(), b.getTime()] : [a, b];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function orderBy(all: Row[], field: 'createdAt' | 'trendingScore'): Row[] {
+  return [...all].sort((a, b) => compare(b[field], a[field]) || compare(b.id, a.id));
+}
+
+// The candidate pool a ranked feed loads: profile order, first `take` rows
+function loadPool(all: Row[], order: { [field: string]: 'asc' | 'desc' }[], take: number): Row[] {
+  const sorted = [...all].sort((a: Record<string, any>, b: Record<string, any>) => {
+    for (const entry of order) {
+      const [field, direction] = Object.entries(entry)[0];
+      const result = compare(a[field], b[field]);
+      if (result !== 0) return direction === 'asc' ? result : -result;
+    }
+    return 0;
+  });
+  return sorted.slice(0, take);
+}
+
+/**
+ * Page through a feed the way GET /feed does, passing every cursor through
+ * its encoded form. Returns the ids of each page.
+ */
+function paginate(type: FeedType, loadPage: (cursor: FeedCursor | null) => { ids: string[]; next: FeedCursor | null }) {
+  const pages: string[][] = [];
+  let raw: string | null = null;
+
+  do {
+    const cursor = raw ? decodeFeedCursor(raw, type) : null;
+    assert.ok(!raw || cursor, 'issued cursor failed to decode');
+    const page = loadPage(cursor);
+    pages.push(page.ids);
+    raw = encodeFeedCursor(page.next);
+  } while (raw && pages.length < 20);
+
+  return pages;
+}
+
+describe('keyset pagination', () => {
+  const limit = 4;
+
+  for (const type of ['new', 'subscribed'] as const) {
+    test(`${type} pages by (createdAt, id) without gaps or repeats`, () => {
+      const all = rows();
+      const pages = paginate(type, (cursor) => {
+        const where = cursor ? keysetWhere(cursor as Extract<FeedCursor, { type: typeof type }>) : {};
+        const page = orderBy(all.filter((row) => matches(row, where)), 'createdAt').slice(0, limit);
+        return {
+          ids: page.map((row) => row.id),
+          next: page.length === limit ? keysetCursor(type, page[page.length - 1]) : null,
+        };
+      });
+
+      assert.deepEqual(pages.flat(), orderBy(all, 'createdAt').map((row) => row.id));
+      assert.equal(pages.length, Math.ceil(all.length / limit));
+    });
+  }
+
+  test('trending pages by (trendingScore, id) through the ranker', () => {
+    const all = rows();
+    const profile = getRankingProfile('trending');
+
+    const pages = paginate('trending', (cursor) => {
+      const where = cursor ? keysetWhere(cursor as Extract<FeedCursor, { type: 'trending' }>) : {};
+      const candidates = orderBy(all.filter((row) => matches(row, where)), 'trendingScore').slice(0, limit);
+      const ranked = feedRanker.rank(candidates, profile, limit);
+      return {
+        ids: ranked.map((r) => r.byte.id),
+        next: ranked.length === limit ? keysetCursor('trending', ranked[ranked.length - 1].byte) : null,
+      };
+    });
+
+    assert.deepEqual(pages.flat(), orderBy(all, 'trendingScore').map((row) => row.id));
+  });
+
+  test('equal scores tie-break by id, descending', () => {
+    const tied = rows().slice(0, 4);
+    const ranked = feedRanker.rank(tied, getRankingProfile('trending'), 4);
+    assert.deepEqual(ranked.map((r) => r.byte.id), ['byte-03', 'byte-02', 'byte-01', 'byte-00']);
+  });
+});
+
+describe('ranked pagination', () => {
+  const limit = 3;
+
+  /**
+   * One page of a ranked feed: rank the pool the route would load for this
+   * page, continuing after the cursor's key and with its held-back ids
+   */
+  function rankedPage(type: 'popular' | 'personalized', all: Row[], cursor: FeedCursor | null) {
+    const profile = getRankingProfile(type);
+    const previous = cursor as Extract<FeedCursor, { type: 'popular' | 'personalized' }> | null;
+    const pageIndex = previous ? previous.page + 1 : 0;
+    const seed = previous?.type === 'personalized' ? previous.seed : 'seed-1';
+    const asOf = previous?.type === 'personalized' ? previous.asOf : NOW;
+
+    const pool = loadPool(all, profile.candidateOrderBy, (pageIndex + 1) * limit * profile.candidateMultiplier);
+    const ranked = feedRanker.rankPage(pool, profile, limit, {
+      random: createSeededRandom(seed),
+      now: asOf,
+      after: previous ? { score: previous.score, id: previous.id } : undefined,
+      heldBack: previous?.heldBack,
+    });
+
+    const hasNext = ranked.items.length === limit && ranked.nextKey && hasNextRankedPage(pageIndex);
+    const base = { ...ranked.nextKey!, page: pageIndex, heldBack: ranked.heldBack };
+    return {
+      ids: ranked.items.map((item) => item.byte.id),
+      next: !hasNext ? null : type === 'popular'
+        ? { type, ...base }
+        : { type, ...base, seed, asOf },
+    } as { ids: string[]; next: FeedCursor | null };
+  }
+
+  test('popular shows every byte exactly once', () => {
+    const all = rows();
+    const pages = paginate('popular', (cursor) => rankedPage('popular', all, cursor));
+    const ids = pages.flat();
+
+    assert.equal(new Set(ids).size, ids.length);
+    assert.deepEqual([...ids].sort(), all.map((row) => row.id).sort());
+  });
+
+  test('popular ranks higher scores first and ties by id', () => {
+    const pages = paginate('popular', (cursor) => rankedPage('popular', rows(), cursor));
+    assert.deepEqual(pages[0], ['byte-03', 'byte-02', 'byte-01']);
+    assert.deepEqual(pages[1], ['byte-00', 'byte-07', 'byte-06']);
+  });
+
+  test('personalized never repeats a byte, including ones held back by diversity caps', () => {
+    const all = rows();
+    const pages = paginate('personalized', (cursor) => rankedPage('personalized', all, cursor));
+    const ids = pages.flat();
+
+    assert.equal(new Set(ids).size, ids.length);
+    assert.deepEqual([...ids].sort(), all.map((row) => row.id).sort());
+  });
+
+  test('personalized keeps its seed and reference time across pages', () => {
+    const first = rankedPage('personalized', rows(), null);
+    const cursor = decodeFeedCursor(encode(first.next!), 'personalized') as Extract<FeedCursor, { type: 'personalized' }>;
+
+    assert.equal(cursor.seed, 'seed-1');
+    assert.equal(cursor.asOf, NOW);
+    // Same cursor, same page: the seed makes the ranking reproducible
+    assert.deepEqual(rankedPage('personalized', rows(), cursor), rankedPage('personalized', rows(), cursor));
+  });
+
+  test('ranked feeds end at the maximum depth', () => {
+    const many = Array.from({ length: 200 }, (_, i) => ({ ...rows()[0], id: `byte-${String(i).padStart(3, '0')}` }));
+    const pages = paginate('popular', (cursor) => rankedPage('popular', many, cursor));
+    assert.equal(pages.length, MAX_RANKED_PAGES);
+  });
+});
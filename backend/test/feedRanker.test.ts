@@ -0,0 +1,239 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FeedRanker,
+  feedRanker,
+  getRankingProfile,
+  RANKING_PROFILES,
+  RankingCandidate,
+  RankingProfile,
+  ScorerName,
+} from '../src/services/feedRanker';
+import { mockDb } from '../src/services/mockDb';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+
+function candidate(
+  id: string,
+  fields: Partial<RankingCandidate> & { sourceId?: string } = {}
+): RankingCandidate {
+  const { sourceId = `source-${id}`, ...rest } = fields;
+  return {
+    id,
+    category: 'wisdom',
+    qualityScore: 0.5,
+    engagementScore: 0,
+    createdAt: new Date(NOW),
+    edition: { sourceId, source: { id: sourceId, name: `Source ${sourceId}` } },
+    ...rest,
+  };
+}
+
+// A profile weighing a single scorer, to read its raw signal
+function only(scorer: ScorerName): RankingProfile {
+  return {
+    name: 'popular',
+    version: 0,
+    weights: { [scorer]: 1 },
+    candidateMultiplier: 1,
+    candidateOrderBy: [],
+  };
+}
+
+function signal(scorer: ScorerName, byte: RankingCandidate, context = {}): number {
+  const [ranked] = feedRanker.rank([byte], only(scorer), 1, { now: NOW, ...context });
+  return ranked.signals[scorer]!;
+}
+
+describe('scorers', () => {
+  test('quality treats unscored bytes as average', () => {
+    assert.equal(signal('quality', candidate('a', { qualityScore: 0.9 })), 0.9);
+    assert.equal(signal('quality', candidate('a', { qualityScore: null })), 0.5);
+  });
+
+  test('engagement saturates at 100', () => {
+    assert.equal(signal('engagement', candidate('a', { engagementScore: 25 })), 0.25);
+    assert.equal(signal('engagement', candidate('a', { engagementScore: 400 })), 1);
+  });
+
+  test('recency decays to zero over 30 days', () => {
+    const aged = (days: number) => candidate('a', { createdAt: new Date(NOW - days * DAY_MS) });
+    assert.equal(signal('recency', aged(0)), 1);
+    assert.equal(signal('recency', aged(15)), 0.5);
+    assert.equal(signal('recency', aged(45)), 0);
+  });
+
+  test('categoryAffinity reads the category weight, neutral when unknown', () => {
+    const preferences = [{ category: 'wisdom', weight: 0.8 }];
+    assert.equal(signal('categoryAffinity', candidate('a'), { preferences }), 0.8);
+    assert.equal(signal('categoryAffinity', candidate('a', { category: 'tech' }), { preferences }), 0.5);
+  });
+
+  test('affinity averages the type, source and tag weights', () => {
+    const byte = candidate('a', { type: 'quote', sourceId: 's1', tags: ['Focus', 'habits'] });
+    const affinities = [
+      { dimension: 'type', key: 'quote', weight: 0.9 },
+      { dimension: 'source', key: 's1', weight: 0.6 },
+      { dimension: 'tag', key: 'focus', weight: 0.7 },
+    ];
+    // Tags average to (0.7 + 0.5) / 2; unknown tags are neutral
+    assert.equal(signal('affinity', byte, { affinities }), (0.9 + 0.6 + 0.6) / 3);
+    assert.equal(signal('affinity', candidate('b', { edition: null })), 0.5);
+  });
+
+  test('randomness uses the injected generator', () => {
+    assert.equal(signal('randomness', candidate('a'), { random: () => 0.25 }), 0.25);
+  });
+
+  test('trending reads trendingScore', () => {
+    assert.equal(signal('trending', candidate('a', { trendingScore: 0.7 })), 0.7);
+    assert.equal(signal('trending', candidate('a')), 0);
+  });
+
+  test('sourceDiversity halves for each earlier byte from the same source in the pool', () => {
+    const pool = [
+      candidate('a', { sourceId: 's1' }),
+      candidate('b', { sourceId: 's2' }),
+      candidate('c', { sourceId: 's1' }),
+      candidate('d', { sourceId: 's1' }),
+    ];
+    const ranked = feedRanker.rank(pool, only('sourceDiversity'), 4);
+    const signals = Object.fromEntries(ranked.map((r) => [r.byte.id, r.signals.sourceDiversity]));
+    assert.deepEqual(signals, { a: 1, b: 1, c: 0.5, d: 0.25 });
+  });
+
+  test('registered scorers replace the default of the same name', () => {
+    const ranker = new FeedRanker();
+    ranker.registerScorer({ name: 'quality', score: () => 0.1 });
+    const [ranked] = ranker.rank([candidate('a', { qualityScore: 0.9 })], only('quality'), 1);
+    assert.equal(ranked.signals.quality, 0.1);
+  });
+});
+
+describe('ranking profiles', () => {
+  test('every weighted scorer is registered', () => {
+    for (const profile of Object.values(RANKING_PROFILES)) {
+      for (const weights of [profile.weights, profile.coldStartWeights ?? {}]) {
+        const [ranked] = feedRanker.rank([candidate('a')], { ...profile, weights, coldStartWeights: undefined }, 1, {
+          now: NOW,
+          random: () => 0.5,
+        });
+        assert.deepEqual(Object.keys(ranked.breakdown).sort(), Object.keys(weights).sort(), profile.name);
+      }
+    }
+  });
+
+  test('profiles are looked up by name and versioned', () => {
+    for (const [name, profile] of Object.entries(RANKING_PROFILES)) {
+      assert.equal(getRankingProfile(profile.name), profile);
+      assert.equal(profile.name, name);
+      assert.ok(Number.isInteger(profile.version) && profile.version >= 1, name);
+    }
+  });
+
+  test('score is the weighted sum of signals', () => {
+    const profile = getRankingProfile('popular');
+    const [ranked] = feedRanker.rank([candidate('a', { qualityScore: 0.8, engagementScore: 50 })], profile, 1);
+    assert.equal(ranked.breakdown.quality, 0.8 * 0.4);
+    assert.equal(ranked.breakdown.engagement, 0.5 * 0.6);
+    assert.equal(ranked.score, 0.8 * 0.4 + 0.5 * 0.6);
+  });
+});
+
+describe('cold start', () => {
+  const profile = getRankingProfile('personalized');
+  const context = { now: NOW, random: () => 0.5 };
+
+  test('users without preferences get the cold-start weights', () => {
+    const [ranked] = feedRanker.rank([candidate('a')], profile, 1, context);
+    assert.deepEqual(Object.keys(ranked.breakdown).sort(), Object.keys(profile.coldStartWeights!).sort());
+    assert.equal(ranked.breakdown.categoryAffinity, undefined);
+  });
+
+  test('learned preferences switch to the full weights', () => {
+    const preferences = [{ category: 'wisdom', weight: 0.9 }];
+    const [ranked] = feedRanker.rank([candidate('a')], profile, 1, { ...context, preferences });
+    assert.deepEqual(Object.keys(ranked.breakdown).sort(), Object.keys(profile.weights).sort());
+    assert.equal(ranked.signals.categoryAffinity, 0.9);
+  });
+
+  test('a liked category outranks an equal byte from another category', () => {
+    const preferences = [{ category: 'tech', weight: 1 }];
+    const ranked = feedRanker.rank(
+      [candidate('a', { category: 'wisdom' }), candidate('b', { category: 'tech' })],
+      profile,
+      2,
+      { ...context, preferences }
+    );
+    assert.deepEqual(ranked.map((r) => r.byte.id), ['b', 'a']);
+  });
+});
+
+describe('diversity caps', () => {
+  // Six strong bytes from one source, then weaker ones from others
+  const pool = [
+    ...['a1', 'a2', 'a3', 'a4', 'a5', 'a6'].map((id) => candidate(id, { sourceId: 'big', qualityScore: 0.9 })),
+    ...['b', 'c', 'd'].map((id) => candidate(id, { qualityScore: 0.3 })),
+  ];
+
+  test('curated pages take at most two bytes per source', () => {
+    const page = feedRanker.rankPage(pool, getRankingProfile('curated'), 4, { now: NOW });
+    const fromBig = page.items.filter((item) => item.byte.edition?.sourceId === 'big');
+    assert.equal(page.items.length, 4);
+    assert.equal(fromBig.length, 2);
+  });
+
+  test('capped bytes ranked above the page are held back for the next one', () => {
+    const page = feedRanker.rankPage(pool, getRankingProfile('curated'), 4, { now: NOW });
+    const selected = new Set(page.items.map((item) => item.byte.id));
+    assert.ok(page.heldBack.length > 0);
+    assert.ok(page.heldBack.every((id) => id.startsWith('a') && !selected.has(id)));
+  });
+
+  test('personalized pages cap authors as well as sources', () => {
+    const byAuthor = ['x', 'y', 'z', 'w'].map((id) => candidate(id, { author: 'Seneca', qualityScore: 0.9 }));
+    const others = ['p', 'q'].map((id) => candidate(id, { qualityScore: 0.1 }));
+    const ranked = feedRanker.rank([...byAuthor, ...others], getRankingProfile('personalized'), 4, {
+      now: NOW,
+      random: () => 0.5,
+    });
+    assert.equal(ranked.filter((r) => r.byte.author === 'Seneca').length, 2);
+  });
+
+  test('backfill fills the page when caps leave it short', () => {
+    const oneSource = pool.slice(0, 6);
+    const ranked = feedRanker.rank(oneSource, getRankingProfile('curated'), 4, { now: NOW });
+    assert.equal(ranked.length, 4);
+  });
+
+  test('profiles without caps keep the ranked order', () => {
+    const ranked = feedRanker.rank(pool, getRankingProfile('popular'), 4);
+    assert.deepEqual(ranked.map((r) => r.byte.id), ['a6', 'a5', 'a4', 'a3']);
+  });
+});
+
+describe('against the mock DB', () => {
+  test('popular ranks mock bytes by weighted quality and engagement', async () => {
+    const profile = getRankingProfile('popular');
+    const bytes = await mockDb.contentByte.findMany({ orderBy: profile.candidateOrderBy, take: 10 });
+
+    const ranked = feedRanker.rank(bytes, profile, 3);
+    const expected = [...bytes]
+      .map((byte) => ({ id: byte.id, score: byte.qualityScore * 0.4 + Math.min(byte.engagementScore / 100, 1) * 0.6 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 3)
+      .map((b) => b.id);
+
+    assert.deepEqual(ranked.map((r) => r.byte.id), expected);
+  });
+
+  test('trending ranks mock bytes by trendingScore', async () => {
+    const profile = getRankingProfile('trending');
+    const bytes = await mockDb.contentByte.findMany({ orderBy: profile.candidateOrderBy });
+
+    const ranked = feedRanker.rank(bytes, profile, bytes.length);
+    const scores = ranked.map((r) => r.byte.trendingScore);
+    assert.deepEqual(scores, [...scores].sort((a, b) => b - a));
+  });
+});
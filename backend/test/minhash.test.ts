@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fingerprint, normalizeText, signatureSimilarity } from '../src/utils/minhash';
+
+const similarity = (a: string, b: string) => signatureSimilarity(fingerprint(a).signature, fingerprint(b).signature);
+
+describe('normalizeText', () => {
+  test('drops case, accents and punctuation', () => {
+    assert.equal(normalizeText('  Café—“Déjà vu!”  '), 'cafe deja vu');
+  });
+
+  test('keeps letters and digits of other scripts', () => {
+    assert.equal(normalizeText('知識は力なり。'), '知識は力なり');
+    assert.equal(normalizeText('Знание — сила, 1597!'), 'знание сила 1597');
+  });
+});
+
+describe('fingerprint', () => {
+  test('a re-punctuated copy is near-identical', () => {
+    const quote = 'You do not rise to the level of your goals. You fall to the level of your systems.';
+    assert.ok(similarity(quote, quote.replace(/\./g, ';').toUpperCase()) > 0.9);
+  });
+
+  test('different non-Latin texts are not duplicates', () => {
+    assert.ok(similarity('知識は力なり、そして学び続けることが大切だ', '今日できることを明日に延ばすな') < 0.45);
+    assert.ok(similarity('Знание — сила, а время — деньги', 'Тише едешь — дальше будешь') < 0.45);
+  });
+
+  test('text too short to shingle gets no LSH bands', () => {
+    for (const text of ['', '!!!', 'Yes.', '知識']) {
+      const fp = fingerprint(text);
+      assert.deepEqual(fp.bands, [], text);
+      assert.equal(fp.signature.length, 64, text);
+    }
+    assert.equal(fingerprint('Focus beats talent.').bands.length, 16);
+  });
+});
@@ -0,0 +1,80 @@
+import { before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { extractCheckedBytes, prepareEdition } from '../src/services/processingQueue';
+import { checkEditionContent } from '../src/services/failureTriage';
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'editions');
+
+// A saved edition as the webhook stores it
+function edition(file: string, subject: string) {
+  const raw = fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8');
+  return { subject, rawContent: raw, textContent: '', source: { senderEmail: 'margins@substack.com' } };
+}
+
+// Clean → extract on the fixture provider → check passages → tag sponsored bytes
+async function runPipeline(subject: string) {
+  const { cleaned, sponsorship } = prepareEdition(edition('reading-slowly.html', subject));
+  checkEditionContent(cleaned.text);
+
+  const { result, bytes } = await extractCheckedBytes(subject, cleaned.text, 'Margins', sponsorship, false, {});
+  return { cleaned, sponsorship, result, bytes };
+}
+
+describe('edition pipeline on the fixture provider', () => {
+  before(() => {
+    process.env.LLM_OFFLINE = 'true';
+    delete process.env.LLM_FIXTURES_DIR;
+  });
+
+  test('extraction runs offline and records the fixture model', async () => {
+    const { result, bytes } = await runPipeline('The habit of reading slowly');
+    assert.equal(result.modelUsed, 'fixture-v1');
+    assert.equal(bytes.length, 3);
+  });
+
+  test('boilerplate and sponsor sections never reach extraction', async () => {
+    const { cleaned, bytes } = await runPipeline('The habit of reading slowly');
+
+    // A section's label and copy are removed separately under one sponsorId
+    const sponsorIds = new Set(cleaned.removed.filter((r) => r.kind === 'sponsor').map((r) => r.sponsorId));
+    assert.deepEqual([...sponsorIds], ['acme-notes']);
+    for (const text of ['Subscribe here', 'Unsubscribe', 'Acme Notes keeps every highlight']) {
+      assert.ok(!cleaned.text.includes(text), text);
+      assert.ok(bytes.every((byte) => !byte.content.includes(text)), text);
+    }
+  });
+
+  test('every byte points at the passage it came from', async () => {
+    const { cleaned, bytes } = await runPipeline('The habit of reading slowly');
+
+    for (const byte of bytes) {
+      assert.ok(byte.passage, byte.content);
+      const passage = cleaned.text.slice(byte.passage.start, byte.passage.end);
+      assert.ok(passage.includes(byte.content.split(' ').slice(-4).join(' ')), byte.content);
+    }
+  });
+
+  test('only the byte from the affiliate passage is tagged', async () => {
+    const { bytes } = await runPipeline('The habit of reading slowly');
+    const tagged = bytes.filter((byte) => byte.isSponsored);
+
+    assert.equal(tagged.length, 1);
+    assert.match(tagged[0].content, /reread it every January/);
+    assert.equal(tagged[0].sponsorId, 'amazon');
+  });
+
+  test('a sponsored subject tags every byte', async () => {
+    const { sponsorship, bytes } = await runPipeline('[Sponsored] The habit of reading slowly');
+
+    assert.equal(sponsorship.isSponsored, true);
+    assert.ok(bytes.every((byte) => byte.isSponsored));
+  });
+
+  test('the same edition always yields the same bytes', async () => {
+    const first = await runPipeline('The habit of reading slowly');
+    const second = await runPipeline('The habit of reading slowly');
+    assert.deepEqual(second.bytes, first.bytes);
+  });
+});
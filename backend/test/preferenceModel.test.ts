@@ -0,0 +1,63 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  affinityWeight,
+  decayScore,
+  preferenceSignals,
+  PREFERENCE_SIGNALS,
+  scoreForWeight,
+} from '../src/services/preferenceModel';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const byte = {
+  category: 'productivity',
+  type: 'insight',
+  tags: ['Focus', 'focus', 'habits'],
+  edition: { sourceId: 'source-1' },
+};
+
+describe('legacy preference import', () => {
+  test('imported evidence maps back onto the old weight', () => {
+    for (const weight of [0.1, 0.35, 0.5, 0.65, 0.9]) {
+      assert.ok(Math.abs(affinityWeight(scoreForWeight(weight)) - weight) < 1e-9, String(weight));
+    }
+  });
+
+  test('saturated weights are imported as strong, not certain', () => {
+    assert.ok(Math.abs(affinityWeight(scoreForWeight(1)) - 0.95) < 1e-9);
+    assert.ok(Math.abs(affinityWeight(scoreForWeight(0)) - 0.05) < 1e-9);
+    assert.ok(Number.isFinite(scoreForWeight(1)));
+  });
+});
+
+describe('learning from signals', () => {
+  test('evidence halves every 30 days', () => {
+    const now = Date.now();
+    assert.ok(Math.abs(decayScore(2, new Date(now - 30 * DAY_MS), now) - 1) < 1e-9);
+    assert.ok(Math.abs(decayScore(2, new Date(now - 60 * DAY_MS), now) - 0.5) < 1e-9);
+    assert.equal(decayScore(2, new Date(now + DAY_MS), now), 2);
+  });
+
+  test('tags get half the signal, once per distinct tag', () => {
+    const deltas = Object.fromEntries(
+      preferenceSignals(byte, PREFERENCE_SIGNALS.save).map((s) => [`${s.dimension}:${s.key}`, s.delta])
+    );
+    assert.deepEqual(deltas, {
+      'category:productivity': 1.5,
+      'type:insight': 1.5,
+      'source:source-1': 1.5,
+      'tag:focus': 0.75,
+      'tag:habits': 0.75,
+    });
+  });
+
+  test('a quick skip pushes every feature below neutral', () => {
+    const signals = preferenceSignals(byte, PREFERENCE_SIGNALS.quickSkip);
+    assert.equal(signals.length, 5);
+    for (const signal of signals) {
+      assert.ok(signal.delta < 0, signal.key);
+      assert.ok(affinityWeight(signal.delta) < 0.5, signal.key);
+    }
+  });
+});
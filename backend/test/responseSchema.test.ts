@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateResponse } from '../src/utils/responseSchema';
+import { EXTRACTION_SCHEMA, ExtractionResponse } from '../src/services/llm/schemas';
+
+const byte = (content: string, qualityScore: number) => ({ content, type: 'insight', category: 'wisdom', qualityScore });
+const GOOD = 'You do not rise to the level of your goals; you fall to the level of your systems.';
+const WEAK = 'There are many ways to improve your life if you look for them.';
+
+describe('extraction schema', () => {
+  test('bytes below the quality threshold are dropped, not errors', () => {
+    const result = validateResponse<ExtractionResponse>(EXTRACTION_SCHEMA, {
+      summary: null,
+      bytes: [byte(GOOD, 0.9), byte(WEAK, 0.4)],
+    });
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.value!.bytes.map((b) => b.content), [GOOD]);
+    assert.deepEqual(result.dropped.map((e) => e.path), ['$.bytes[1].qualityScore']);
+  });
+
+  test('an answer with only weak bytes is valid and empty', () => {
+    const result = validateResponse<ExtractionResponse>(EXTRACTION_SCHEMA, {
+      summary: 'Nothing stood out.',
+      bytes: [byte(WEAK, 0.3), byte(GOOD, 0.5)],
+    });
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.value!.bytes, []);
+    assert.equal(result.dropped.length, 2);
+  });
+
+  test('malformed bytes are dropped next to valid ones', () => {
+    const result = validateResponse<ExtractionResponse>(EXTRACTION_SCHEMA, {
+      summary: null,
+      bytes: [byte(GOOD, 0.9), byte('Too short', 0.9)],
+    });
+
+    assert.deepEqual(result.errors, []);
+    assert.equal(result.value!.bytes.length, 1);
+  });
+
+  test('only malformed bytes are an error worth repairing', () => {
+    const result = validateResponse<ExtractionResponse>(EXTRACTION_SCHEMA, {
+      summary: null,
+      bytes: [byte('Too short', 0.9), { type: 'insight' }],
+    });
+
+    assert.equal(result.value, null);
+    assert.deepEqual(result.errors.map((e) => e.path), ['$.bytes[0].content', '$.bytes[1].content']);
+  });
+
+  test('a weak byte next to a malformed one is not an error', () => {
+    const result = validateResponse<ExtractionResponse>(EXTRACTION_SCHEMA, {
+      summary: null,
+      bytes: [byte(WEAK, 0.2), byte('Too short', 0.9)],
+    });
+
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.value!.bytes, []);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { cleanEdition } from '../src/services/contentCleaner';
+import { isSponsoredSubject, tagSponsoredBytes } from '../src/services/sponsorDetection';
+
+// Add a fixture and a case to cases.json when a real edition slips through
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'sponsors');
+
+interface FixtureCase {
+  name: string;
+  file: string;
+  sender?: string;
+  subject: string;
+  expect: {
+    sponsorSections: string[];                       // sponsorIds of removed sections, in order
+    absent: string[];                                // Sponsor copy that must not reach extraction
+    present: string[];                               // Content that must survive cleaning
+    spans: { sponsorId: string; contains: string }[]; // Affiliate spans left in the text
+    untagged?: string[];                             // Passages whose bytes must not be tagged
+    sponsoredEdition: boolean;
+  };
+}
+
+const cases: FixtureCase[] = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, 'cases.json'), 'utf8'));
+
+function clean(fixture: FixtureCase) {
+  const raw = fs.readFileSync(path.join(FIXTURE_DIR, fixture.file), 'utf8');
+  const isHtml = fixture.file.endsWith('.html');
+  const cleaned = cleanEdition(isHtml ? raw : '', isHtml ? '' : raw, fixture.sender);
+
+  // A byte drawn from the passage containing `text`
+  const byteAt = (text: string) => {
+    const start = cleaned.text.indexOf(text);
+    assert.ok(start >= 0, `passage not in the text: "${text}"`);
+    return { content: text, passage: { start, end: start + text.length } };
+  };
+
+  return { cleaned, byteAt, sponsorship: { isSponsored: false, sponsorId: null, spans: cleaned.sponsoredSpans } };
+}
+
+for (const fixture of cases) {
+  const { expect } = fixture;
+
+  describe(fixture.name, () => {
+    test('removes the sponsor sections and keeps the content', () => {
+      const { cleaned } = clean(fixture);
+
+      // One entry per element removed; a section's label and copy share a sponsorId
+      const sponsorIds = [...new Set(cleaned.removed.filter((r) => r.kind === 'sponsor').map((r) => r.sponsorId))];
+      assert.deepEqual(sponsorIds, expect.sponsorSections);
+
+      for (const text of expect.absent) assert.ok(!cleaned.text.includes(text), `sponsor copy left in the text: "${text}"`);
+      for (const text of expect.present) assert.ok(cleaned.text.includes(text), `content removed: "${text}"`);
+    });
+
+    test('tags bytes drawn from affiliate passages, and only those', () => {
+      const { cleaned, byteAt, sponsorship } = clean(fixture);
+      assert.equal(cleaned.sponsoredSpans.length, expect.spans.length);
+
+      for (const span of expect.spans) {
+        const [byte] = tagSponsoredBytes([byteAt(span.contains)], sponsorship);
+        assert.equal(byte.isSponsored, true, span.contains);
+        assert.equal(byte.sponsorId, span.sponsorId, span.contains);
+      }
+      for (const text of expect.untagged ?? []) {
+        const [byte] = tagSponsoredBytes([byteAt(text)], sponsorship);
+        assert.equal(byte.isSponsored, false, text);
+      }
+    });
+
+    test(`subject ${expect.sponsoredEdition ? 'marks' : 'does not mark'} the edition sponsored`, () => {
+      assert.equal(isSponsoredSubject(fixture.subject), expect.sponsoredEdition);
+
+      if (expect.sponsoredEdition) {
+        const { byteAt, sponsorship } = clean(fixture);
+        const [byte] = tagSponsoredBytes([byteAt(expect.present[0])], { ...sponsorship, isSponsored: true });
+        assert.equal(byte.isSponsored, true);
+      }
+    });
+  });
+}
@@ -0,0 +1,143 @@
+/**
+ * Cloudflare Worker - Score Recomputation
+ *
+ * Triggers the backend to decay trending scores and refresh per-source
+ * aggregates every hour, and to reconcile engagement counters once a day.
+ *
+ * SETUP:
+ * 1. Go to Cloudflare Dashboard > Workers & Pages
+ * 2. Create a new Worker
+ * 3. Paste this code
+ * 4. Add environment variable: CRON_SECRET (same as INTERNAL_CRON_SECRET in backend)
+ * 5. Go to Worker Settings > Triggers > Cron Triggers
+ * 6. Add crons: 0 * * * * (hourly) and 30 3 * * * (daily reconciliation)
+ * 7. Deploy
+ *
+ * Environment Variables:
+ * - CRON_SECRET: Secret key to authenticate with backend
+ * - API_URL: Backend API URL (default: https://api.byteletters.app)
+ */
+
+const DEFAULT_API_URL = 'https://api.byteletters.app';
+const RECONCILE_CRON = '30 3 * * *';
+
+export default {
+  // Scheduled handler for cron triggers
+  async scheduled(event, env, ctx) {
+    if (event.cron === RECONCILE_CRON) {
+      ctx.waitUntil(triggerJob(env, '/internal/reconcile-engagement'));
+    } else {
+      ctx.waitUntil(triggerJob(env, '/internal/recompute-scores'));
+    }
+  },
+
+  // HTTP handler for manual testing
+  async fetch(request, env, ctx) {
+    const url = new URL(request.url);
+
+    if (url.pathname === '/trigger') {
+      const result = await triggerJob(env, '/internal/recompute-scores?manual=true');
+      return jsonResponse(result);
+    }
+
+    if (url.pathname === '/reconcile') {
+      const result = await triggerJob(env, '/internal/reconcile-engagement?manual=true');
+      return jsonResponse(result);
+    }
+
+    if (url.pathname === '/jobs') {
+      const result = await getJobLog(env);
+      return jsonResponse(result);
+    }
+
+    return jsonResponse({
+      name: 'ByteLetters Score Recomputation',
+      endpoints: {
+        '/trigger': 'Manually recompute scores',
+        '/reconcile': 'Manually reconcile engagement counters',
+        '/jobs': 'Get recent job runs',
+      },
+      cron: 'Scores hourly, reconciliation daily at 03:30 UTC',
+    });
+  },
+};
+
+function jsonResponse(body) {
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Call an internal job endpoint
+ */
+async function triggerJob(env, path) {
+  const apiUrl = env.API_URL || DEFAULT_API_URL;
+  const cronSecret = env.CRON_SECRET || '';
+  const startTime = Date.now();
+
+  console.log(`[Score Worker] Triggering ${path} at ${new Date().toISOString()}`);
+
+  try {
+    const response = await fetch(`${apiUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Cron-Secret': cronSecret,
+        'User-Agent': 'ByteLetters-ScoreWorker/1.0',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const duration = Date.now() - startTime;
+
+    console.log(`[Score Worker] Completed in ${duration}ms:`, data);
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      duration,
+      result: data,
+    };
+  } catch (error) {
+    console.error(`[Score Worker] Error:`, error.message);
+
+    return {
+      success: false,
+      timestamp: new Date().toISOString(),
+      error: error.message,
+    };
+  }
+}
+
+/**
+ * Get recent job runs
+ */
+async function getJobLog(env) {
+  const apiUrl = env.API_URL || DEFAULT_API_URL;
+  const cronSecret = env.CRON_SECRET || '';
+
+  try {
+    const response = await fetch(`${apiUrl}/internal/jobs`, {
+      method: 'GET',
+      headers: {
+        'X-Cron-Secret': cronSecret,
+        'User-Agent': 'ByteLetters-ScoreWorker/1.0',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    return {
+      error: error.message,
+    };
+  }
+}
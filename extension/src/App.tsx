@@ -2,7 +2,7 @@ import { useEffect, useState, useCallback, useRef } from 'react';
 import { Settings as SettingsIcon, Bookmark, BookmarkCheck, ChevronDown, ChevronRight, Library } from 'lucide-react';
 // Use the new logo from public folder
 const ByteLettersLogo = '/icons/icon128.png';
-import type { UserProfile, ContentByte, VoteValue } from './types';
+import type { UserProfile, ContentByte, VoteValue, ReviewOutcome, MuteRuleType } from './types';
 import {
   getUserProfile,
   saveUserProfile,
@@ -19,11 +19,14 @@ import {
   type AuthUser,
 } from './services/auth';
 import {
-  fetchNextByte,
+  fetchNextBytes,
   fetchSavedBytes,
   voteByte,
-  toggleSaveByte,
+  setByteSaved,
   trackByteView,
+  reviewByte,
+  createMuteRule,
+  shareByte,
 } from './services/api';
 import { SAMPLE_BYTES, getNextByte as getNextMockByte } from './data/mockData';
 import { MortalityBar } from './components/MortalityBar';
@@ -40,10 +43,25 @@ function userToProfile(user: AuthUser): UserProfile {
     lifeExpectancy: user.lifeExpectancy || 80,
     inboxEmail: user.inboxEmail,
     enableRecommendations: user.enableRecommendations ?? true,
+    enableSpacedRepetition: user.enableSpacedRepetition ?? false,
+    reviewRatio: user.reviewRatio ?? 0.2,
     createdAt: new Date().toISOString(),
   };
 }
 
+// Whether a byte matches a mute rule just created from the byte card
+function isMutedBy(byte: ContentByte, type: MuteRuleType, value: string): boolean {
+  switch (type) {
+    case 'source':
+      return byte.source.id === value;
+    case 'author':
+      return byte.author?.toLowerCase() === value.toLowerCase();
+    case 'category':
+      return byte.category === value;
+    default:
+      return false;
+  }
+}
 
 // Prefetch queue size - how many bytes to keep ready
 const PREFETCH_QUEUE_SIZE = 3;
@@ -71,7 +89,7 @@ function App() {
   const usingMockData = useRef(false);
   // Prefetch queue for instant Next button
   const byteQueueRef = useRef<ContentByte[]>([]);
-  const isFetchingRef = useRef(false);
+  const prefetchRef = useRef<Promise<void> | null>(null);
 
   // Format category for display (capitalize first letter)
   const formatCategory = (category: string) => {
@@ -134,7 +152,7 @@ function App() {
     // Call API to unsave (if online)
     if (!usingMockData.current) {
       try {
-        await toggleSaveByte(byte.id);
+        await setByteSaved(byte.id, false);
       } catch (error) {
         console.error('Failed to unsave byte:', error);
         // Revert on failure
@@ -153,7 +171,8 @@ function App() {
     }
   };
 
-  // Helper to load byte and saved bytes from API
+  // Helper to load byte and saved bytes from API; one batch request shows the
+  // first byte and refills the prefetch queue with the rest
   async function loadFromApi(): Promise<{
     byte: ContentByte | null;
     queueSize: number;
@@ -162,17 +181,19 @@ function App() {
     isCommunityContent: boolean;
   }> {
     try {
-      const [nextByteResult, savedResult] = await Promise.all([
-        fetchNextByte(),
+      const [nextBytesResult, savedResult] = await Promise.all([
+        fetchNextBytes(PREFETCH_QUEUE_SIZE),
         fetchSavedBytes(),
       ]);
       usingMockData.current = false;
+      const [byte = null, ...queued] = nextBytesResult.bytes;
+      byteQueueRef.current = queued;
       return {
-        byte: nextByteResult.byte,
-        queueSize: nextByteResult.queueSize,
+        byte,
+        queueSize: nextBytesResult.queueSize + queued.length,
         saved: savedResult,
-        hasUserSubscriptions: nextByteResult.hasUserSubscriptions,
-        isCommunityContent: nextByteResult.isCommunityContent,
+        hasUserSubscriptions: nextBytesResult.hasUserSubscriptions,
+        isCommunityContent: byte === null,
       };
     } catch (error) {
       console.log('API fetch failed, falling back to mock data:', error);
@@ -207,7 +228,7 @@ function App() {
           setSavedBytes(result.saved);
           setHasUserSubscriptions(result.hasUserSubscriptions);
           setIsCommunityContent(result.isCommunityContent);
-          // Prefetch will be triggered by useEffect below
+          // The rest of the batch is already queued
           return;
         }
 
@@ -234,7 +255,7 @@ function App() {
               setSavedBytes(result.saved);
               setHasUserSubscriptions(result.hasUserSubscriptions);
               setIsCommunityContent(result.isCommunityContent);
-              // Prefetch will be triggered by useEffect below
+              // The rest of the batch is already queued
               return;
             }
             // New user or incomplete onboarding - show onboarding
@@ -338,7 +359,7 @@ function App() {
     // Send to API (if online)
     if (!usingMockData.current) {
       try {
-        const result = await toggleSaveByte(byteId);
+        const result = await setByteSaved(byteId, nowSaved);
         // Sync with actual server state
         if (result.isSaved !== nowSaved) {
           setCurrentByte(prev => prev ? { ...prev, userEngagement: { vote: prev.userEngagement?.vote || 0, isSaved: result.isSaved } } : null);
@@ -364,10 +385,24 @@ function App() {
     }
   }, [currentByte]);
 
+  // Handle spaced-repetition answer
+  const handleReview = useCallback(async (byteId: string, outcome: ReviewOutcome) => {
+    if (usingMockData.current) return;
+    try {
+      await reviewByte(byteId, outcome);
+    } catch (error) {
+      console.error('Failed to record review:', error);
+    }
+  }, []);
+
   // Handle share
-  const handleShare = useCallback((byteId: string) => {
-    console.log('Share:', byteId);
-    // TODO: Implement share tracking on backend
+  const handleShare = useCallback(async (byteId: string) => {
+    if (usingMockData.current) return;
+    try {
+      await shareByte(byteId);
+    } catch (error) {
+      console.error('Failed to track share:', error);
+    }
   }, []);
 
   // Handle view tracking with read status
@@ -382,43 +417,42 @@ function App() {
     }
   }, []);
 
-  // Prefetch bytes in background to fill the queue
-  const prefetchBytes = useCallback(async () => {
-    // Don't fetch if already fetching or using mock data
-    if (isFetchingRef.current || usingMockData.current) return;
+  // Prefetch bytes in background to fill the queue; resolves when the
+  // request in flight (if any) has landed
+  const prefetchBytes = useCallback((): Promise<void> => {
+    // Don't fetch if using mock data; join a fetch already in flight
+    if (usingMockData.current) return Promise.resolve();
+    if (prefetchRef.current) return prefetchRef.current;
     // Don't fetch if queue is full enough
-    if (byteQueueRef.current.length >= PREFETCH_QUEUE_SIZE) return;
-
-    isFetchingRef.current = true;
+    if (byteQueueRef.current.length >= PREFETCH_QUEUE_SIZE) return Promise.resolve();
 
-    try {
-      const result = await fetchNextByte();
-      if (result.byte) {
-        // Add to queue if not already there (avoid duplicates)
-        const isDuplicate = byteQueueRef.current.some(b => b.id === result.byte!.id);
-        if (!isDuplicate) {
-          byteQueueRef.current.push(result.byte);
-        }
-        setQueueSize(result.queueSize + byteQueueRef.current.length);
-        setHasUserSubscriptions(result.hasUserSubscriptions);
-
-        // Keep fetching until queue is full
-        if (byteQueueRef.current.length < PREFETCH_QUEUE_SIZE) {
-          isFetchingRef.current = false;
-          prefetchBytes();
-          return;
-        }
-      } else {
-        // No more bytes from API
-        if (byteQueueRef.current.length === 0) {
-          usingMockData.current = true;
+    prefetchRef.current = (async () => {
+      try {
+        // One request reserves everything the queue is missing
+        const result = await fetchNextBytes(PREFETCH_QUEUE_SIZE - byteQueueRef.current.length);
+        if (result.bytes.length > 0) {
+          for (const byte of result.bytes) {
+            // Add to queue if not already there (avoid duplicates)
+            const isDuplicate = byteQueueRef.current.some(b => b.id === byte.id);
+            if (!isDuplicate) {
+              byteQueueRef.current.push(byte);
+            }
+          }
+          setQueueSize(result.queueSize + byteQueueRef.current.length);
+          setHasUserSubscriptions(result.hasUserSubscriptions);
+        } else {
+          // No more bytes from API
+          if (byteQueueRef.current.length === 0) {
+            usingMockData.current = true;
+          }
         }
+      } catch (error) {
+        console.error('Prefetch error:', error);
+      } finally {
+        prefetchRef.current = null;
       }
-    } catch (error) {
-      console.error('Prefetch error:', error);
-    } finally {
-      isFetchingRef.current = false;
-    }
+    })();
+    return prefetchRef.current;
   }, []);
 
   // Handle next byte - INSTANT from prefetch queue
@@ -454,15 +488,15 @@ function App() {
       return;
     }
 
-    // Queue empty but not using mock - fetch directly (only case with delay)
+    // Queue empty but not using mock - wait for a refill (only case with delay)
     // This should rarely happen if prefetch is working
     setIsLoadingNext(true);
-    fetchNextByte().then(result => {
-      if (result.byte) {
-        setCurrentByte(result.byte);
-        setQueueSize(result.queueSize);
-        setIsCommunityContent(result.isCommunityContent);
-        setHasUserSubscriptions(result.hasUserSubscriptions);
+    prefetchBytes().then(() => {
+      const nextByte = byteQueueRef.current.shift();
+      if (nextByte) {
+        setCurrentByte(nextByte);
+        setQueueSize(prev => Math.max(0, prev - 1));
+        setIsCommunityContent(false);
       } else {
         usingMockData.current = true;
         const mockByte = getNextMockByte();
@@ -470,20 +504,34 @@ function App() {
         setQueueSize(SAMPLE_BYTES.length);
         setIsCommunityContent(true);
       }
-      // Start prefetching for next time
-      prefetchBytes();
-    }).catch(() => {
-      usingMockData.current = true;
-      const byte = getNextMockByte();
-      setCurrentByte(byte);
-      setQueueSize(SAMPLE_BYTES.length);
-      setIsCommunityContent(true);
     }).finally(() => {
       setIsLoadingNext(false);
     });
   }, [showingCommunityBytes, communityBytes, communityByteIndex, prefetchBytes]);
 
-  // Start prefetching when initial byte is loaded (runs once after first byte shows)
+  // Handle mute from the byte card menu: hide matching bytes and move on
+  const handleMute = useCallback(async (type: MuteRuleType, value: string, label?: string) => {
+    if (!usingMockData.current) {
+      try {
+        await createMuteRule({ type, value, label });
+      } catch (error) {
+        console.error('Failed to mute:', error);
+        return;
+      }
+    }
+
+    // Drop already-prefetched bytes the new rule would have filtered out
+    const before = byteQueueRef.current.length;
+    byteQueueRef.current = byteQueueRef.current.filter(b => !isMutedBy(b, type, value));
+    const dropped = before - byteQueueRef.current.length;
+    if (dropped > 0) {
+      setQueueSize(prev => Math.max(0, prev - dropped));
+    }
+
+    handleNext();
+  }, [handleNext]);
+
+  // Top up the queue if the first load left it empty (runs once after first byte shows)
   useEffect(() => {
     if (!isLoading && currentByte && !usingMockData.current && byteQueueRef.current.length === 0) {
       // Small delay to let initial render complete, then start filling the queue
@@ -510,6 +558,8 @@ function App() {
             birthDate: updatedProfile.birthDate,
             lifeExpectancy: updatedProfile.lifeExpectancy,
             enableRecommendations: updatedProfile.enableRecommendations,
+            enableSpacedRepetition: updatedProfile.enableSpacedRepetition,
+            reviewRatio: updatedProfile.reviewRatio,
           });
 
           // Reload feed after enableRecommendations change
@@ -652,6 +702,8 @@ function App() {
               onShare={handleShare}
               onNext={handleNext}
               onView={handleView}
+              onReview={handleReview}
+              onMute={handleMute}
               queueSize={queueSize}
               isLoadingNext={isLoadingNext}
             />
@@ -8,8 +8,16 @@ import {
   CheckCircle,
   Sparkles,
   ExternalLink,
+  Check,
+  RotateCcw,
+  MoreHorizontal,
+  VolumeX,
+  Info,
+  BookOpen,
+  X,
 } from 'lucide-react';
-import type { ContentByte, VoteValue } from '../types';
+import type { ContentByte, ByteContext, VoteValue, ReviewOutcome, MuteRuleType } from '../types';
+import { fetchByteContext } from '../services/api';
 
 interface ByteCardProps {
   byte: ContentByte;
@@ -18,6 +26,8 @@ interface ByteCardProps {
   onShare: (byteId: string) => void;
   onNext: () => void;
   onView: (byteId: string, dwellTimeMs: number, isRead: boolean) => void;
+  onReview?: (byteId: string, outcome: ReviewOutcome) => void;
+  onMute?: (type: MuteRuleType, value: string, label?: string) => void;
   queueSize: number;
   isLoadingNext?: boolean;
 }
@@ -29,12 +39,20 @@ export function ByteCard({
   onShare,
   onNext,
   onView,
+  onReview,
+  onMute,
   queueSize,
   isLoadingNext = false,
 }: ByteCardProps) {
   const [localVote, setLocalVote] = useState<VoteValue>(0);
   const [localSaved, setLocalSaved] = useState(false);
   const [showShareToast, setShowShareToast] = useState(false);
+  const [reviewAnswer, setReviewAnswer] = useState<ReviewOutcome | null>(null);
+  const [showMenu, setShowMenu] = useState(false);
+  const [showReason, setShowReason] = useState(false);
+  const [showContext, setShowContext] = useState(false);
+  const [context, setContext] = useState<ByteContext | null>(null);
+  const [contextState, setContextState] = useState<'idle' | 'loading' | 'error'>('idle');
   const viewStartTime = useRef(Date.now());
   const isReadRef = useRef(false);
   const readTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -47,6 +65,12 @@ export function ByteCard({
   useEffect(() => {
     setLocalVote((byte.userEngagement?.vote as VoteValue) || 0);
     setLocalSaved(byte.userEngagement?.isSaved || false);
+    setReviewAnswer(null);
+    setShowMenu(false);
+    setShowReason(false);
+    setShowContext(false);
+    setContext(null);
+    setContextState('idle');
     viewStartTime.current = Date.now();
     isReadRef.current = false;
     activeTimeRef.current = 0;
@@ -117,6 +141,35 @@ export function ByteCard({
     onSave(byte.id);
   };
 
+  const handleReview = (outcome: ReviewOutcome) => {
+    setReviewAnswer(outcome);
+    onReview?.(byte.id, outcome);
+  };
+
+  const handleMute = (type: MuteRuleType, value: string, label?: string) => {
+    setShowMenu(false);
+    onMute?.(type, value, label);
+  };
+
+  const handleToggleContext = async () => {
+    if (showContext) {
+      setShowContext(false);
+      return;
+    }
+
+    setShowContext(true);
+    if (context) return;
+
+    setContextState('loading');
+    try {
+      const loaded = await fetchByteContext(byte.id);
+      setContext(loaded);
+      setContextState('idle');
+    } catch {
+      setContextState('error');
+    }
+  };
+
   const handleShare = async () => {
     try {
       await navigator.clipboard.writeText(
@@ -183,6 +236,37 @@ export function ByteCard({
                 Sponsored
               </span>
             )}
+            {byte.reason && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowReason(!showReason)}
+                  className={`p-1 rounded transition-all ${
+                    showReason ? 'text-pearl' : 'text-smoke/60 hover:text-pearl'
+                  }`}
+                  title="Why am I seeing this?"
+                >
+                  <Info className="w-4 h-4" />
+                </button>
+
+                {showReason && (
+                  <>
+                    {/* Click-away layer */}
+                    <div className="fixed inset-0 z-10" onClick={() => setShowReason(false)} />
+                    <div className="absolute right-0 top-full mt-2 z-20 w-64 p-3 bg-obsidian border border-ash rounded-lg shadow-2xl animate-fade-in">
+                      <p className="text-pearl text-xs font-medium mb-2">Why am I seeing this?</p>
+                      <ul className="space-y-1.5">
+                        {byte.reason.factors.map((f) => (
+                          <li key={f.factor} className="flex items-start gap-2 text-smoke text-xs">
+                            <span className="mt-1.5 w-1 h-1 rounded-full bg-life flex-shrink-0" />
+                            <span>{f.label}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -208,6 +292,107 @@ export function ByteCard({
           </div>
         )}
 
+        {/* Read in Context */}
+        {(byte.hasContext || byte.editionUrl) && (
+          <div className="mb-6 pl-6">
+            <button
+              onClick={handleToggleContext}
+              className={`flex items-center gap-1.5 text-sm transition-colors ${
+                showContext ? 'text-pearl' : 'text-smoke hover:text-pearl'
+              }`}
+            >
+              <BookOpen className="w-4 h-4" />
+              Read in context
+            </button>
+
+            {showContext && (
+              <div className="mt-3 p-4 bg-slate/50 border border-ash/30 rounded-lg animate-fade-in">
+                <div className="flex items-start justify-between gap-4 mb-3">
+                  <p className="text-pearl text-sm font-medium">
+                    {context ? context.edition.subject : byte.source.name}
+                  </p>
+                  <button
+                    onClick={() => setShowContext(false)}
+                    className="text-smoke hover:text-pearl transition-colors"
+                    title="Close"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+
+                {contextState === 'loading' && (
+                  <p className="text-smoke text-sm">Loading passage...</p>
+                )}
+                {contextState === 'error' && (
+                  <p className="text-smoke text-sm">Couldn't load the original passage.</p>
+                )}
+
+                {context?.passage && (
+                  <div className="max-h-72 overflow-y-auto space-y-3 text-sm leading-relaxed pr-2">
+                    {context.passage.before.map((paragraph, i) => (
+                      <p key={`before-${i}`} className="text-smoke/70">{paragraph}</p>
+                    ))}
+                    <p className="text-smoke">
+                      {context.passage.lead}
+                      <mark className="bg-life/20 text-pearl rounded px-0.5">{context.passage.text}</mark>
+                      {context.passage.trail}
+                    </p>
+                    {context.passage.after.map((paragraph, i) => (
+                      <p key={`after-${i}`} className="text-smoke/70">{paragraph}</p>
+                    ))}
+                  </div>
+                )}
+                {context && !context.passage && (
+                  <p className="text-smoke text-sm">We couldn't pinpoint this passage in the edition.</p>
+                )}
+
+                {(context?.edition.url || byte.editionUrl) && (
+                  <a
+                    href={context?.edition.url || byte.editionUrl || undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 mt-3 text-sm text-life/80 hover:text-life transition-colors"
+                  >
+                    Read the full edition
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Spaced Repetition Review */}
+        {byte.isReview && onReview && (
+          <div className="flex items-center justify-between mb-4 px-4 py-3 bg-slate/50 border border-ash/30 rounded-lg">
+            <span className="text-smoke text-sm">
+              {reviewAnswer === 'remembered'
+                ? "Nice. You'll see this again in a while."
+                : reviewAnswer === 'again'
+                  ? "We'll bring this back soon."
+                  : 'From your saved bytes. Do you remember it?'}
+            </span>
+            {!reviewAnswer && (
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => handleReview('remembered')}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg bg-life/10 text-life hover:bg-life/20 transition-all"
+                >
+                  <Check className="w-4 h-4" />
+                  Remembered it
+                </button>
+                <button
+                  onClick={() => handleReview('again')}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg hover:bg-ash/30 text-smoke hover:text-pearl transition-all"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Show again sooner
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Engagement Bar */}
         <div className="flex items-center justify-between pt-4 border-t border-ash/30">
           {/* Vote Buttons - No counts shown, just icons for user feedback */}
@@ -259,6 +444,52 @@ export function ByteCard({
               <Share2 className="w-5 h-5" />
             </button>
 
+            {onMute && (
+              <div className="relative">
+                <button
+                  onClick={() => setShowMenu(!showMenu)}
+                  className={`p-2 rounded-lg transition-all ${
+                    showMenu ? 'bg-ash/30 text-pearl' : 'hover:bg-ash/30 text-smoke hover:text-pearl'
+                  }`}
+                  title="More"
+                >
+                  <MoreHorizontal className="w-5 h-5" />
+                </button>
+
+                {showMenu && (
+                  <>
+                    {/* Click-away layer */}
+                    <div className="fixed inset-0 z-10" onClick={() => setShowMenu(false)} />
+                    <div className="absolute right-0 bottom-full mb-2 z-20 w-56 py-1 bg-obsidian border border-ash rounded-lg shadow-2xl animate-fade-in">
+                      {byte.author && (
+                        <button
+                          onClick={() => handleMute('author', byte.author!)}
+                          className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-smoke hover:text-pearl hover:bg-ash/30 transition-colors"
+                        >
+                          <VolumeX className="w-4 h-4 flex-shrink-0" />
+                          <span className="truncate">Mute {byte.author}</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleMute('source', byte.source.id, byte.source.name)}
+                        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-smoke hover:text-pearl hover:bg-ash/30 transition-colors"
+                      >
+                        <VolumeX className="w-4 h-4 flex-shrink-0" />
+                        <span className="truncate">Mute {byte.source.name}</span>
+                      </button>
+                      <button
+                        onClick={() => handleMute('category', byte.category)}
+                        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-left text-smoke hover:text-pearl hover:bg-ash/30 transition-colors"
+                      >
+                        <VolumeX className="w-4 h-4 flex-shrink-0" />
+                        <span className="truncate capitalize">Mute {byte.category}</span>
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
             <button
               onClick={onNext}
               disabled={isLoadingNext}
@@ -1,6 +1,21 @@
-import { X, User, Calendar, Mail, Copy, Check, Trash2, Sparkles } from 'lucide-react';
-import { useState } from 'react';
-import type { UserProfile } from '../types';
+import { X, User, Calendar, Mail, Copy, Check, Trash2, Sparkles, RotateCcw, VolumeX, Plus } from 'lucide-react';
+import { useState, useEffect } from 'react';
+import type { UserProfile, MuteRule, PrivateInbox } from '../types';
+import {
+  fetchMuteRules,
+  createMuteRule,
+  deleteMuteRule,
+  fetchPrivateInbox,
+  setPrivateInboxEnabled,
+  deletePrivateSource,
+} from '../services/api';
+
+const MUTE_TYPE_LABELS: Record<MuteRule['type'], string> = {
+  source: 'Source',
+  author: 'Author',
+  category: 'Category',
+  keyword: 'Keyword',
+};
 
 interface SettingsProps {
   profile: UserProfile;
@@ -19,6 +34,14 @@ export function Settings({ profile, onClose, onUpdate, onReset }: SettingsProps)
   const [enableRecommendations, setEnableRecommendations] = useState(
     profile.enableRecommendations ?? true
   );
+  const [enableSpacedRepetition, setEnableSpacedRepetition] = useState(
+    profile.enableSpacedRepetition ?? false
+  );
+  const [reviewRatio, setReviewRatio] = useState(profile.reviewRatio ?? 0.2);
+  const [muteRules, setMuteRules] = useState<MuteRule[]>([]);
+  const [muteKeyword, setMuteKeyword] = useState('');
+  const [muteDays, setMuteDays] = useState(0); // 0 = until removed
+  const [inbox, setInbox] = useState<PrivateInbox | null>(null);
   const [copied, setCopied] = useState(false);
   const [showConfirmReset, setShowConfirmReset] = useState(false);
 
@@ -29,13 +52,73 @@ export function Settings({ profile, onClose, onUpdate, onReset }: SettingsProps)
       birthDate,
       lifeExpectancy,
       enableRecommendations,
+      enableSpacedRepetition,
+      reviewRatio,
     });
     onClose();
   };
 
+  // Mute rules save immediately, independent of the Save button
+  useEffect(() => {
+    fetchMuteRules()
+      .then(setMuteRules)
+      .catch((error) => console.error('Failed to load mute rules:', error));
+  }, []);
+
+  const addKeywordMute = async () => {
+    const keyword = muteKeyword.trim();
+    if (!keyword) return;
+    try {
+      const rule = await createMuteRule({
+        type: 'keyword',
+        value: keyword,
+        expiresInDays: muteDays || undefined,
+      });
+      setMuteRules((prev) => [rule, ...prev.filter((r) => r.id !== rule.id)]);
+      setMuteKeyword('');
+    } catch (error) {
+      console.error('Failed to mute keyword:', error);
+    }
+  };
+
+  const removeMute = async (ruleId: string) => {
+    try {
+      await deleteMuteRule(ruleId);
+      setMuteRules((prev) => prev.filter((r) => r.id !== ruleId));
+    } catch (error) {
+      console.error('Failed to remove mute rule:', error);
+    }
+  };
+
+  // Private inbox changes also apply immediately
+  useEffect(() => {
+    fetchPrivateInbox()
+      .then(setInbox)
+      .catch((error) => console.error('Failed to load private inbox:', error));
+  }, []);
+
+  const togglePrivateInbox = async () => {
+    if (!inbox) return;
+    try {
+      const { enabled, address } = await setPrivateInboxEnabled(!inbox.enabled);
+      setInbox({ ...inbox, enabled, address: enabled ? address : null });
+    } catch (error) {
+      console.error('Failed to update private inbox:', error);
+    }
+  };
+
+  const removePrivateSource = async (sourceId: string) => {
+    try {
+      await deletePrivateSource(sourceId);
+      setInbox((prev) => prev && { ...prev, sources: prev.sources.filter((s) => s.id !== sourceId) });
+    } catch (error) {
+      console.error('Failed to delete private source:', error);
+    }
+  };
+
   const copyEmail = async () => {
-    if (profile.inboxEmail) {
-      await navigator.clipboard.writeText(profile.inboxEmail);
+    if (inbox?.address) {
+      await navigator.clipboard.writeText(inbox.address);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     }
@@ -143,28 +226,195 @@ export function Settings({ profile, onClose, onUpdate, onReset }: SettingsProps)
             </div>
           </div>
 
-          {/* Inbox Email */}
-          {profile.inboxEmail && (
-            <div>
-              <label className="flex items-center gap-2 text-sm text-smoke mb-2">
-                <Mail className="w-4 h-4" />
-                Newsletter Inbox
-              </label>
-              <div className="flex items-center gap-2 p-3 bg-slate border border-ash rounded-lg">
-                <code className="text-life text-sm flex-1 break-all">
-                  {profile.inboxEmail}
-                </code>
+          {/* Spaced Repetition Toggle */}
+          <div>
+            <label className="flex items-center gap-2 text-sm text-smoke mb-3">
+              <RotateCcw className="w-4 h-4" />
+              Review
+            </label>
+            <div className="p-4 bg-slate border border-ash rounded-lg space-y-4">
+              <div className="flex items-start gap-4">
                 <button
-                  onClick={copyEmail}
-                  className="p-1.5 rounded hover:bg-ash transition-colors"
+                  onClick={() => setEnableSpacedRepetition(!enableSpacedRepetition)}
+                  className={`w-11 h-6 rounded-full transition-all flex items-center px-0.5 flex-shrink-0 ${
+                    enableSpacedRepetition ? 'bg-life' : 'bg-ash'
+                  }`}
+                >
+                  <div
+                    className={`w-5 h-5 rounded-full bg-white shadow-sm transition-transform ${
+                      enableSpacedRepetition ? 'translate-x-5' : 'translate-x-0'
+                    }`}
+                  />
+                </button>
+                <div className="flex-1">
+                  <h3 className="text-pearl text-sm font-medium mb-1">
+                    Resurface favorites
+                  </h3>
+                  <p className="text-xs text-smoke leading-relaxed">
+                    {enableSpacedRepetition
+                      ? 'Saved and upvoted bytes come back on a spaced-repetition schedule.'
+                      : 'Saved and upvoted bytes stay in your library.'}
+                  </p>
+                </div>
+              </div>
+              {enableSpacedRepetition && (
+                <div className="flex items-center gap-3">
+                  <input
+                    type="range"
+                    min="5"
+                    max="50"
+                    step="5"
+                    value={Math.round(reviewRatio * 100)}
+                    onChange={(e) => setReviewRatio(Number(e.target.value) / 100)}
+                    className="flex-1 h-2 bg-ash rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:bg-life [&::-webkit-slider-thumb]:rounded-full"
+                  />
+                  <span className="text-pearl font-mono text-sm w-24 text-right">
+                    {Math.round(reviewRatio * 100)}% reviews
+                  </span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Muted */}
+          <div>
+            <label className="flex items-center gap-2 text-sm text-smoke mb-3">
+              <VolumeX className="w-4 h-4" />
+              Muted
+            </label>
+            <div className="p-4 bg-slate border border-ash rounded-lg space-y-3">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={muteKeyword}
+                  onChange={(e) => setMuteKeyword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addKeywordMute()}
+                  placeholder="Mute a keyword or phrase"
+                  maxLength={200}
+                  className="flex-1 min-w-0 px-3 py-1.5 bg-obsidian border border-ash rounded-lg text-sm text-pearl placeholder:text-smoke/50 focus:outline-none focus:border-life/50 transition-all"
+                />
+                <select
+                  value={muteDays}
+                  onChange={(e) => setMuteDays(Number(e.target.value))}
+                  className="px-2 py-1.5 bg-obsidian border border-ash rounded-lg text-sm text-smoke focus:outline-none"
                 >
-                  {copied ? (
-                    <Check className="w-4 h-4 text-life" />
-                  ) : (
-                    <Copy className="w-4 h-4 text-smoke" />
-                  )}
+                  <option value={0}>Always</option>
+                  <option value={7}>7 days</option>
+                  <option value={30}>30 days</option>
+                </select>
+                <button
+                  onClick={addKeywordMute}
+                  disabled={!muteKeyword.trim()}
+                  className="p-1.5 rounded-lg hover:bg-ash text-smoke hover:text-pearl transition-colors disabled:opacity-40"
+                  title="Add"
+                >
+                  <Plus className="w-4 h-4" />
                 </button>
               </div>
+
+              {muteRules.length === 0 ? (
+                <p className="text-xs text-smoke">
+                  Nothing muted. Use the ··· menu on a byte to mute its author or source.
+                </p>
+              ) : (
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                  {muteRules.map((rule) => (
+                    <li key={rule.id} className="flex items-center gap-2 text-sm">
+                      <span className="text-xs text-smoke w-16 flex-shrink-0">
+                        {MUTE_TYPE_LABELS[rule.type]}
+                      </span>
+                      <span className="flex-1 text-pearl truncate">{rule.label || rule.value}</span>
+                      {rule.expiresAt && (
+                        <span className="text-xs text-smoke flex-shrink-0">
+                          until {new Date(rule.expiresAt).toLocaleDateString()}
+                        </span>
+                      )}
+                      <button
+                        onClick={() => removeMute(rule.id)}
+                        className="p-1 rounded hover:bg-ash text-smoke hover:text-rose transition-colors"
+                        title="Unmute"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Private Inbox */}
+          {inbox && (
+            <div>
+              <label className="flex items-center gap-2 text-sm text-smoke mb-3">
+                <Mail className="w-4 h-4" />
+                Private inbox
+              </label>
+              <div className="p-4 bg-slate border border-ash rounded-lg space-y-4">
+                <div className="flex items-start gap-4">
+                  <button
+                    onClick={togglePrivateInbox}
+                    className={`w-11 h-6 rounded-full transition-all flex items-center px-0.5 flex-shrink-0 ${
+                      inbox.enabled ? 'bg-life' : 'bg-ash'
+                    }`}
+                  >
+                    <div
+                      className={`w-5 h-5 rounded-full bg-white shadow-sm transition-transform ${
+                        inbox.enabled ? 'translate-x-5' : 'translate-x-0'
+                      }`}
+                    />
+                  </button>
+                  <div className="flex-1">
+                    <h3 className="text-pearl text-sm font-medium mb-1">
+                      Forward your own newsletters
+                    </h3>
+                    <p className="text-xs text-smoke leading-relaxed">
+                      {inbox.enabled
+                        ? 'Newsletters sent here show up in your new tab. Only you see them.'
+                        : 'Get a personal address for paid or internal newsletters.'}
+                    </p>
+                  </div>
+                </div>
+                {inbox.enabled && inbox.address && (
+                  <div className="flex items-center gap-2 p-3 bg-obsidian border border-ash rounded-lg">
+                    <code className="text-life text-sm flex-1 break-all">
+                      {inbox.address}
+                    </code>
+                    <button
+                      onClick={copyEmail}
+                      className="p-1.5 rounded hover:bg-ash transition-colors"
+                    >
+                      {copied ? (
+                        <Check className="w-4 h-4 text-life" />
+                      ) : (
+                        <Copy className="w-4 h-4 text-smoke" />
+                      )}
+                    </button>
+                  </div>
+                )}
+                {inbox.sources.length > 0 && (
+                  <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {inbox.sources.map((source) => (
+                      <li key={source.id} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 text-pearl truncate" title={source.senderEmail}>
+                          {source.name}
+                        </span>
+                        <span className="text-xs text-smoke flex-shrink-0">
+                          {source.editions} {source.editions === 1 ? 'edition' : 'editions'}
+                          {source.failedEditions > 0 && `, ${source.failedEditions} failed`}
+                        </span>
+                        <button
+                          onClick={() => removePrivateSource(source.id)}
+                          className="p-1 rounded hover:bg-ash text-smoke hover:text-rose transition-colors"
+                          title="Delete source and its bytes"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
             </div>
           )}
 
@@ -4,7 +4,18 @@
  */
 
 import { apiRequest, getStoredAuth } from './auth';
-import type { ContentByte, VoteValue, ByteType, ByteCategory } from '../types';
+import type {
+  ContentByte,
+  VoteValue,
+  ByteType,
+  ByteCategory,
+  ReviewOutcome,
+  MuteRule,
+  MuteRuleType,
+  PrivateInbox,
+  RecommendationReason,
+  ByteContext,
+} from '../types';
 
 // API Response types
 export interface ByteResponse {
@@ -29,6 +40,10 @@ export interface ByteResponse {
     isSaved: boolean;
   };
   isSponsored: boolean;
+  isReview?: boolean;
+  reason?: RecommendationReason;
+  editionUrl?: string | null;
+  hasContext?: boolean;
   createdAt: string;
 }
 
@@ -39,6 +54,13 @@ export interface NextByteResponse {
   isCommunityContent?: boolean;
 }
 
+export interface NextBytesResponse {
+  bytes: ByteResponse[];
+  queueSize: number;
+  hasUserSubscriptions?: boolean;
+  message?: string;
+}
+
 export interface SavedBytesResponse {
   bytes: ByteResponse[];
   nextCursor: string | null;
@@ -59,6 +81,12 @@ export interface SaveResponse {
   isSaved: boolean;
 }
 
+export interface ReviewResponse {
+  success: boolean;
+  nextReviewAt: string;
+  intervalDays: number;
+}
+
 // Convert API response to ContentByte type
 function toContentByte(byte: ByteResponse): ContentByte {
   return {
@@ -75,6 +103,10 @@ function toContentByte(byte: ByteResponse): ContentByte {
       isSaved: byte.userEngagement.isSaved,
     } : undefined,
     isSponsored: byte.isSponsored,
+    isReview: byte.isReview,
+    reason: byte.reason,
+    editionUrl: byte.editionUrl,
+    hasContext: byte.hasContext,
     createdAt: byte.createdAt,
   };
 }
@@ -96,7 +128,7 @@ export async function fetchNextByte(): Promise<{
   hasUserSubscriptions: boolean;
   isCommunityContent: boolean;
 }> {
-  const response = await apiRequest<NextByteResponse>('/feed/next');
+  const response = await apiRequest<NextByteResponse>('/feed/next?explain=true');
   return {
     byte: response.byte ? toContentByte(response.byte) : null,
     queueSize: response.queueSize,
@@ -105,6 +137,22 @@ export async function fetchNextByte(): Promise<{
   };
 }
 
+/**
+ * Reserve up to `count` bytes for the prefetch queue in a single request
+ */
+export async function fetchNextBytes(count: number): Promise<{
+  bytes: ContentByte[];
+  queueSize: number;
+  hasUserSubscriptions: boolean;
+}> {
+  const response = await apiRequest<NextBytesResponse>(`/feed/next/batch?count=${count}&explain=true`);
+  return {
+    bytes: response.bytes.map(toContentByte),
+    queueSize: response.queueSize,
+    hasUserSubscriptions: response.hasUserSubscriptions ?? false,
+  };
+}
+
 /**
  * Get user's saved bytes
  */
@@ -113,22 +161,116 @@ export async function fetchSavedBytes(limit: number = 50): Promise<ContentByte[]
   return response.bytes.map(toContentByte);
 }
 
+const ENGAGEMENT_RETRIES = 2;
+
+/**
+ * POST an engagement mutation under one Idempotency-Key created for this user
+ * action; retries resend the same key, so the server applies it at most once
+ */
+function engagementRequest<T>(endpoint: string, body?: object): Promise<T> {
+  return apiRequest<T>(endpoint, {
+    method: 'POST',
+    headers: { 'Idempotency-Key': crypto.randomUUID() },
+    body: body ? JSON.stringify(body) : undefined,
+    retries: ENGAGEMENT_RETRIES,
+  });
+}
+
 /**
  * Vote on a byte (upvote, downvote, or remove vote)
  */
 export async function voteByte(byteId: string, vote: VoteValue): Promise<VoteResponse> {
-  return apiRequest<VoteResponse>(`/feed/bytes/${byteId}/vote`, {
+  return engagementRequest<VoteResponse>(`/feed/bytes/${byteId}/vote`, { vote });
+}
+
+/**
+ * Save or unsave a byte
+ */
+export async function setByteSaved(byteId: string, saved: boolean): Promise<SaveResponse> {
+  return engagementRequest<SaveResponse>(`/feed/bytes/${byteId}/save`, { saved });
+}
+
+/**
+ * Track that the user shared a byte
+ */
+export async function shareByte(byteId: string): Promise<void> {
+  await engagementRequest<{ success: boolean }>(`/feed/bytes/${byteId}/share`);
+}
+
+/**
+ * Answer a spaced-repetition review
+ */
+export async function reviewByte(byteId: string, outcome: ReviewOutcome): Promise<ReviewResponse> {
+  return apiRequest<ReviewResponse>(`/feed/bytes/${byteId}/review`, {
     method: 'POST',
-    body: JSON.stringify({ vote }),
+    body: JSON.stringify({ outcome }),
   });
 }
 
 /**
- * Toggle save/unsave a byte
+ * Get the passage a byte came from, with surrounding paragraphs
  */
-export async function toggleSaveByte(byteId: string): Promise<SaveResponse> {
-  return apiRequest<SaveResponse>(`/feed/bytes/${byteId}/save`, {
+export async function fetchByteContext(byteId: string): Promise<ByteContext> {
+  return apiRequest<ByteContext>(`/feed/bytes/${byteId}/context`);
+}
+
+/**
+ * Get the user's active mute rules
+ */
+export async function fetchMuteRules(): Promise<MuteRule[]> {
+  const response = await apiRequest<{ rules: MuteRule[] }>('/feed/mutes');
+  return response.rules;
+}
+
+/**
+ * Mute a source, author, category or keyword
+ * @param expiresInDays - omit to mute until removed
+ */
+export async function createMuteRule(rule: {
+  type: MuteRuleType;
+  value: string;
+  label?: string;
+  expiresInDays?: number;
+}): Promise<MuteRule> {
+  const response = await apiRequest<{ rule: MuteRule }>('/feed/mutes', {
     method: 'POST',
+    body: JSON.stringify(rule),
+  });
+  return response.rule;
+}
+
+/**
+ * Remove a mute rule
+ */
+export async function deleteMuteRule(ruleId: string): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/feed/mutes/${ruleId}`, {
+    method: 'DELETE',
+  });
+}
+
+/**
+ * Get the private inbox address and the sources forwarded mail created
+ */
+export async function fetchPrivateInbox(): Promise<PrivateInbox> {
+  return apiRequest<PrivateInbox>('/me/inbox');
+}
+
+/**
+ * Turn the private inbox on or off; the first time it's on, an address is assigned
+ */
+export async function setPrivateInboxEnabled(enabled: boolean): Promise<{ enabled: boolean; address: string | null }> {
+  return apiRequest<{ enabled: boolean; address: string | null }>('/me/inbox', {
+    method: 'PUT',
+    body: JSON.stringify({ enabled }),
+  });
+}
+
+/**
+ * Delete a private source with everything forwarded to it
+ */
+export async function deletePrivateSource(sourceId: string): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/me/inbox/sources/${sourceId}`, {
+    method: 'DELETE',
   });
 }
 
@@ -137,10 +279,7 @@ export async function toggleSaveByte(byteId: string): Promise<SaveResponse> {
  * @param isRead - true if user actually read the byte (tab was active 5+ seconds)
  */
 export async function trackByteView(byteId: string, dwellTimeMs: number, isRead: boolean = false): Promise<void> {
-  await apiRequest<{ success: boolean }>(`/feed/bytes/${byteId}/view`, {
-    method: 'POST',
-    body: JSON.stringify({ dwellTimeMs, isRead }),
-  });
+  await engagementRequest<{ success: boolean }>(`/feed/bytes/${byteId}/view`, { dwellTimeMs, isRead });
 }
 
 /**
@@ -28,6 +28,7 @@ declare const chrome: {
 // Production URL as fallback - override with VITE_API_URL for local development
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://api.byteletters.app';
 const API_TIMEOUT_MS = 10000; // 10 second timeout for API calls
+const RETRY_DELAY_MS = 500; // Doubled after each failed attempt
 
 // Helper to fetch with timeout
 async function fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
@@ -60,6 +61,8 @@ export interface AuthUser {
   birthDate?: string;
   lifeExpectancy?: number;
   enableRecommendations?: boolean;
+  enableSpacedRepetition?: boolean;
+  reviewRatio?: number;
 }
 
 export interface AuthState {
@@ -198,7 +201,14 @@ export async function verifyToken(token: string): Promise<AuthUser | null> {
  */
 export async function updateProfile(
   token: string,
-  updates: { name?: string; birthDate?: string; lifeExpectancy?: number; enableRecommendations?: boolean }
+  updates: {
+    name?: string;
+    birthDate?: string;
+    lifeExpectancy?: number;
+    enableRecommendations?: boolean;
+    enableSpacedRepetition?: boolean;
+    reviewRatio?: number;
+  }
 ): Promise<AuthUser> {
   const response = await fetchWithTimeout(`${API_BASE_URL}/auth/profile`, {
     method: 'PUT',
@@ -220,26 +230,39 @@ export async function updateProfile(
 
 /**
  * Make authenticated API request
+ * @param retries - extra attempts after a network error, timeout or 5xx; only
+ *   for requests the server applies at most once (an Idempotency-Key header),
+ *   since every attempt sends the same headers and body
  */
 export async function apiRequest<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit & { retries?: number } = {}
 ): Promise<T> {
+  const { retries = 0, ...init } = options;
   const storedAuth = await getStoredAuth();
 
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
-    ...options.headers,
+    ...init.headers,
   };
 
   if (storedAuth?.token) {
     (headers as Record<string, string>)['Authorization'] = `Bearer ${storedAuth.token}`;
   }
 
-  const response = await fetchWithTimeout(`${API_BASE_URL}${endpoint}`, {
-    ...options,
-    headers,
-  });
+  let response: Response;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      response = await fetchWithTimeout(`${API_BASE_URL}${endpoint}`, {
+        ...init,
+        headers,
+      });
+      if (response.status < 500 || attempt >= retries) break;
+    } catch (error) {
+      if (attempt >= retries) throw error;
+    }
+    await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** attempt));
+  }
 
   if (response.status === 401) {
     // Token expired, clear auth
@@ -8,6 +8,8 @@ export interface UserProfile {
   lifeExpectancy: number;
   inboxEmail?: string;
   enableRecommendations: boolean;
+  enableSpacedRepetition?: boolean; // Resurface saved/upvoted bytes for review
+  reviewRatio?: number; // Share of new-tab bytes that are reviews (0-0.5)
   createdAt: string;
 }
 
@@ -52,9 +54,43 @@ export interface ContentByte {
     isSaved: boolean;
   };
   isSponsored: boolean;
+  isReview?: boolean; // Resurfaced by spaced repetition
+  reason?: RecommendationReason; // "Why am I seeing this?"
+  editionUrl?: string | null; // Web version of the edition this came from
+  hasContext?: boolean; // The source passage can be shown
   createdAt: string;
 }
 
+// The passage a byte came from, for "Read in context"
+export interface ByteContext {
+  byteId: string;
+  passage: {
+    before: string[];
+    lead: string;
+    text: string;
+    trail: string;
+    after: string[];
+  } | null;
+  edition: {
+    id: string;
+    subject: string;
+    publishedAt: string;
+    url: string | null;
+  };
+  source: {
+    name: string;
+    website: string | null;
+  };
+}
+
+export interface RecommendationReason {
+  summary: string;
+  factors: {
+    factor: string;
+    label: string;
+  }[];
+}
+
 export interface FeedResponse {
   bytes: ContentByte[];
   nextCursor: string | null;
@@ -67,6 +103,37 @@ export interface FeedResponse {
 
 export type VoteValue = -1 | 0 | 1;
 
+export type ReviewOutcome = 'remembered' | 'again';
+
+export type MuteRuleType = 'source' | 'author' | 'category' | 'keyword';
+
+export interface MuteRule {
+  id: string;
+  type: MuteRuleType;
+  value: string; // Source id, author name, category, or keyword
+  label: string | null; // Display name (e.g. source name)
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface PrivateInboxSource {
+  id: string;
+  name: string;
+  senderEmail: string;
+  category: string;
+  editions: number;
+  pendingEditions: number;
+  failedEditions: number;
+  lastReceivedAt: string | null;
+}
+
+// Personal forwarding address for newsletters only this user sees
+export interface PrivateInbox {
+  enabled: boolean;
+  address: string | null;
+  sources: PrivateInboxSource[];
+}
+
 export interface EngagementAction {
   byteId: string;
   action: 'upvote' | 'downvote' | 'save' | 'view';